@@ -0,0 +1,66 @@
+import * as functions from 'firebase-functions';
+import { PDFDocument } from 'pdf-lib';
+import { extractDocument } from '../extract';
+import { isRetryableError } from '.';
+
+// extractDocument 가 쓰는 메서드만 흉내 낸 스토리지 객체입니다.
+const fakeFile = (contentType: string, contents: string | Buffer) =>
+  ({
+    getMetadata: async () => [{ contentType }],
+    download: async () => [Buffer.from(contents)],
+  } as unknown as Parameters<typeof extractDocument>[0]);
+
+const errorFrom = (promise: Promise<unknown>) =>
+  promise.then(
+    () => null,
+    (error: unknown) => error
+  );
+
+describe('isRetryableError', () => {
+  it('does not retry unsupported file types', async () => {
+    const error = await errorFrom(
+      extractDocument(fakeFile('image/png', ''), 'photo.png')
+    );
+    expect(isRetryableError(error)).toBe(false);
+  });
+
+  it('does not retry files that cannot be read', async () => {
+    const error = await errorFrom(
+      extractDocument(fakeFile('application/pdf', 'not a pdf'), 'broken.pdf')
+    );
+    expect(error).toBeInstanceOf(functions.https.HttpsError);
+    expect(isRetryableError(error)).toBe(false);
+  });
+
+  it('retries when writing extraction progress fails', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+    const writeError = new Error('DEADLINE_EXCEEDED');
+    const error = await errorFrom(
+      extractDocument(
+        fakeFile('application/pdf', Buffer.from(await pdfDoc.save())),
+        'deck.pdf',
+        async () => {
+          throw writeError;
+        }
+      )
+    );
+    expect(error).toBe(writeError);
+    expect(isRetryableError(error)).toBe(true);
+  });
+
+  it('does not retry when every part failed to analyze', () => {
+    const error = new functions.https.HttpsError(
+      'failed-precondition',
+      'Every part of the document failed to analyze.'
+    );
+    expect(isRetryableError(error)).toBe(false);
+  });
+
+  it('retries transient failures', () => {
+    expect(isRetryableError(new Error('socket hang up'))).toBe(true);
+    expect(
+      isRetryableError(new functions.https.HttpsError('internal', 'timeout'))
+    ).toBe(true);
+  });
+});
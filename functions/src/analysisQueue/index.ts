@@ -0,0 +1,228 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { getFunctions } from 'firebase-admin/functions';
+import { AnalysisProgress, analyzePDFCommon } from '../pdf';
+import { parseFileStoragePath } from '../storagePaths';
+import { applyAutoFiling } from '../autoFiling';
+
+const MAX_ATTEMPTS = 5;
+// 지원하지 않는 형식, 읽을 수 없는 파일, 모든 조각의 분석 실패는 다시
+// 시도해도 같은 결과이므로 바로 failed 로 남깁니다.
+const NON_RETRYABLE_CODES: string[] = [
+  'invalid-argument',
+  'failed-precondition',
+];
+// 문서 하나에 초당 한 번 넘게 쓰지 않도록 진행률 기록 간격을 둡니다.
+const PROGRESS_WRITE_INTERVAL_MS = 2000;
+
+type JobStatus = 'queued' | 'extracting' | 'analyzing' | 'completed' | 'failed';
+
+interface AnalysisJob {
+  fileId: string;
+  versionId: string | null;
+  storagePath: string;
+  fileName: string;
+  status: JobStatus;
+  attempts: number;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return !(
+    error instanceof functions.https.HttpsError &&
+    NON_RETRYABLE_CODES.includes(error.code)
+  );
+}
+
+const userRef = (userId: string) =>
+  admin.firestore().collection('users').doc(userId);
+
+// 작업 문서를 만들고 작업 큐에 넣습니다. 같은 버전의 이전 작업은 덮어씁니다.
+export async function queueAnalysisJob(
+  userId: string,
+  job: Pick<AnalysisJob, 'fileId' | 'versionId' | 'storagePath' | 'fileName'>
+) {
+  const jobId = job.versionId || job.fileId;
+  await userRef(userId)
+    .collection('analysisJobs')
+    .doc(jobId)
+    .set({
+      ...job,
+      status: 'queued',
+      attempts: 0,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  await getFunctions()
+    .taskQueue('processAnalysisJob')
+    .enqueue({ userId, jobId });
+}
+
+// 업로드가 끝나면 분석 작업을 큐에 넣습니다. 분석은 processAnalysisJob 이
+// 따로 처리합니다.
+export const enqueueAnalysisJob = functions.storage
+  .object()
+  .onFinalize(async (object) => {
+    // 워터마크 사본처럼 업로드한 문서가 아닌 객체는 건너뜁니다.
+    const location = object.name ? parseFileStoragePath(object.name) : null;
+    if (!location) {
+      return null;
+    }
+    // 파일 ID 이전으로 복사한 객체는 이미 분석한 문서입니다.
+    if (object.metadata?.migratedFrom) {
+      return null;
+    }
+
+    await queueAnalysisJob(location.userId, {
+      fileId: location.fileId,
+      versionId: location.versionId || null,
+      storagePath: object.name as string,
+      fileName: location.fileName,
+    });
+    return null;
+  });
+
+// 작업 하나를 처리합니다. 실패하면 예외를 던져 작업 큐가 지수 백오프로
+// 다시 시도하게 하고, 다시 시도할 수 없는 오류이거나 마지막 시도까지
+// 실패하면 failed 로 남깁니다.
+export const processAnalysisJob = functions
+  .runWith({ timeoutSeconds: 540, memory: '1GB' })
+  .tasks.taskQueue({
+    retryConfig: {
+      maxAttempts: MAX_ATTEMPTS,
+      minBackoffSeconds: 30,
+      maxBackoffSeconds: 600,
+      maxDoublings: 4,
+    },
+    rateLimits: { maxConcurrentDispatches: 5 },
+  })
+  .onDispatch(async (data: { userId: string; jobId: string }) => {
+    const { userId, jobId } = data;
+    const jobRef = userRef(userId).collection('analysisJobs').doc(jobId);
+    const jobDoc = await jobRef.get();
+    const job = jobDoc.data() as AnalysisJob | undefined;
+    if (!job || job.status === 'completed' || job.status === 'failed') {
+      return;
+    }
+
+    const fileRef = userRef(userId).collection('files').doc(job.fileId);
+    const versionRef = job.versionId
+      ? fileRef.collection('versions').doc(job.versionId)
+      : null;
+    const attempts = job.attempts + 1;
+
+    // 상태와 진행률을 작업 문서와 버전 문서에 쓰고, 이 버전이 현재 버전일
+    // 때만 파일 문서에도 씁니다.
+    const publish = async (
+      fields: { status?: JobStatus; analysisProgress?: AnalysisProgress },
+      jobFields: { [key: string]: unknown } = {}
+    ) => {
+      await jobRef.update({
+        ...fields,
+        attempts,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        ...jobFields,
+      });
+      if (versionRef && (await versionRef.get()).exists) {
+        await versionRef.update(fields);
+      }
+      const fileDoc = await fileRef.get();
+      if (
+        fileDoc.exists &&
+        (!job.versionId || fileDoc.data()?.currentVersionId === job.versionId)
+      ) {
+        await fileRef.update(fields);
+      }
+    };
+    const setStatus = (
+      status: JobStatus,
+      jobFields: { [key: string]: unknown } = {}
+    ) => publish({ status }, jobFields);
+
+    let lastProgressWrite = 0;
+    const reportProgress = async (progress: AnalysisProgress) => {
+      const [done, total] =
+        progress.stage === 'extracting'
+          ? [progress.pagesExtracted, progress.totalPages]
+          : [progress.chunksAnalyzed, progress.totalChunks];
+      const isFirst = done === 0;
+      const isLast = done === total;
+      if (
+        !isFirst &&
+        !isLast &&
+        Date.now() - lastProgressWrite < PROGRESS_WRITE_INTERVAL_MS
+      ) {
+        return;
+      }
+      lastProgressWrite = Date.now();
+      await publish(
+        isFirst && progress.stage === 'analyzing'
+          ? { status: 'analyzing', analysisProgress: progress }
+          : { analysisProgress: progress }
+      );
+    };
+
+    try {
+      // 클라이언트가 아직 파일(버전) 문서를 쓰지 않았으면 다음 시도로 미룹니다.
+      const targetDoc = await (versionRef || fileRef).get();
+      if (!targetDoc.exists) {
+        throw new Error('File metadata has not been written yet.');
+      }
+      // 이미 분석된 객체(예: 파일 ID 이전으로 복사된 객체)는 다시 분석하지 않습니다.
+      if (
+        targetDoc.data()?.status === 'completed' &&
+        targetDoc.data()?.storagePath === job.storagePath
+      ) {
+        await jobRef.update({
+          status: 'completed',
+          skipped: true,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return;
+      }
+
+      await publish({
+        status: 'extracting',
+        analysisProgress: {
+          stage: 'extracting',
+          pagesExtracted: 0,
+          totalPages: 0,
+          chunksAnalyzed: 0,
+          totalChunks: 0,
+          estimatedSecondsRemaining: null,
+        },
+      });
+      const file = admin.storage().bucket().file(job.storagePath);
+      await analyzePDFCommon(
+        file,
+        job.fileId,
+        job.fileName,
+        userId,
+        job.versionId || undefined,
+        reportProgress
+      );
+      await jobRef.update({
+        status: 'completed',
+        attempts,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(
+        `Analysis job ${jobId} failed (attempt ${attempts}):`,
+        error
+      );
+      if (!isRetryableError(error) || attempts >= MAX_ATTEMPTS) {
+        await setStatus('failed', { lastError: message });
+        return;
+      }
+      await setStatus('queued', { lastError: message });
+      throw error;
+    }
+
+    // 분석은 이미 끝났으므로 자동 정리가 실패해도 작업을 다시 돌리지 않습니다.
+    try {
+      await applyAutoFiling(userId, job.fileId);
+    } catch (error) {
+      console.error(`Auto-filing failed for file ${job.fileId}:`, error);
+    }
+  });
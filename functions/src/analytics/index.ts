@@ -0,0 +1,244 @@
+import * as crypto from 'crypto';
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { assertNdaAccepted } from '../nda/gate';
+import { loadActiveShare, ShareData } from '../shareViewer';
+
+// 한 번의 보고에서 한 페이지에 인정하는 최대 체류 시간입니다. 탭을 열어둔 채
+// 자리를 비운 경우 통계가 부풀려지지 않도록 합니다.
+const MAX_PAGE_DWELL_MS = 5 * 60 * 1000;
+
+type ActivityType = 'open' | 'pages' | 'download';
+
+interface ShareSession {
+  shareId: string;
+  fileId: string;
+  investorId: string | null;
+  viewerEmail: string;
+}
+
+function sessionsRef(ownerId: string) {
+  return admin
+    .firestore()
+    .collection('users')
+    .doc(ownerId)
+    .collection('shareSessions');
+}
+
+// email 은 소문자로 바꾼 주소입니다. emailLower 가 없는 예전 투자자 문서는
+// 저장된 이메일과 그대로 비교합니다.
+async function findInvestorId(
+  ownerId: string,
+  email: string
+): Promise<string | null> {
+  const investorsRef = admin
+    .firestore()
+    .collection('users')
+    .doc(ownerId)
+    .collection('investors');
+  let investors = await investorsRef
+    .where('emailLower', '==', email)
+    .limit(1)
+    .get();
+  if (investors.empty) {
+    investors = await investorsRef.where('email', '==', email).limit(1).get();
+  }
+  return investors.empty ? null : investors.docs[0].id;
+}
+
+function sanitizePageDwell(pageDwell: unknown): { [page: string]: number } {
+  const result: { [page: string]: number } = {};
+  if (!pageDwell || typeof pageDwell !== 'object') return result;
+
+  Object.entries(pageDwell as { [key: string]: unknown }).forEach(
+    ([page, ms]) => {
+      const pageNumber = Number(page);
+      if (
+        Number.isInteger(pageNumber) &&
+        pageNumber > 0 &&
+        typeof ms === 'number' &&
+        ms > 0
+      ) {
+        result[String(pageNumber)] = Math.min(ms, MAX_PAGE_DWELL_MS);
+      }
+    }
+  );
+  return result;
+}
+
+async function logActivity(
+  share: ShareData,
+  investorId: string,
+  action: string
+) {
+  await admin
+    .firestore()
+    .collection('activityLogs')
+    .doc(investorId)
+    .collection('logs')
+    .add({
+      timestamp: new Date().toISOString(),
+      action,
+      fileId: share.fileId,
+      shareId: share.shareId,
+      ownerId: share.createdBy,
+    });
+}
+
+// 세션 이벤트를 투자자별 DataRoomStats 와 문서별 페이지 체류 시간으로 집계합니다.
+async function aggregateActivity(
+  share: ShareData,
+  session: ShareSession,
+  update: {
+    opened?: boolean;
+    downloaded?: boolean;
+    pageCount?: number;
+    pageDwell?: { [page: string]: number };
+  }
+) {
+  if (!session.investorId) return;
+
+  const firestore = admin.firestore();
+  const statsRef = firestore
+    .collection('dataRoomStats')
+    .doc(session.investorId);
+  const documentRef = statsRef.collection('documents').doc(share.fileId);
+  const dwellMs = Object.values(update.pageDwell || {}).reduce(
+    (total, ms) => total + ms,
+    0
+  );
+
+  await firestore.runTransaction(async (transaction) => {
+    const statsDoc = await transaction.get(statsRef);
+    const stats = statsDoc.data() || {};
+    const viewedFileIds: string[] = stats.viewedFileIds || [];
+    if (update.opened && !viewedFileIds.includes(share.fileId)) {
+      viewedFileIds.push(share.fileId);
+    }
+    const timeSpentMs = (stats.timeSpentMs || 0) + dwellMs;
+
+    transaction.set(
+      statsRef,
+      {
+        ownerId: share.createdBy,
+        lastAccessed: new Date().toISOString(),
+        viewedFileIds,
+        documentsViewed: viewedFileIds.length,
+        timeSpentMs,
+        timeSpent: Math.round((timeSpentMs / 60000) * 10) / 10,
+      },
+      { merge: true }
+    );
+
+    const documentUpdate: { [key: string]: unknown } = {
+      ownerId: share.createdBy,
+      fileId: share.fileId,
+      lastViewedAt: new Date().toISOString(),
+      totalMs: admin.firestore.FieldValue.increment(dwellMs),
+    };
+    if (update.opened) {
+      documentUpdate.views = admin.firestore.FieldValue.increment(1);
+    }
+    if (update.downloaded) {
+      documentUpdate.downloads = admin.firestore.FieldValue.increment(1);
+    }
+    if (update.pageCount) {
+      documentUpdate.pageCount = update.pageCount;
+    }
+    const pageDwell: { [page: string]: unknown } = {};
+    Object.entries(update.pageDwell || {}).forEach(([page, ms]) => {
+      pageDwell[page] = admin.firestore.FieldValue.increment(ms);
+    });
+    documentUpdate.pageDwell = pageDwell;
+    transaction.set(documentRef, documentUpdate, { merge: true });
+  });
+}
+
+export const recordShareActivity = functions.https.onCall(async (data) => {
+  const share = await loadActiveShare(data?.shareId);
+  const ndaGate = await assertNdaAccepted(share, data.acceptanceId);
+  const type = data.type as ActivityType;
+
+  if (type === 'open') {
+    const viewerEmail = (
+      ndaGate.acceptance?.email || share.recipientEmail
+    ).toLowerCase();
+    const investorId = await findInvestorId(share.createdBy, viewerEmail);
+    const session: ShareSession = {
+      shareId: share.shareId,
+      fileId: share.fileId,
+      investorId,
+      viewerEmail,
+    };
+
+    const sessionId = crypto.randomBytes(16).toString('hex');
+    await sessionsRef(share.createdBy)
+      .doc(sessionId)
+      .set({
+        ...session,
+        acceptanceId: ndaGate.acceptance?.id || null,
+        startedAt: admin.firestore.FieldValue.serverTimestamp(),
+        lastActiveAt: admin.firestore.FieldValue.serverTimestamp(),
+        totalMs: 0,
+        pageDwell: {},
+        downloads: 0,
+      });
+
+    const pageCount = Number(data.pageCount);
+    await aggregateActivity(share, session, {
+      opened: true,
+      pageCount: Number.isInteger(pageCount) ? pageCount : undefined,
+    });
+    if (investorId) {
+      await logActivity(share, investorId, 'viewed');
+    }
+    return { sessionId };
+  }
+
+  if (type !== 'pages' && type !== 'download') {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      'Unknown activity type.'
+    );
+  }
+
+  const sessionRef = sessionsRef(share.createdBy).doc(String(data.sessionId));
+  const sessionDoc = await sessionRef.get();
+  const session = sessionDoc.data() as ShareSession | undefined;
+  if (!session || session.shareId !== share.shareId) {
+    throw new functions.https.HttpsError('not-found', 'Session not found.');
+  }
+
+  if (type === 'pages') {
+    const pageDwell = sanitizePageDwell(data.pageDwell);
+    const sessionUpdate: { [key: string]: unknown } = {
+      lastActiveAt: admin.firestore.FieldValue.serverTimestamp(),
+      totalMs: admin.firestore.FieldValue.increment(
+        Object.values(pageDwell).reduce((total, ms) => total + ms, 0)
+      ),
+    };
+    Object.entries(pageDwell).forEach(([page, ms]) => {
+      sessionUpdate[`pageDwell.${page}`] =
+        admin.firestore.FieldValue.increment(ms);
+    });
+    await sessionRef.update(sessionUpdate);
+    await aggregateActivity(share, session, { pageDwell });
+  } else {
+    if (!share.downloadable) {
+      throw new functions.https.HttpsError(
+        'permission-denied',
+        'Downloads are disabled for this share.'
+      );
+    }
+    await sessionRef.update({
+      downloads: admin.firestore.FieldValue.increment(1),
+      lastActiveAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await aggregateActivity(share, session, { downloaded: true });
+    if (session.investorId) {
+      await logActivity(share, session.investorId, 'downloaded');
+    }
+  }
+
+  return { success: true };
+});
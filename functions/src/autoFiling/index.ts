@@ -0,0 +1,61 @@
+import * as admin from 'firebase-admin';
+
+interface FilingRule {
+  keyword: string;
+  folderId: string;
+}
+
+interface AutoFilingSettings {
+  enabled: boolean;
+  rules: FilingRule[];
+}
+
+// 클라이언트의 suggestFiling 과 같은 규칙입니다. 분석 결과의 카테고리와
+// 태그를 규칙 순서대로 비교해 처음 맞는 폴더를 제안합니다.
+export function suggestFiling(
+  analysis: { categories?: string[]; tags?: string[] },
+  currentFolderId: string | null,
+  settings: AutoFilingSettings
+): { folderId: string; matchedKeyword: string } | null {
+  const labels = [...(analysis.categories || []), ...(analysis.tags || [])].map(
+    (label) => label.toLowerCase()
+  );
+
+  for (const rule of settings.rules || []) {
+    const keyword = rule.keyword.trim().toLowerCase();
+    if (!keyword || !rule.folderId) continue;
+    if (labels.some((label) => label.includes(keyword))) {
+      return rule.folderId === currentFolderId
+        ? null
+        : { folderId: rule.folderId, matchedKeyword: rule.keyword };
+    }
+  }
+  return null;
+}
+
+// 자동 정리를 켜 둔 사용자라면 분석이 끝난 문서에 이동 제안을 남깁니다.
+export async function applyAutoFiling(userId: string, fileId: string) {
+  const userRef = admin.firestore().collection('users').doc(userId);
+  const [settingsDoc, fileDoc] = await Promise.all([
+    userRef.collection('settings').doc('autoFiling').get(),
+    userRef.collection('files').doc(fileId).get(),
+  ]);
+  const settings = settingsDoc.data() as AutoFilingSettings | undefined;
+  const fileData = fileDoc.data();
+  if (
+    !settings?.enabled ||
+    !fileData ||
+    typeof fileData.analysis !== 'object'
+  ) {
+    return;
+  }
+
+  const suggestion = suggestFiling(
+    fileData.analysis,
+    fileData.folderId || null,
+    settings
+  );
+  if (suggestion) {
+    await fileDoc.ref.update({ filingSuggestion: suggestion });
+  }
+}
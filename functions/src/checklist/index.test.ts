@@ -0,0 +1,98 @@
+import { parseRequestRows, splitPastedText } from '.';
+
+describe('splitPastedText', () => {
+  it('splits leading numbering into a ref column', () => {
+    expect(
+      splitPastedText(
+        '1. Articles of incorporation\n2.3 Board minutes\nb) Cap table'
+      )
+    ).toEqual([
+      ['1', 'Articles of incorporation'],
+      ['2.3', 'Board minutes'],
+      ['b', 'Cap table'],
+    ]);
+  });
+
+  it('keeps lines that start with a word as requests', () => {
+    expect(splitPastedText('A copy of the lease\n\n')).toEqual([
+      ['', 'A copy of the lease'],
+    ]);
+  });
+
+  it('keeps tab-separated columns from a spreadsheet copy', () => {
+    expect(splitPastedText('1.1\tCorporate\tShareholder register')).toEqual([
+      ['1.1', 'Corporate', 'Shareholder register'],
+    ]);
+  });
+});
+
+describe('parseRequestRows', () => {
+  it('uses named columns when the first row is a header', () => {
+    expect(
+      parseRequestRows([
+        ['Ref', 'Section', 'Request'],
+        ['1.1', 'Corporate', 'Articles of incorporation'],
+        ['1.2', '', 'Board minutes'],
+      ])
+    ).toEqual([
+      {
+        ref: '1.1',
+        section: 'Corporate',
+        request: 'Articles of incorporation',
+      },
+      { ref: '1.2', section: 'Corporate', request: 'Board minutes' },
+    ]);
+  });
+
+  it('treats a list without a header as data from the first row', () => {
+    expect(
+      parseRequestRows([
+        ['1', 'Articles of incorporation'],
+        ['2', 'Board minutes for the last three years'],
+      ])
+    ).toEqual([
+      { ref: '1', section: '', request: 'Articles of incorporation' },
+      {
+        ref: '2',
+        section: '',
+        request: 'Board minutes for the last three years',
+      },
+    ]);
+  });
+
+  it('does not mistake a first request that mentions a header word for a header', () => {
+    expect(
+      parseRequestRows(
+        splitPastedText(
+          '1. Corporate documents – articles\n2. Description of the share capital'
+        )
+      )
+    ).toEqual([
+      { ref: '1', section: '', request: 'Corporate documents – articles' },
+      { ref: '2', section: '', request: 'Description of the share capital' },
+    ]);
+  });
+
+  it('does not treat a numbered first row as a header', () => {
+    expect(
+      parseRequestRows([
+        ['1', 'Documents'],
+        ['2', 'Material contracts'],
+      ])
+    ).toEqual([
+      { ref: '1', section: '', request: 'Documents' },
+      { ref: '2', section: '', request: 'Material contracts' },
+    ]);
+  });
+
+  it('uses ref-only rows as section titles', () => {
+    expect(
+      parseRequestRows([
+        ['Corporate', ''],
+        ['1', 'Articles of incorporation'],
+      ])
+    ).toEqual([
+      { ref: '1', section: 'Corporate', request: 'Articles of incorporation' },
+    ]);
+  });
+});
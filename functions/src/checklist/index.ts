@@ -0,0 +1,303 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import * as XLSX from 'xlsx';
+import { tokenize } from '../search';
+
+// 업로드한 요청 목록 파일의 최대 크기입니다. (base64 로 풀기 전 기준)
+const MAX_LIST_BYTES = 5 * 1024 * 1024;
+const MAX_ITEMS = 1000;
+const MAX_MATCHES = 3;
+const MATCHED_SCORE = 0.6;
+const PARTIAL_SCORE = 0.3;
+
+// 실사 요청 목록에 흔히 나오지만 어떤 문서인지 가려 주지 못하는 단어입니다.
+const REQUEST_STOP_WORDS = new Set([
+  'all',
+  'any',
+  'copies',
+  'copy',
+  'company',
+  'documents',
+  'list',
+  'provide',
+  'please',
+  'relating',
+  'related',
+  'including',
+  'other',
+  'each',
+  'such',
+]);
+
+const REF_HEADERS = ['#', 'no', 'no.', 'ref', 'reference', 'item', 'id'];
+const SECTION_HEADERS = ['section', 'category', 'area', 'topic', 'workstream'];
+const REQUEST_HEADERS = [
+  'request',
+  'requests',
+  'description',
+  'document',
+  'documents',
+  'document request',
+  'requirement',
+];
+
+interface RequestItem {
+  ref: string;
+  section: string;
+  request: string;
+}
+
+const normalizeHeader = (cell: unknown) =>
+  String(cell ?? '')
+    .trim()
+    .toLowerCase();
+
+// 1, 2.3, A1, a) 처럼 번호로 보이는 칸입니다.
+const looksLikeRef = (cell: string) =>
+  /^(?:[a-z]?\d+(?:\.\d+)*|[a-z])[.)]?$/.test(cell);
+
+// 첫 줄의 칸이 머리글 이름과 정확히 같고 번호가 없을 때만 머리글로 봅니다.
+// 머리글이 없으면 가장 긴 글이 든 열을 요청 문장으로 봅니다. 요청 열만
+// 채워진 줄은 같은 구역으로 이어 붙입니다.
+export function parseRequestRows(rows: unknown[][]): RequestItem[] {
+  const nonEmpty = rows.filter((row) =>
+    row.some((cell) => String(cell ?? '').trim())
+  );
+  if (nonEmpty.length === 0) return [];
+
+  const header = nonEmpty[0].map(normalizeHeader);
+  const findColumn = (names: string[]) =>
+    header.findIndex((cell) => names.includes(cell));
+  const hasHeader =
+    findColumn(REQUEST_HEADERS) >= 0 && !header.some(looksLikeRef);
+  let requestColumn = hasHeader ? findColumn(REQUEST_HEADERS) : -1;
+  let refColumn = hasHeader ? findColumn(REF_HEADERS) : -1;
+  let sectionColumn = hasHeader ? findColumn(SECTION_HEADERS) : -1;
+  const dataRows = hasHeader ? nonEmpty.slice(1) : nonEmpty;
+
+  if (!hasHeader) {
+    const width = Math.max(...dataRows.map((row) => row.length));
+    const averageLength = (column: number) =>
+      dataRows.reduce(
+        (sum, row) => sum + String(row[column] ?? '').trim().length,
+        0
+      ) / dataRows.length;
+    requestColumn = 0;
+    for (let column = 1; column < width; column++) {
+      if (averageLength(column) > averageLength(requestColumn)) {
+        requestColumn = column;
+      }
+    }
+    // 요청 열 앞의 짧은 열은 번호로 봅니다.
+    refColumn = requestColumn > 0 ? 0 : -1;
+    sectionColumn = requestColumn > 1 ? 1 : -1;
+  }
+
+  const items: RequestItem[] = [];
+  let currentSection = '';
+  dataRows.forEach((row) => {
+    const cell = (column: number) =>
+      column >= 0 ? String(row[column] ?? '').trim() : '';
+    const request = cell(requestColumn);
+    const section = cell(sectionColumn);
+    if (section) currentSection = section;
+    if (!request) {
+      // 번호만 있고 요청이 없는 줄은 구역 제목입니다.
+      if (!section && cell(refColumn)) currentSection = cell(refColumn);
+      return;
+    }
+    items.push({ ref: cell(refColumn), section: currentSection, request });
+  });
+  return items.slice(0, MAX_ITEMS);
+}
+
+// 붙여 넣은 글은 탭으로 나뉜 줄(스프레드시트 복사)이면 그대로 열로 쓰고,
+// 아니면 줄 앞의 번호(1.2, a) 등)를 떼어 번호 열로 씁니다.
+export function splitPastedText(text: string): string[][] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line) => {
+      if (line.includes('\t')) return line.split('\t');
+      const numbered = line
+        .trim()
+        .match(/^(\d+(?:\.\d+)*|[A-Za-z](?=[.)]))[.)]?\s+(.+)$/);
+      return numbered ? [numbered[1], numbered[2]] : ['', line.trim()];
+    });
+}
+
+// 업로드한 CSV/XLSX 요청 목록이나 붙여 넣은 글을 항목으로 풀어 돌려줍니다.
+export const parseRequestList = functions.https.onCall(
+  async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        'unauthenticated',
+        'The function must be called while authenticated.'
+      );
+    }
+    if (typeof data?.text === 'string') {
+      return { items: parseRequestRows(splitPastedText(data.text)) };
+    }
+    if (typeof data?.content !== 'string' || !data.content) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'The request list file content is required.'
+      );
+    }
+    const buffer = Buffer.from(data.content, 'base64');
+    if (buffer.length > MAX_LIST_BYTES) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'The request list must be 5MB or smaller.'
+      );
+    }
+
+    let rows: unknown[][];
+    try {
+      const isCsv = String(data.fileName || '')
+        .toLowerCase()
+        .endsWith('.csv');
+      const workbook = isCsv
+        ? XLSX.read(buffer.toString('utf8'), { type: 'string' })
+        : XLSX.read(buffer, { type: 'buffer' });
+      rows = workbook.SheetNames.flatMap((sheetName) =>
+        XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+          header: 1,
+          blankrows: false,
+          defval: '',
+        })
+      );
+    } catch (error) {
+      console.error('Error reading request list:', error);
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'The file could not be read as a spreadsheet.'
+      );
+    }
+
+    return { items: parseRequestRows(rows) };
+  }
+);
+
+const requestTerms = (request: string) =>
+  Array.from(new Set(tokenize(request))).filter(
+    (term) => !REQUEST_STOP_WORDS.has(term)
+  );
+
+// 요청 문장의 단어가 파일 이름·카테고리·태그에 얼마나 나오는지와, 검색
+// 색인에서 본문에 얼마나 나오는지를 합쳐 점수를 매깁니다.
+export const matchChecklist = functions
+  .runWith({ timeoutSeconds: 300, memory: '512MB' })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        'unauthenticated',
+        'The function must be called while authenticated.'
+      );
+    }
+    if (typeof data?.checklistId !== 'string' || !data.checklistId) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'A checklist ID is required.'
+      );
+    }
+
+    const userRef = admin.firestore().collection('users').doc(context.auth.uid);
+    const itemsRef = userRef
+      .collection('checklists')
+      .doc(data.checklistId)
+      .collection('items');
+    const [itemsSnapshot, filesSnapshot] = await Promise.all([
+      itemsRef.get(),
+      userRef.collection('files').get(),
+    ]);
+    if (itemsSnapshot.empty) {
+      throw new functions.https.HttpsError(
+        'not-found',
+        'The checklist has no items.'
+      );
+    }
+
+    const files = filesSnapshot.docs.map((fileDoc) => {
+      const analysis = fileDoc.data().analysis || {};
+      return {
+        id: fileDoc.id,
+        name: (fileDoc.data().name as string) || fileDoc.id,
+        labels: new Set(
+          tokenize(
+            [
+              fileDoc.data().name,
+              ...(analysis.categories || []),
+              ...(analysis.tags || []),
+            ].join(' ')
+          )
+        ),
+      };
+    });
+
+    const itemTerms = new Map(
+      itemsSnapshot.docs.map((itemDoc) => [
+        itemDoc.id,
+        requestTerms(itemDoc.data().request || ''),
+      ])
+    );
+    const allTerms = Array.from(new Set(Array.from(itemTerms.values()).flat()));
+    const postings = new Map<string, Set<string>>();
+    if (allTerms.length > 0) {
+      const termDocs = await admin
+        .firestore()
+        .getAll(
+          ...allTerms.map((term) => userRef.collection('searchIndex').doc(term))
+        );
+      termDocs.forEach((termDoc, index) =>
+        postings.set(
+          allTerms[index],
+          new Set(Object.keys(termDoc.data()?.postings || {}))
+        )
+      );
+    }
+
+    const writer = admin.firestore().bulkWriter();
+    const summary = { matched: 0, partial: 0, missing: 0 };
+    itemsSnapshot.docs.forEach((itemDoc) => {
+      const terms = itemTerms.get(itemDoc.id) || [];
+      const matches = files
+        .map((file) => {
+          const labelTerms = terms.filter((term) => file.labels.has(term));
+          const textTerms = terms.filter((term) =>
+            postings.get(term)?.has(file.id)
+          );
+          const score =
+            terms.length > 0
+              ? 0.4 * (labelTerms.length / terms.length) +
+                0.6 * (textTerms.length / terms.length)
+              : 0;
+          return {
+            fileId: file.id,
+            fileName: file.name,
+            score: Math.round(score * 100) / 100,
+            matchedTerms: Array.from(new Set([...labelTerms, ...textTerms])),
+          };
+        })
+        .filter((match) => match.score >= PARTIAL_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_MATCHES);
+
+      const best = matches[0]?.score || 0;
+      const coverage =
+        best >= MATCHED_SCORE
+          ? 'matched'
+          : best >= PARTIAL_SCORE
+          ? 'partial'
+          : 'missing';
+      summary[coverage]++;
+      writer.update(itemDoc.ref, {
+        matches,
+        coverage,
+        matchedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+    await writer.close();
+
+    return summary;
+  });
@@ -0,0 +1,75 @@
+import { chunkPages, countTokens, formatPages } from '.';
+
+// 같은 단어를 반복해 토큰 수를 거의 그대로 맞춘 문단입니다.
+const paragraph = (word: string, tokens: number) =>
+  `${word}${` ${word}`.repeat(tokens - 1)}`;
+
+describe('chunkPages', () => {
+  it('records the pages each chunk spans and overlaps the last paragraph', () => {
+    const pages = [
+      `${paragraph('alpha', 40)}\n\n${paragraph('beta', 40)}`,
+      '',
+      paragraph('gamma', 40),
+      paragraph('delta', 40),
+    ];
+    const chunks = chunkPages(pages, { maxTokens: 100, overlapTokens: 45 });
+
+    expect(
+      chunks.map(({ pageStart, pageEnd }) => [pageStart, pageEnd])
+    ).toEqual([
+      [1, 1],
+      [1, 3],
+      [3, 4],
+    ]);
+    expect(chunks[1].text.startsWith(paragraph('beta', 40))).toBe(true);
+    expect(chunks[2].text.startsWith(paragraph('gamma', 40))).toBe(true);
+    chunks.forEach((chunk) =>
+      expect(chunk.tokenCount).toBeLessThanOrEqual(100)
+    );
+  });
+
+  it('splits a page longer than the budget into chunks on that page', () => {
+    const chunks = chunkPages(['intro', paragraph('clause', 250)], {
+      maxTokens: 100,
+      overlapTokens: 0,
+    });
+
+    expect(
+      chunks.map(({ pageStart, pageEnd }) => [pageStart, pageEnd])
+    ).toEqual([
+      [1, 1],
+      [2, 2],
+      [2, 2],
+      [2, 2],
+    ]);
+    chunks.forEach((chunk) =>
+      expect(chunk.tokenCount).toBeLessThanOrEqual(100)
+    );
+    // 잘린 부분을 합치면 원래 페이지의 토큰을 모두 담습니다.
+    expect(
+      chunks.slice(1).reduce((sum, chunk) => sum + chunk.tokenCount, 0)
+    ).toBe(countTokens(paragraph('clause', 250)));
+  });
+
+  it('does not emit a chunk that only repeats the overlap', () => {
+    const chunks = chunkPages([paragraph('alpha', 60), paragraph('beta', 60)], {
+      maxTokens: 100,
+      overlapTokens: 80,
+    });
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1].pageEnd).toBe(2);
+  });
+
+  it('returns no chunks for empty pages', () => {
+    expect(
+      chunkPages(['', '  \n\n  '], { maxTokens: 100, overlapTokens: 0 })
+    ).toEqual([]);
+  });
+});
+
+describe('formatPages', () => {
+  it('formats single pages and ranges', () => {
+    expect(formatPages(3, 3)).toBe('page 3');
+    expect(formatPages(3, 5)).toBe('pages 3-5');
+  });
+});
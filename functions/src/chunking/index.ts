@@ -0,0 +1,123 @@
+import { Tiktoken, getEncoding } from 'js-tiktoken';
+
+export interface TextChunk {
+  text: string;
+  // 1부터 시작하는 페이지 번호이며 양 끝을 포함합니다.
+  pageStart: number;
+  pageEnd: number;
+  tokenCount: number;
+}
+
+interface ChunkOptions {
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+interface Paragraph {
+  text: string;
+  page: number;
+  tokenCount: number;
+}
+
+let encoding: Tiktoken | null = null;
+
+// gpt-4o 계열과 같은 토크나이저입니다. 처음 쓸 때 한 번만 불러옵니다.
+function getTokenizer(): Tiktoken {
+  if (!encoding) {
+    encoding = getEncoding('o200k_base');
+  }
+  return encoding;
+}
+
+export function countTokens(text: string): number {
+  return getTokenizer().encode(text).length;
+}
+
+// 문단 하나가 예산보다 길면 토큰 단위로 잘라 여러 문단으로 나눕니다.
+function splitParagraph(paragraph: Paragraph, maxTokens: number): Paragraph[] {
+  if (paragraph.tokenCount <= maxTokens) return [paragraph];
+  const tokenizer = getTokenizer();
+  const tokens = tokenizer.encode(paragraph.text);
+  const parts: Paragraph[] = [];
+  for (let start = 0; start < tokens.length; start += maxTokens) {
+    const slice = tokens.slice(start, start + maxTokens);
+    parts.push({
+      text: tokenizer.decode(slice),
+      page: paragraph.page,
+      tokenCount: slice.length,
+    });
+  }
+  return parts;
+}
+
+// 페이지를 문단 단위로 이어 붙여 토큰 예산 안에서 조각을 만듭니다. 조각마다
+// 시작·끝 페이지를 남기고, 앞 조각의 마지막 문단들을 overlapTokens 만큼
+// 다음 조각 앞에 다시 넣어 문맥이 끊기지 않게 합니다.
+export function chunkPages(
+  pages: string[],
+  options: ChunkOptions
+): TextChunk[] {
+  const paragraphs = pages.flatMap((pageText, index) =>
+    pageText
+      .split(/\n\s*\n/)
+      .map((text) => text.trim())
+      .filter(Boolean)
+      .flatMap((text) =>
+        splitParagraph(
+          { text, page: index + 1, tokenCount: countTokens(text) },
+          options.maxTokens
+        )
+      )
+  );
+
+  const chunks: TextChunk[] = [];
+  let current: Paragraph[] = [];
+  let currentTokens = 0;
+  // 겹치기 위해 다시 넣은 문단만 남은 조각은 내보내지 않습니다.
+  let hasNewContent = false;
+
+  const flush = () => {
+    if (!hasNewContent) return;
+    chunks.push({
+      text: current.map((paragraph) => paragraph.text).join('\n\n'),
+      pageStart: current[0].page,
+      pageEnd: current[current.length - 1].page,
+      tokenCount: currentTokens,
+    });
+
+    const overlap: Paragraph[] = [];
+    let overlapTokens = 0;
+    for (let i = current.length - 1; i >= 0; i--) {
+      if (overlapTokens + current[i].tokenCount > options.overlapTokens) break;
+      overlap.unshift(current[i]);
+      overlapTokens += current[i].tokenCount;
+    }
+    current = overlap;
+    currentTokens = overlapTokens;
+    hasNewContent = false;
+  };
+
+  paragraphs.forEach((paragraph) => {
+    if (currentTokens + paragraph.tokenCount > options.maxTokens) {
+      flush();
+      // 겹치는 부분까지 합쳐 예산을 넘으면 겹치기를 포기합니다.
+      if (currentTokens + paragraph.tokenCount > options.maxTokens) {
+        current = [];
+        currentTokens = 0;
+      }
+    }
+    current.push(paragraph);
+    currentTokens += paragraph.tokenCount;
+    hasNewContent = true;
+  });
+  flush();
+
+  return chunks;
+}
+
+// 프롬프트와 인용에 쓰는 페이지 범위 표기입니다.
+export function formatPages(pageStart: number, pageEnd: number): string {
+  return pageStart === pageEnd
+    ? `page ${pageStart}`
+    : `pages ${pageStart}-${pageEnd}`;
+}
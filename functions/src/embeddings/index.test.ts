@@ -0,0 +1,28 @@
+import { resolveOpenAIDimensions } from '.';
+
+describe('resolveOpenAIDimensions', () => {
+  it('uses the native size when it has a vector index', () => {
+    expect(resolveOpenAIDimensions('text-embedding-3-small')).toBe(1536);
+    expect(resolveOpenAIDimensions('text-embedding-ada-002')).toBe(1536);
+  });
+
+  it('shortens models whose native size is larger than any index', () => {
+    expect(resolveOpenAIDimensions('text-embedding-3-large')).toBe(1536);
+  });
+
+  it('accepts configured dimensions that have an index', () => {
+    expect(resolveOpenAIDimensions('text-embedding-3-large', 256)).toBe(256);
+  });
+
+  it('rejects dimensions without an index or that the model cannot return', () => {
+    expect(() =>
+      resolveOpenAIDimensions('text-embedding-3-large', 3072)
+    ).toThrow('No vector index for 3072 dimensions');
+    expect(() =>
+      resolveOpenAIDimensions('text-embedding-ada-002', 256)
+    ).toThrow('only returns 1536 dimensions');
+    expect(() => resolveOpenAIDimensions('unknown-model')).toThrow(
+      'Unknown embeddings model'
+    );
+  });
+});
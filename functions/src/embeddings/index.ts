@@ -0,0 +1,147 @@
+import axios from 'axios';
+import * as functions from 'firebase-functions';
+import { createHash } from 'crypto';
+
+export interface EmbeddingProvider {
+  model: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+// 한 번의 요청에 보내는 입력 수입니다.
+const EMBEDDING_BATCH_SIZE = 64;
+
+// firestore.indexes.json 에 벡터 색인이 있는 차원입니다. Firestore 벡터
+// 색인은 2048 차원까지만 지원합니다.
+export const INDEXED_DIMENSIONS = [256, 1536];
+
+// 모델마다 돌려주는 기본 차원입니다. text-embedding-3 모델은 요청에
+// dimensions 를 넘겨 더 짧은 벡터를 받을 수 있습니다.
+const OPENAI_MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+const supportsShortening = (model: string) =>
+  model.startsWith('text-embedding-3');
+
+// 설정한 차원이 없으면 모델의 기본 차원을 쓰되, 색인보다 긴 벡터를 주는
+// 모델은 색인이 있는 가장 큰 차원으로 줄여 받습니다.
+export function resolveOpenAIDimensions(model: string, configured?: number) {
+  const native = OPENAI_MODEL_DIMENSIONS[model];
+  if (native === undefined) {
+    throw new Error(`Unknown embeddings model: ${model}`);
+  }
+  const maxIndexed = Math.max(...INDEXED_DIMENSIONS);
+  const dimensions =
+    configured ??
+    (native > maxIndexed && supportsShortening(model) ? maxIndexed : native);
+
+  if (dimensions !== native && !supportsShortening(model)) {
+    throw new Error(`${model} only returns ${native} dimensions.`);
+  }
+  if (dimensions > native || !INDEXED_DIMENSIONS.includes(dimensions)) {
+    throw new Error(
+      `No vector index for ${dimensions} dimensions from ${model}. Supported: ${INDEXED_DIMENSIONS.join(
+        ', '
+      )}.`
+    );
+  }
+  return dimensions;
+}
+
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    private apiKey: string,
+    public model: string,
+    public dimensions: number
+  ) {}
+
+  async embed(texts: string[]) {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const response = await axios.post(
+        OPENAI_EMBEDDINGS_URL,
+        {
+          model: this.model,
+          input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+          ...(supportsShortening(this.model) && {
+            dimensions: this.dimensions,
+          }),
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${this.apiKey}`,
+          },
+        }
+      );
+      response.data.data
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .forEach((item: { embedding: number[] }) =>
+          vectors.push(item.embedding)
+        );
+    }
+    return vectors;
+  }
+}
+
+// 외부 API 없이 단어를 해시해 고정 차원 벡터를 만드는 결정적 임베딩입니다.
+// 같은 단어를 공유하는 문장끼리 가까워지므로 테스트와 에뮬레이터에서
+// 검색 흐름을 그대로 확인할 수 있습니다. 차원마다 firestore.indexes.json 에
+// 벡터 색인이 있어야 합니다.
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  model = 'local-hash';
+  dimensions = 256;
+
+  async embed(texts: string[]) {
+    return texts.map((text) => {
+      const vector = new Array<number>(this.dimensions).fill(0);
+      text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean)
+        .forEach((token) => {
+          const hash = createHash('md5').update(token).digest();
+          const sign = hash[4] & 1 ? 1 : -1;
+          vector[hash.readUInt32BE(0) % this.dimensions] += sign;
+        });
+      const norm = Math.sqrt(vector.reduce((sum, n) => sum + n * n, 0)) || 1;
+      return vector.map((n) => n / norm);
+    });
+  }
+}
+
+// functions.config().embeddings 로 임베딩 제공자를 고릅니다. 기본값은
+// OpenAI 이고, provider 를 local 로 두면 결정적 로컬 임베딩을 씁니다.
+// dimensions 로 OpenAI 벡터 차원을 정할 수 있으며 색인이 있는 차원이어야
+// 합니다.
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const config = functions.config().embeddings || {};
+  const provider =
+    process.env.EMBEDDINGS_PROVIDER || config.provider || 'openai';
+
+  if (provider === 'local') {
+    return new LocalHashEmbeddingProvider();
+  }
+  if (provider !== 'openai') {
+    throw new Error(`Unknown embeddings provider: ${provider}`);
+  }
+
+  const apiKey =
+    process.env.OPENAI_API_KEY || functions.config().openai?.api_key;
+  const model =
+    process.env.EMBEDDINGS_MODEL || config.model || 'text-embedding-3-small';
+  const configured =
+    process.env.EMBEDDINGS_DIMENSIONS || config.dimensions || undefined;
+  return new OpenAIEmbeddingProvider(
+    apiKey,
+    model,
+    resolveOpenAIDimensions(
+      model,
+      configured === undefined ? undefined : Number(configured)
+    )
+  );
+}
@@ -0,0 +1,12 @@
+import * as mammoth from 'mammoth';
+import { ExtractionProgressCallback } from './progress';
+
+// DOCX 에는 고정된 페이지 개념이 없으므로 문서 전체를 한 구간으로 돌려줍니다.
+export async function extractDocxPages(
+  contents: Buffer,
+  onProgress?: ExtractionProgressCallback
+): Promise<string[]> {
+  const result = await mammoth.extractRawText({ buffer: contents });
+  await onProgress?.(1, 1);
+  return [result.value];
+}
@@ -0,0 +1,107 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { extractDocxPages } from './docx';
+import { extractPdfPages } from './pdf';
+import { extractPptxPages } from './pptx';
+import { extractXlsxPages } from './xlsx';
+import { ExtractionProgressCallback } from './progress';
+
+type StorageFile = ReturnType<
+  ReturnType<admin.storage.Storage['bucket']>['file']
+>;
+
+type Extractor = (
+  contents: Buffer,
+  onProgress?: ExtractionProgressCallback
+) => Promise<string[]>;
+
+export const PDF_CONTENT_TYPE = 'application/pdf';
+
+// 지원하는 형식별 확장자와 추출기입니다. 클라이언트 업로드 허용 목록과 맞춰야 합니다.
+const EXTRACTORS: {
+  [contentType: string]: { extensions: string[]; extract: Extractor };
+} = {
+  [PDF_CONTENT_TYPE]: { extensions: ['.pdf'], extract: extractPdfPages },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+    extensions: ['.docx'],
+    extract: extractDocxPages,
+  },
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+    extensions: ['.xlsx'],
+    extract: extractXlsxPages,
+  },
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': {
+    extensions: ['.pptx'],
+    extract: extractPptxPages,
+  },
+};
+
+export interface ExtractedDocument {
+  contentType: string;
+  // PDF 는 페이지, XLSX 는 시트, PPTX 는 슬라이드 단위입니다.
+  pages: string[];
+}
+
+// 업로드 시 브라우저가 octet-stream 으로 보내는 경우가 있어 확장자로도 판별합니다.
+export function resolveContentType(
+  contentType: string | undefined,
+  fileName: string
+): string | null {
+  if (contentType && EXTRACTORS[contentType]) {
+    return contentType;
+  }
+  const lowerName = fileName.toLowerCase();
+  const match = Object.entries(EXTRACTORS).find(([, { extensions }]) =>
+    extensions.some((extension) => lowerName.endsWith(extension))
+  );
+  return match ? match[0] : null;
+}
+
+export async function extractDocument(
+  file: StorageFile,
+  fileName: string,
+  onProgress?: ExtractionProgressCallback
+): Promise<ExtractedDocument> {
+  const [metadata] = await file.getMetadata();
+  const contentType = resolveContentType(metadata.contentType, fileName);
+  if (!contentType) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `Unsupported file type: ${metadata.contentType || fileName}`
+    );
+  }
+
+  const [contents] = await file.download();
+  // 진행률 기록(Firestore 쓰기) 실패는 파일 문제가 아니므로 그대로 던져
+  // 작업 큐가 다시 시도하게 합니다.
+  let progressError: unknown = null;
+  const reportProgress: ExtractionProgressCallback | undefined =
+    onProgress &&
+    (async (pagesExtracted, totalPages) => {
+      try {
+        await onProgress(pagesExtracted, totalPages);
+      } catch (error) {
+        progressError = error;
+        throw error;
+      }
+    });
+
+  // 손상되었거나 형식과 내용이 다른 파일은 다시 시도해도 읽을 수 없습니다.
+  try {
+    const pages = await EXTRACTORS[contentType].extract(
+      contents,
+      reportProgress
+    );
+    return { contentType, pages };
+  } catch (error) {
+    if (progressError !== null && error === progressError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `Could not read ${fileName}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { extractPdfPages } from './pdf';
+
+async function buildPdf(pageCount: number): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  for (let index = 1; index <= pageCount; index++) {
+    pdfDoc.addPage().drawText(`Page ${index}`, { x: 50, y: 700, font });
+  }
+  return Buffer.from(await pdfDoc.save());
+}
+
+describe('extractPdfPages', () => {
+  it('reports progress as each batch of pages is extracted', async () => {
+    const progress: [number, number][] = [];
+    const pages = await extractPdfPages(
+      await buildPdf(45),
+      (pagesExtracted, totalPages) => {
+        progress.push([pagesExtracted, totalPages]);
+      }
+    );
+
+    expect(pages).toHaveLength(45);
+    expect(pages[0]).toBe('Page 1');
+    expect(pages[44]).toBe('Page 45');
+    expect(progress).toEqual([
+      [20, 45],
+      [40, 45],
+      [45, 45],
+    ]);
+  });
+});
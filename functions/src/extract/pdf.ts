@@ -0,0 +1,100 @@
+import { PDFExtract, PDFExtractText } from 'pdf.js-extract';
+import { PDFDocument } from 'pdf-lib';
+import { ExtractionProgressCallback } from './progress';
+
+// 같은 줄로 볼 세로 위치 차이(글자 높이 대비)입니다.
+const LINE_TOLERANCE = 0.5;
+// 이보다 큰 가로 간격이면 단어 사이로 보고 공백을 넣습니다.
+const WORD_GAP = 0.15;
+// 줄 간격이 글자 높이의 이 배수를 넘으면 문단이 바뀐 것으로 봅니다.
+const PARAGRAPH_GAP = 1.8;
+// 진행률을 알리기 위해 이 페이지 수만큼씩 나눠 추출합니다.
+const PAGE_BATCH_SIZE = 20;
+
+// pdf.js 의 텍스트 조각은 그려지는 순서대로 나오므로, 위치를 기준으로
+// 위에서 아래, 왼쪽에서 오른쪽 읽기 순서로 줄과 문단을 다시 만듭니다.
+export function reconstructPageText(items: PDFExtractText[]): string {
+  const lines: { y: number; height: number; items: PDFExtractText[] }[] = [];
+  items
+    .filter((item) => item.str)
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .forEach((item) => {
+      const height = item.height || 10;
+      const line = lines.find(
+        (candidate) =>
+          Math.abs(candidate.y - item.y) <=
+          Math.max(candidate.height, height) * LINE_TOLERANCE
+      );
+      if (line) {
+        line.items.push(item);
+      } else {
+        lines.push({ y: item.y, height, items: [item] });
+      }
+    });
+
+  let text = '';
+  let previous: { y: number; height: number } | null = null;
+  lines
+    .sort((a, b) => a.y - b.y)
+    .forEach((line) => {
+      const lineText = line.items
+        .sort((a, b) => a.x - b.x)
+        .reduce((result, item, index, sorted) => {
+          if (index === 0) return item.str;
+          const before = sorted[index - 1];
+          const gap = item.x - (before.x + before.width);
+          const needsSpace =
+            gap > (item.height || line.height) * WORD_GAP &&
+            !result.endsWith(' ') &&
+            !item.str.startsWith(' ');
+          return result + (needsSpace ? ' ' : '') + item.str;
+        }, '')
+        .trim();
+      if (!lineText) return;
+      if (previous) {
+        text +=
+          line.y - previous.y > previous.height * PARAGRAPH_GAP ? '\n\n' : '\n';
+      }
+      text += lineText;
+      previous = line;
+    });
+  return text;
+}
+
+// pdf.js-extract 는 전체 페이지 수를 알려주지 않으므로 pdf-lib 로 셉니다.
+// 셀 수 없는 파일은 0 을 돌려주고, 추출한 만큼을 전체로 알립니다.
+async function countPdfPages(contents: Buffer): Promise<number> {
+  try {
+    const pdfDoc = await PDFDocument.load(contents, {
+      ignoreEncryption: true,
+      updateMetadata: false,
+    });
+    return pdfDoc.getPageCount();
+  } catch (error) {
+    return 0;
+  }
+}
+
+export async function extractPdfPages(
+  contents: Buffer,
+  onProgress?: ExtractionProgressCallback
+): Promise<string[]> {
+  const pdfExtract = new PDFExtract();
+  const totalPages = await countPdfPages(contents);
+  const pages: string[] = [];
+  for (;;) {
+    const data = await pdfExtract.extractBuffer(contents, {
+      firstPage: pages.length + 1,
+      lastPage: pages.length + PAGE_BATCH_SIZE,
+    });
+    data.pages.forEach((page) => pages.push(reconstructPageText(page.content)));
+    const finished =
+      data.pages.length < PAGE_BATCH_SIZE ||
+      (totalPages > 0 && pages.length >= totalPages);
+    await onProgress?.(
+      pages.length,
+      finished ? pages.length : Math.max(totalPages, pages.length)
+    );
+    if (finished) return pages;
+  }
+}
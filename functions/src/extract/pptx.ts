@@ -0,0 +1,44 @@
+import * as JSZip from 'jszip';
+import { ExtractionProgressCallback } from './progress';
+
+const SLIDE_PATH = /^ppt\/slides\/slide(\d+)\.xml$/;
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// 슬라이드 XML 의 <a:t> 텍스트 런을 문단(<a:p>) 단위로 모읍니다.
+function extractSlideText(xml: string): string {
+  return xml
+    .split('</a:p>')
+    .map((paragraph) =>
+      Array.from(paragraph.matchAll(/<a:t>([^<]*)<\/a:t>/g))
+        .map((match) => decodeXmlEntities(match[1]))
+        .join('')
+    )
+    .filter((paragraph) => paragraph.trim())
+    .join('\n');
+}
+
+export async function extractPptxPages(
+  contents: Buffer,
+  onProgress?: ExtractionProgressCallback
+): Promise<string[]> {
+  const zip = await JSZip.loadAsync(contents);
+  const slides = Object.keys(zip.files)
+    .map((path) => ({ path, match: path.match(SLIDE_PATH) }))
+    .filter(({ match }) => match)
+    .sort((a, b) => Number(a.match![1]) - Number(b.match![1]));
+
+  const pages: string[] = [];
+  for (const { path } of slides) {
+    pages.push(extractSlideText(await zip.file(path)!.async('string')));
+    await onProgress?.(pages.length, slides.length);
+  }
+  return pages;
+}
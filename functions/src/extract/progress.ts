@@ -0,0 +1,5 @@
+// 추출기가 페이지(시트, 슬라이드)를 하나씩 끝낼 때마다 호출합니다.
+export type ExtractionProgressCallback = (
+  pagesExtracted: number,
+  totalPages: number
+) => Promise<void> | void;
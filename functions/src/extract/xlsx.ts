@@ -0,0 +1,19 @@
+import * as XLSX from 'xlsx';
+import { ExtractionProgressCallback } from './progress';
+
+// 시트 하나를 한 페이지로 취급하고, 셀 값은 CSV 로 직렬화합니다.
+export async function extractXlsxPages(
+  contents: Buffer,
+  onProgress?: ExtractionProgressCallback
+): Promise<string[]> {
+  const workbook = XLSX.read(contents, { type: 'buffer' });
+  const pages: string[] = [];
+  for (const sheetName of workbook.SheetNames) {
+    const csv = XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName], {
+      blankrows: false,
+    });
+    pages.push(`Sheet: ${sheetName}\n${csv}`);
+    await onProgress?.(pages.length, workbook.SheetNames.length);
+  }
+  return pages;
+}
@@ -0,0 +1,236 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { chunkPages } from '../chunking';
+import { LLMProvider, ResponseSchema, createLLMProvider } from '../llm';
+
+const CHUNK_MAX_TOKENS = 8000;
+const CHUNK_OVERLAP_TOKENS = 200;
+
+const FINANCIAL_FIELDS = [
+  'revenue',
+  'cogs',
+  'opex',
+  'ebitda',
+  'cash',
+  'burn',
+] as const;
+
+type FinancialField = (typeof FINANCIAL_FIELDS)[number];
+
+export type FinancialRecord = {
+  period: string;
+  // 기간이 끝나는 날짜(YYYY-MM-DD)입니다. 정렬과 최신 기간 판단에 씁니다.
+  periodEnd: string | null;
+  currency: string | null;
+} & Record<FinancialField, number | null>;
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  units: 1,
+  thousands: 1000,
+  millions: 1000000,
+  billions: 1000000000,
+};
+
+const amount = (description: string) => ({
+  type: ['number', 'null'],
+  description: `${description}. Null if not stated or derivable.`,
+});
+
+const financialsSchema: ResponseSchema = {
+  name: 'financial_statements',
+  schema: {
+    type: 'object',
+    properties: {
+      currency: {
+        type: ['string', 'null'],
+        description: 'ISO currency code, e.g. USD, KRW',
+      },
+      unit: {
+        type: 'string',
+        enum: Object.keys(UNIT_MULTIPLIERS),
+        description: 'Unit the figures are stated in',
+      },
+      periods: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            period: {
+              type: 'string',
+              description: 'Period label as written, e.g. FY2023, Q2 2024',
+            },
+            periodEnd: {
+              type: ['string', 'null'],
+              description: 'Last day of the period as YYYY-MM-DD',
+            },
+            revenue: amount('Total revenue'),
+            cogs: amount('Cost of goods sold or cost of revenue'),
+            opex: amount('Total operating expenses excluding COGS'),
+            ebitda: amount('EBITDA; negative for a loss'),
+            cash: amount('Cash and cash equivalents at period end'),
+            burn: amount(
+              'Average monthly net cash burn as a positive number; 0 if cash flow positive'
+            ),
+          },
+          required: ['period', 'periodEnd', ...FINANCIAL_FIELDS],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['currency', 'unit', 'periods'],
+    additionalProperties: false,
+  },
+};
+
+function extractionPrompt(fileName: string, text: string) {
+  return {
+    temperature: 0,
+    messages: [
+      {
+        role: 'system' as const,
+        content:
+          'You are a financial analyst. Extract figures from financial statements into a normalized table, one row per reporting period. Copy numbers exactly as stated in the document; do not estimate figures that are not there.',
+      },
+      {
+        role: 'user' as const,
+        content: `Extract revenue, COGS, operating expenses, EBITDA, cash and monthly burn for every period in the financial statements titled "${fileName}":\n\n${text}`,
+      },
+    ],
+    responseSchema: financialsSchema,
+  };
+}
+
+// 조각마다 뽑은 값을 기간별로 합칩니다. 같은 기간이 여러 조각에 나오면
+// 먼저 나온 값이 있는 항목은 그대로 두고 빈 항목만 채웁니다.
+export async function extractFinancials(
+  fileName: string,
+  pages: string[],
+  provider: LLMProvider = createLLMProvider()
+): Promise<FinancialRecord[]> {
+  const chunks = chunkPages(pages, {
+    maxTokens: CHUNK_MAX_TOKENS,
+    overlapTokens: CHUNK_OVERLAP_TOKENS,
+  });
+  const records = new Map<string, FinancialRecord>();
+
+  for (const chunk of chunks) {
+    const extracted = JSON.parse(
+      await provider.complete(extractionPrompt(fileName, chunk.text))
+    );
+    const multiplier = UNIT_MULTIPLIERS[extracted.unit] || 1;
+    (extracted.periods || []).forEach(
+      (row: Partial<FinancialRecord> & { period: string }) => {
+        const period = row.period.trim();
+        if (!period) return;
+        const record: FinancialRecord = records.get(period) || {
+          period,
+          periodEnd: row.periodEnd || null,
+          currency: extracted.currency || null,
+          revenue: null,
+          cogs: null,
+          opex: null,
+          ebitda: null,
+          cash: null,
+          burn: null,
+        };
+        FINANCIAL_FIELDS.forEach((field) => {
+          const value = row[field];
+          if (record[field] === null && typeof value === 'number') {
+            record[field] = value * multiplier;
+          }
+        });
+        records.set(period, record);
+      }
+    );
+  }
+
+  return Array.from(records.values()).sort((a, b) =>
+    (a.periodEnd || a.period).localeCompare(b.periodEnd || b.period)
+  );
+}
+
+const financialsRef = (userId: string, fileId: string) =>
+  admin
+    .firestore()
+    .collection('users')
+    .doc(userId)
+    .collection('files')
+    .doc(fileId)
+    .collection('financials');
+
+export type StoredFinancialRecord = FinancialRecord & {
+  source?: 'extracted' | 'edited';
+};
+
+// 사용자가 고친 행까지 지금 표에 있는 그대로 읽습니다.
+export async function loadFinancials(
+  userId: string,
+  fileId: string
+): Promise<StoredFinancialRecord[]> {
+  const snapshot = await financialsRef(userId, fileId).get();
+  return snapshot.docs.map((recordDoc) => {
+    const { updatedAt, ...record } = recordDoc.data();
+    return record as StoredFinancialRecord;
+  });
+}
+
+// 버전을 되돌릴 때 표 전체를 그 버전의 행으로 바꿉니다. 고친 행도 바뀝니다.
+export async function replaceFinancials(
+  userId: string,
+  fileId: string,
+  records: StoredFinancialRecord[]
+) {
+  const snapshot = await financialsRef(userId, fileId).get();
+  const writer = admin.firestore().bulkWriter();
+  snapshot.docs.forEach((recordDoc) => writer.delete(recordDoc.ref));
+  records.forEach((record) =>
+    writer.create(financialsRef(userId, fileId).doc(), {
+      ...record,
+      source: record.source || 'extracted',
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })
+  );
+  await writer.close();
+}
+
+// 다시 추출한 값으로 바꾸되, 사용자가 고친 기간(source: edited)은 그대로 둡니다.
+export async function saveExtractedFinancials(
+  userId: string,
+  fileId: string,
+  records: FinancialRecord[]
+) {
+  const snapshot = await financialsRef(userId, fileId).get();
+  const editedPeriods = new Set(
+    snapshot.docs
+      .filter((recordDoc) => recordDoc.data().source === 'edited')
+      .map((recordDoc) => recordDoc.data().period)
+  );
+
+  const writer = admin.firestore().bulkWriter();
+  snapshot.docs
+    .filter((recordDoc) => recordDoc.data().source !== 'edited')
+    .forEach((recordDoc) => writer.delete(recordDoc.ref));
+  records
+    .filter((record) => !editedPeriods.has(record.period))
+    .forEach((record) =>
+      writer.create(financialsRef(userId, fileId).doc(), {
+        ...record,
+        source: 'extracted',
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      })
+    );
+  await writer.close();
+}
+
+// 파일 문서가 지워지면 추출한 재무 기록도 지웁니다.
+export const cleanupFinancials = functions.firestore
+  .document('users/{userId}/files/{fileId}')
+  .onDelete(async (snapshot, context) => {
+    const recordsSnapshot = await financialsRef(
+      context.params.userId,
+      context.params.fileId
+    ).get();
+    const writer = admin.firestore().bulkWriter();
+    recordsSnapshot.docs.forEach((recordDoc) => writer.delete(recordDoc.ref));
+    await writer.close();
+  });
@@ -0,0 +1,26 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont } from 'pdf-lib';
+
+// lib/fonts 와 src/fonts 모두에서 functions/assets/fonts 를 가리킵니다.
+const FONT_PATH = path.join(
+  __dirname,
+  '..',
+  '..',
+  'assets',
+  'fonts',
+  'NotoSansKR-Regular.ttf'
+);
+
+let fontBytes: Buffer | null = null;
+
+// 표준 PDF 폰트는 WinAnsi 문자만 인코딩할 수 있어 한글 이름이나 본문을 쓸
+// 수 없습니다. 함께 배포하는 Noto Sans KR 에서 쓰는 글자만 골라 넣습니다.
+export async function embedUnicodeFont(pdfDoc: PDFDocument): Promise<PDFFont> {
+  if (!fontBytes) {
+    fontBytes = await fs.promises.readFile(FONT_PATH);
+  }
+  pdfDoc.registerFontkit(fontkit);
+  return pdfDoc.embedFont(fontBytes, { subset: true });
+}
@@ -0,0 +1,266 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { chunkPages } from '../chunking';
+import { LLMProvider, ResponseSchema, createLLMProvider } from '../llm';
+
+const CHUNK_MAX_TOKENS = 6000;
+const CHUNK_OVERLAP_TOKENS = 200;
+const MAX_QUOTE = 400;
+
+// 계약서로 분류되면 분석 단계에서 바로 법률 검토를 돌립니다.
+export const REVIEWED_DOCUMENT_TYPES = ['legalContract', 'customerContract'];
+
+const RED_FLAG_TYPES = [
+  'changeOfControl',
+  'exclusivity',
+  'mostFavoredNation',
+  'ipAssignmentGap',
+  'unusualTermination',
+  'missingSignature',
+] as const;
+
+type RedFlagType = (typeof RED_FLAG_TYPES)[number];
+type Severity = 'low' | 'medium' | 'high';
+
+export interface RedFlag {
+  type: RedFlagType;
+  severity: Severity;
+  title: string;
+  explanation: string;
+  quote: string;
+  // 모델이 조각 밖의 페이지를 인용하면 확인할 수 없으므로 null 입니다.
+  page: number | null;
+}
+
+export interface LegalReview {
+  riskLevel: 'none' | Severity;
+  flags: RedFlag[];
+  reviewedAt: string;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 1, medium: 2, high: 3 };
+
+const reviewSchema: ResponseSchema = {
+  name: 'legal_review',
+  schema: {
+    type: 'object',
+    properties: {
+      flags: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              // 서명 누락은 문서 전체를 본 뒤 서명란 목록으로 판단합니다.
+              enum: RED_FLAG_TYPES.filter(
+                (type) => type !== 'missingSignature'
+              ),
+            },
+            severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+            title: { type: 'string', description: 'Short headline' },
+            explanation: {
+              type: 'string',
+              description: 'Why an investor or acquirer would care',
+            },
+            quote: {
+              type: 'string',
+              description: 'The clause text, quoted verbatim',
+            },
+            page: {
+              type: 'integer',
+              description: 'Page number from the [Page N] marker',
+            },
+          },
+          required: [
+            'type',
+            'severity',
+            'title',
+            'explanation',
+            'quote',
+            'page',
+          ],
+          additionalProperties: false,
+        },
+      },
+      signatureBlocks: {
+        type: 'array',
+        description: 'Signature blocks found in this part of the document',
+        items: {
+          type: 'object',
+          properties: {
+            party: { type: 'string' },
+            signed: {
+              type: 'boolean',
+              description:
+                'True only if a signature, signer name or e-signature stamp is present',
+            },
+            page: { type: 'integer' },
+          },
+          required: ['party', 'signed', 'page'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['flags', 'signatureBlocks'],
+    additionalProperties: false,
+  },
+};
+
+function reviewPrompt(fileName: string, text: string) {
+  return {
+    temperature: 0,
+    messages: [
+      {
+        role: 'system' as const,
+        content:
+          'You are a corporate lawyer preparing a company for investor due diligence. Flag only clauses that a diligence reviewer would raise: change-of-control triggers or consent requirements, exclusivity or non-compete restrictions on the company, most-favoured-nation pricing or terms, gaps in IP assignment (IP owned or retained by contractors, founders or counterparties, or no present assignment language), and unusual termination rights such as termination for convenience by the counterparty or termination on financing events. Do not flag standard boilerplate. Cite the page from the [Page N] marker that precedes the clause.',
+      },
+      {
+        role: 'user' as const,
+        content: `Review this part of the contract titled "${fileName}" and also list every signature block you see:\n\n${text}`,
+      },
+    ],
+    responseSchema: reviewSchema,
+  };
+}
+
+// 페이지 번호 표시를 붙여 조각을 나누므로, 모델이 인용한 페이지가 조각의
+// 페이지 범위 밖이면 잘못된 번호를 저장하지 않고 null 로 둡니다.
+export async function reviewContract(
+  fileName: string,
+  pages: string[],
+  provider: LLMProvider = createLLMProvider()
+): Promise<LegalReview> {
+  const chunks = chunkPages(
+    pages.map((text, index) => `[Page ${index + 1}]\n\n${text}`),
+    { maxTokens: CHUNK_MAX_TOKENS, overlapTokens: CHUNK_OVERLAP_TOKENS }
+  );
+
+  const flags = new Map<string, RedFlag>();
+  const signatureBlocks: {
+    party: string;
+    signed: boolean;
+    page: number | null;
+  }[] = [];
+  for (const chunk of chunks) {
+    const result = JSON.parse(
+      await provider.complete(reviewPrompt(fileName, chunk.text))
+    );
+    const verifyPage = (page: number | null) =>
+      page !== null && page >= chunk.pageStart && page <= chunk.pageEnd
+        ? page
+        : null;
+
+    (result.flags || []).forEach((flag: RedFlag) => {
+      const page = verifyPage(flag.page);
+      const quote = flag.quote.trim().slice(0, MAX_QUOTE);
+      // 겹치는 부분에서 같은 조항이 두 번 나오면 한 번만 남깁니다.
+      const key = `${flag.type}:${page}:${quote.slice(0, 80).toLowerCase()}`;
+      if (!flags.has(key)) {
+        flags.set(key, { ...flag, page, quote });
+      }
+    });
+    (result.signatureBlocks || []).forEach(
+      (block: { party: string; signed: boolean; page: number }) =>
+        signatureBlocks.push({ ...block, page: verifyPage(block.page) })
+    );
+  }
+
+  const unsigned = signatureBlocks.filter((block) => !block.signed);
+  const signedParties = new Set(
+    signatureBlocks
+      .filter((block) => block.signed)
+      .map((block) => block.party.trim().toLowerCase())
+  );
+  if (signatureBlocks.length === 0) {
+    flags.set('missingSignature', {
+      type: 'missingSignature',
+      severity: 'medium',
+      title: 'No signature blocks found',
+      explanation:
+        'The document has no visible signature page, so it may be an unsigned draft or an incomplete copy.',
+      quote: '',
+      page: pages.length,
+    });
+  } else {
+    unsigned
+      .filter((block) => !signedParties.has(block.party.trim().toLowerCase()))
+      .forEach((block) =>
+        flags.set(`missingSignature:${block.party}`, {
+          type: 'missingSignature',
+          severity: 'high',
+          title: `Not signed by ${block.party}`,
+          explanation:
+            'An unsigned party may argue the contract is not binding on it.',
+          quote: '',
+          page: block.page,
+        })
+      );
+  }
+
+  const sorted = Array.from(flags.values()).sort(
+    (a, b) =>
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+      (a.page ?? Infinity) - (b.page ?? Infinity)
+  );
+  return {
+    riskLevel: sorted.length > 0 ? sorted[0].severity : 'none',
+    flags: sorted,
+    reviewedAt: new Date().toISOString(),
+  };
+}
+
+// 기능이 생기기 전에 분석한 계약서도 검토할 수 있도록, 검색 색인에 저장해 둔
+// 페이지 본문으로 검토를 다시 돌립니다.
+export const runLegalReview = functions
+  .runWith({ timeoutSeconds: 300, memory: '512MB' })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        'unauthenticated',
+        'The function must be called while authenticated.'
+      );
+    }
+    if (typeof data?.fileId !== 'string' || !data.fileId) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'A file ID is required.'
+      );
+    }
+
+    const fileRef = admin
+      .firestore()
+      .collection('users')
+      .doc(context.auth.uid)
+      .collection('files')
+      .doc(data.fileId);
+    const [fileDoc, pagesSnapshot] = await Promise.all([
+      fileRef.get(),
+      fileRef.collection('pages').orderBy('page').get(),
+    ]);
+    if (!fileDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'File not found.');
+    }
+    if (pagesSnapshot.empty) {
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        'The document has not been analysed yet.'
+      );
+    }
+
+    try {
+      const legalReview = await reviewContract(
+        fileDoc.data()?.name || data.fileId,
+        pagesSnapshot.docs.map((pageDoc) => pageDoc.data().text || '')
+      );
+      await fileRef.update({ legalReview });
+      return { legalReview };
+    } catch (error) {
+      console.error('Error reviewing contract:', error);
+      throw new functions.https.HttpsError(
+        'internal',
+        'Failed to review the document.'
+      );
+    }
+  });
@@ -0,0 +1,117 @@
+import { analyzeTextWithOpenAI } from '../openai';
+import { extractFinancials } from '../financials';
+import { REVIEWED_DOCUMENT_TYPES, reviewContract } from '../legalReview';
+import { classificationSchema } from '../profiles';
+import { MockProvider, mockCompletion } from '.';
+
+describe('mockCompletion', () => {
+  it('falls back to values built from the schema', () => {
+    expect(
+      JSON.parse(
+        mockCompletion({ messages: [], responseSchema: classificationSchema })
+      )
+    ).toEqual({ documentType: 'general' });
+    expect(mockCompletion({ messages: [] })).toContain('[1]');
+  });
+
+  it('returns the fixture for the schema name', () => {
+    const fixtures = {
+      responses: { document_classification: { documentType: 'capTable' } },
+      answer: 'Fixture answer [2].',
+    };
+    expect(
+      JSON.parse(
+        mockCompletion(
+          { messages: [], responseSchema: classificationSchema },
+          fixtures
+        )
+      )
+    ).toEqual({ documentType: 'capTable' });
+    expect(mockCompletion({ messages: [] }, fixtures)).toBe(
+      'Fixture answer [2].'
+    );
+  });
+});
+
+describe('analysis pipeline with the mock provider', () => {
+  it('classifies financial statements and extracts their figures', async () => {
+    const provider = new MockProvider({
+      responses: {
+        document_classification: { documentType: 'financialStatements' },
+        financial_statements: {
+          currency: 'USD',
+          unit: 'thousands',
+          periods: [
+            {
+              period: 'FY2023',
+              periodEnd: '2023-12-31',
+              revenue: 1200,
+              cogs: 400,
+              opex: null,
+              ebitda: null,
+              cash: 300,
+              burn: 20,
+            },
+          ],
+        },
+      },
+    });
+    const pages = ['Income statement FY2023. Revenue 1,200. COGS 400.'];
+
+    const analysis = await analyzeTextWithOpenAI(
+      pages,
+      'financials.pdf',
+      undefined,
+      provider
+    );
+    expect(analysis.documentType).toBe('financialStatements');
+    expect(analysis.details).toHaveProperty('statementsIncluded');
+
+    const [record] = await extractFinancials('financials.pdf', pages, provider);
+    expect(record).toMatchObject({
+      period: 'FY2023',
+      currency: 'USD',
+      revenue: 1200000,
+      cogs: 400000,
+      opex: null,
+      ebitda: null,
+    });
+  });
+
+  it('classifies contracts and reviews them for red flags', async () => {
+    const provider = new MockProvider({
+      responses: {
+        document_classification: { documentType: 'legalContract' },
+        legal_review: {
+          flags: [
+            {
+              type: 'changeOfControl',
+              severity: 'medium',
+              title: 'Consent on change of control',
+              explanation: 'The counterparty can block an acquisition.',
+              quote: 'Any change of control requires prior written consent.',
+              page: 9,
+            },
+          ],
+          signatureBlocks: [{ party: 'Acme Corp', signed: false, page: 2 }],
+        },
+      },
+    });
+    const pages = ['Supply agreement.', 'Signed: ____ Acme Corp'];
+
+    const analysis = await analyzeTextWithOpenAI(
+      pages,
+      'supply.pdf',
+      undefined,
+      provider
+    );
+    expect(REVIEWED_DOCUMENT_TYPES).toContain(analysis.documentType);
+
+    const review = await reviewContract('supply.pdf', pages, provider);
+    expect(review.riskLevel).toBe('high');
+    expect(review.flags.map((flag) => [flag.type, flag.page])).toEqual([
+      ['missingSignature', 2],
+      ['changeOfControl', null],
+    ]);
+  });
+});
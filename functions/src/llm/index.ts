@@ -0,0 +1,314 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as functions from 'firebase-functions';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// 응답을 JSON 으로 받을 때 따라야 하는 스키마입니다.
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, any>;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  responseSchema?: ResponseSchema;
+  temperature?: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  // 모델이 만든 본문을 돌려줍니다. responseSchema 가 있으면 JSON 문자열입니다.
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const ANTHROPIC_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 4096;
+const AZURE_API_VERSION = '2024-08-01-preview';
+
+// OpenAI 의 chat completions 요청 본문입니다. Azure 와 호환 서버도 같은
+// 형식을 받습니다.
+function chatCompletionBody(request: CompletionRequest) {
+  return {
+    messages: request.messages,
+    ...(request.temperature !== undefined && {
+      temperature: request.temperature,
+    }),
+    ...(request.responseSchema && {
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: request.responseSchema.name,
+          strict: true,
+          schema: request.responseSchema.schema,
+        },
+      },
+    }),
+  };
+}
+
+// OpenAI 와 같은 API 를 제공하는 서버(vLLM, Ollama, LM Studio, 모의 서버)도
+// baseUrl 만 바꿔 이 클래스로 호출합니다.
+class OpenAIProvider implements LLMProvider {
+  constructor(
+    public name: string,
+    public model: string,
+    private baseUrl: string,
+    private apiKey?: string
+  ) {}
+
+  async complete(request: CompletionRequest) {
+    const response = await axios.post(
+      `${this.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      { model: this.model, ...chatCompletionBody(request) },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+      }
+    );
+    return response.data.choices[0].message.content as string;
+  }
+}
+
+// Azure OpenAI 는 모델 대신 배포 이름을 URL 에 넣고 api-key 헤더로 인증합니다.
+class AzureOpenAIProvider implements LLMProvider {
+  name = 'azure';
+
+  constructor(
+    public model: string,
+    private endpoint: string,
+    private apiKey: string,
+    private apiVersion: string
+  ) {}
+
+  async complete(request: CompletionRequest) {
+    const response = await axios.post(
+      `${this.endpoint.replace(/\/$/, '')}/openai/deployments/${
+        this.model
+      }/chat/completions`,
+      chatCompletionBody(request),
+      {
+        params: { 'api-version': this.apiVersion },
+        headers: { 'Content-Type': 'application/json', 'api-key': this.apiKey },
+      }
+    );
+    return response.data.choices[0].message.content as string;
+  }
+}
+
+// Anthropic 은 JSON 스키마 응답 형식이 없으므로 스키마를 도구 입력으로 주고
+// 그 도구를 반드시 호출하게 해 구조화된 결과를 받습니다.
+class AnthropicProvider implements LLMProvider {
+  name = 'anthropic';
+
+  constructor(public model: string, private apiKey: string) {}
+
+  async complete(request: CompletionRequest) {
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+    const schema = request.responseSchema;
+    const response = await axios.post(
+      ANTHROPIC_MESSAGES_URL,
+      {
+        model: this.model,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        ...(system && { system }),
+        messages: request.messages.filter(
+          (message) => message.role !== 'system'
+        ),
+        ...(request.temperature !== undefined && {
+          temperature: request.temperature,
+        }),
+        ...(schema && {
+          tools: [
+            {
+              name: schema.name,
+              description: 'Record the result in the required format.',
+              input_schema: schema.schema,
+            },
+          ],
+          tool_choice: { type: 'tool', name: schema.name },
+        }),
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+      }
+    );
+
+    const blocks: { type: string; text?: string; input?: unknown }[] =
+      response.data.content;
+    if (schema) {
+      const toolUse = blocks.find((block) => block.type === 'tool_use');
+      if (!toolUse) {
+        throw new Error(
+          'Anthropic response did not include structured output.'
+        );
+      }
+      return JSON.stringify(toolUse.input);
+    }
+    return blocks
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text)
+      .join('');
+  }
+}
+
+// 스키마의 모든 필수 항목을 채운 결정적 값을 만듭니다. 배열은 두 항목을
+// 넣어 병합·정렬 코드도 실제와 비슷하게 지나가도록 합니다.
+export function mockValueFromSchema(
+  schema: Record<string, any>,
+  label = 'value'
+): unknown {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((candidate: string) => candidate !== 'null')
+    : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [
+          key,
+          mockValueFromSchema(property as Record<string, any>, key),
+        ])
+      );
+    case 'array':
+      return [1, 2].map((n) =>
+        mockValueFromSchema(schema.items || {}, `${label} ${n}`)
+      );
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return `Mock ${label}`;
+  }
+}
+
+// 모의 응답을 바꿀 때 쓰는 고정 응답입니다. responses 는 스키마 이름
+// (document_classification, financial_statements, legal_review 등)별
+// 응답이고, answer 는 스키마가 없는 요청의 답입니다.
+export interface MockFixtures {
+  responses?: Record<string, unknown>;
+  answer?: string;
+}
+
+// LLM_MOCK_FIXTURES(또는 llm.mock_fixtures)가 가리키는 JSON 파일을 읽습니다.
+export function loadMockFixtures(path?: string): MockFixtures {
+  return path ? JSON.parse(fs.readFileSync(path, 'utf8')) : {};
+}
+
+// 모의 제공자와 모의 서버가 같이 쓰는 응답입니다. 고정 응답이 없는
+// 스키마는 스키마에서 만든 값을, 질문 답변처럼 스키마가 없는 요청에는
+// 첫 번째 출처를 인용하는 답을 돌려줍니다.
+export function mockCompletion(
+  request: CompletionRequest,
+  fixtures: MockFixtures = {}
+): string {
+  const schema = request.responseSchema;
+  if (schema) {
+    const fixture = fixtures.responses?.[schema.name];
+    return JSON.stringify(
+      fixture !== undefined
+        ? fixture
+        : mockValueFromSchema(schema.schema, schema.name)
+    );
+  }
+  return (
+    fixtures.answer ??
+    'This is a mock answer generated without a language model [1].'
+  );
+}
+
+export class MockProvider implements LLMProvider {
+  name = 'mock';
+  model = 'mock';
+
+  constructor(private fixtures: MockFixtures = {}) {}
+
+  async complete(request: CompletionRequest) {
+    return mockCompletion(request, this.fixtures);
+  }
+}
+
+// functions.config().llm 으로 언어 모델 제공자를 고릅니다. 기본값은 OpenAI
+// 이고 openai, azure, anthropic, openai-compatible, mock 을 쓸 수 있습니다.
+// 로컬에서는 provider 를 openai-compatible, base_url 을 모의 서버
+// (npm run mock:llm, http://localhost:8787/v1)로 두면 외부 API 없이
+// 분석 흐름 전체를 확인할 수 있습니다. 모의 응답은 LLM_MOCK_FIXTURES 로
+// 바꿀 수 있습니다.
+export function createLLMProvider(): LLMProvider {
+  const config = functions.config().llm || {};
+  const provider = process.env.LLM_PROVIDER || config.provider || 'openai';
+  const model = process.env.LLM_MODEL || config.model;
+  const apiKey = process.env.LLM_API_KEY || config.api_key;
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIProvider(
+        'openai',
+        model || 'gpt-4o-2024-08-06',
+        process.env.LLM_BASE_URL || config.base_url || OPENAI_BASE_URL,
+        apiKey ||
+          process.env.OPENAI_API_KEY ||
+          functions.config().openai?.api_key
+      );
+    case 'openai-compatible': {
+      const baseUrl = process.env.LLM_BASE_URL || config.base_url;
+      if (!baseUrl) {
+        throw new Error('llm.base_url is required for openai-compatible.');
+      }
+      return new OpenAIProvider(
+        'openai-compatible',
+        model || 'local',
+        baseUrl,
+        apiKey
+      );
+    }
+    case 'azure': {
+      const endpoint = process.env.LLM_AZURE_ENDPOINT || config.azure_endpoint;
+      if (!endpoint || !model) {
+        throw new Error(
+          'llm.azure_endpoint and llm.model (deployment) are required for azure.'
+        );
+      }
+      return new AzureOpenAIProvider(
+        model,
+        endpoint,
+        apiKey,
+        process.env.LLM_AZURE_API_VERSION ||
+          config.azure_api_version ||
+          AZURE_API_VERSION
+      );
+    }
+    case 'anthropic':
+      return new AnthropicProvider(
+        model || 'claude-3-5-sonnet-20241022',
+        apiKey || process.env.ANTHROPIC_API_KEY
+      );
+    case 'mock':
+      return new MockProvider(
+        loadMockFixtures(process.env.LLM_MOCK_FIXTURES || config.mock_fixtures)
+      );
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+}
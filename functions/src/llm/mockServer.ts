@@ -0,0 +1,81 @@
+import * as http from 'http';
+import { ChatMessage, loadMockFixtures, mockCompletion } from './index';
+
+// OpenAI chat completions 와 같은 형식으로 고정 응답을 돌려주는 로컬 서버입니다.
+// llm.provider 를 openai-compatible 로, llm.base_url 을
+// http://localhost:8787/v1 로 두면 에뮬레이터에서 외부 API 없이 동작합니다.
+// LLM_MOCK_FIXTURES 에 JSON 파일 경로를 주면 그 응답을 돌려줍니다.
+const PORT = Number(process.env.MOCK_LLM_PORT || 8787);
+const fixtures = loadMockFixtures(process.env.LLM_MOCK_FIXTURES);
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+function sendJson(
+  response: http.ServerResponse,
+  status: number,
+  payload: unknown
+) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(payload));
+}
+
+const server = http.createServer(async (request, response) => {
+  if (
+    request.method !== 'POST' ||
+    !request.url?.split('?')[0].endsWith('/chat/completions')
+  ) {
+    sendJson(response, 404, { error: { message: 'Not found' } });
+    return;
+  }
+
+  let body: {
+    model?: string;
+    messages?: ChatMessage[];
+    response_format?: {
+      json_schema?: { name: string; schema: Record<string, any> };
+    };
+  };
+  try {
+    body = JSON.parse(await readBody(request));
+  } catch (error) {
+    sendJson(response, 400, { error: { message: 'Invalid JSON body' } });
+    return;
+  }
+
+  const content = mockCompletion(
+    {
+      messages: body.messages || [],
+      responseSchema: body.response_format?.json_schema,
+    },
+    fixtures
+  );
+  console.log(
+    `Mock completion (${body.response_format?.json_schema?.name || 'text'})`
+  );
+  sendJson(response, 200, {
+    id: `mock-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: body.model || 'mock',
+    choices: [
+      {
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: 'stop',
+      },
+    ],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock LLM server listening on http://localhost:${PORT}/v1`);
+});
@@ -0,0 +1,73 @@
+import * as functions from 'firebase-functions';
+import * as nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+interface SMTPOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  auth?: { user: string; pass: string };
+}
+
+class SmtpTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(private from: string, options: SMTPOptions) {
+    this.transporter = nodemailer.createTransport(options);
+  }
+
+  async send(message: MailMessage) {
+    const info = await this.transporter.sendMail({
+      from: this.from,
+      ...message,
+    });
+    return { messageId: info.messageId };
+  }
+}
+
+// 실제 발송 없이 로그만 남기는 전송 방식입니다. 에뮬레이터에서 주로 사용합니다.
+class LogTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log('Mail (log transport):', message.to, message.subject);
+    return { messageId: `log-${Date.now()}` };
+  }
+}
+
+// functions.config().mail 로 전송 방식을 고릅니다. 설정이 없으면 로컬 SMTP
+// 캐처(localhost:1025)로 보내므로 Mailpit/MailHog 로 바로 확인할 수 있습니다.
+export function createMailTransport(): MailTransport {
+  const config = functions.config().mail || {};
+  const transport = process.env.MAIL_TRANSPORT || config.transport || 'smtp';
+
+  if (transport === 'log') {
+    return new LogTransport();
+  }
+  if (transport !== 'smtp') {
+    throw new Error(`Unknown mail transport: ${transport}`);
+  }
+
+  const host = process.env.SMTP_HOST || config.smtp_host || 'localhost';
+  const port = Number(process.env.SMTP_PORT || config.smtp_port || 1025);
+  const user = process.env.SMTP_USER || config.smtp_user;
+  const pass = process.env.SMTP_PASS || config.smtp_pass;
+
+  return new SmtpTransport(
+    process.env.MAIL_FROM || config.from || 'OneVDR <no-reply@onevdr.app>',
+    {
+      host,
+      port,
+      secure: port === 465,
+      auth: user ? { user, pass } : undefined,
+    }
+  );
+}
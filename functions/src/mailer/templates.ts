@@ -0,0 +1,57 @@
+import { MailMessage } from '.';
+
+export interface ShareInvitation {
+  recipientEmail: string;
+  ownerName: string;
+  fileName: string;
+  shareLink: string;
+  expirationDate: Date;
+  requireNDA: boolean;
+  downloadable: boolean;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function renderShareInvitation(
+  invitation: ShareInvitation
+): MailMessage {
+  const expiry = invitation.expirationDate.toUTCString();
+  const notices = [
+    invitation.requireNDA
+      ? 'You will be asked to accept a non-disclosure agreement before the document opens.'
+      : null,
+    invitation.downloadable
+      ? null
+      : 'This document is view-only and cannot be downloaded.',
+  ].filter((notice): notice is string => notice !== null);
+
+  const text = [
+    `${invitation.ownerName} has shared "${invitation.fileName}" with you on OneVDR.`,
+    '',
+    `Open the document: ${invitation.shareLink}`,
+    `This link expires on ${expiry}.`,
+    ...notices,
+  ].join('\n');
+
+  const ownerName = escapeHtml(invitation.ownerName);
+  const fileName = escapeHtml(invitation.fileName);
+  const html = `
+    <p>${ownerName} has shared <strong>${fileName}</strong> with you on OneVDR.</p>
+    <p><a href="${escapeHtml(invitation.shareLink)}">Open the document</a></p>
+    <p>This link expires on ${escapeHtml(expiry)}.</p>
+    ${notices.map((notice) => `<p>${escapeHtml(notice)}</p>`).join('\n')}
+  `;
+
+  return {
+    to: invitation.recipientEmail,
+    subject: `${invitation.ownerName} shared "${invitation.fileName}" with you`,
+    text,
+    html,
+  };
+}
@@ -0,0 +1,228 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { indexDocumentPages } from '../search';
+import { buildDownloadUrl, buildFileStoragePath } from '../storagePaths';
+
+// 파일 이름을 문서 ID 로 쓰던 예전 문서인지 판별합니다.
+function isLegacyFile(
+  userId: string,
+  fileId: string,
+  data: admin.firestore.DocumentData
+) {
+  return !data.storagePath?.startsWith(`users/${userId}/files/${fileId}/`);
+}
+
+// 예전 파일 ID 를 가리키는 공유 이후의 기록(NDA 동의, 열람 세션, 활동 기록,
+// 투자자별 통계)을 새 ID 로 바꾸고, 워터마크 캐시를 지웁니다.
+async function moveFileReferences(
+  userId: string,
+  fromId: string,
+  toId: string,
+  shareIds: string[]
+) {
+  const firestore = admin.firestore();
+  const userRef = firestore.collection('users').doc(userId);
+  const [acceptances, sessions, investors] = await Promise.all([
+    userRef.collection('ndaAcceptances').where('fileId', '==', fromId).get(),
+    userRef.collection('shareSessions').where('fileId', '==', fromId).get(),
+    userRef.collection('investors').get(),
+  ]);
+
+  const writer = firestore.bulkWriter();
+  [...acceptances.docs, ...sessions.docs].forEach((referenceDoc) =>
+    writer.update(referenceDoc.ref, { fileId: toId })
+  );
+
+  for (const investor of investors.docs) {
+    const [logs, statsDoc, documentStats] = await Promise.all([
+      firestore
+        .collection('activityLogs')
+        .doc(investor.id)
+        .collection('logs')
+        .where('fileId', '==', fromId)
+        .get(),
+      firestore.collection('dataRoomStats').doc(investor.id).get(),
+      firestore
+        .collection('dataRoomStats')
+        .doc(investor.id)
+        .collection('documents')
+        .doc(fromId)
+        .get(),
+    ]);
+    logs.docs.forEach((logDoc) => writer.update(logDoc.ref, { fileId: toId }));
+
+    const viewedFileIds: string[] = statsDoc.data()?.viewedFileIds || [];
+    if (viewedFileIds.includes(fromId)) {
+      writer.update(statsDoc.ref, {
+        viewedFileIds: viewedFileIds.map((id) => (id === fromId ? toId : id)),
+      });
+    }
+    if (documentStats.exists) {
+      writer.set(documentStats.ref.parent.doc(toId), {
+        ...documentStats.data(),
+        fileId: toId,
+      });
+      writer.delete(documentStats.ref);
+    }
+  }
+  await writer.close();
+
+  const bucket = admin.storage().bucket();
+  await Promise.all(
+    shareIds.map((shareId) =>
+      bucket.deleteFiles({ prefix: `users/${userId}/watermarks/${shareId}/` })
+    )
+  );
+}
+
+// 검색 페이지 본문, 질의응답 조각, 재무 표를 새 ID 로 옮깁니다. 예전 파일
+// 문서를 지우면 정리 트리거가 예전 ID 의 색인을 지우므로 그 전에 옮깁니다.
+async function moveDerivedData(userId: string, fromId: string, toId: string) {
+  const firestore = admin.firestore();
+  const userRef = firestore.collection('users').doc(userId);
+  const fromRef = userRef.collection('files').doc(fromId);
+  const toRef = userRef.collection('files').doc(toId);
+  const [pages, financials, chunks] = await Promise.all([
+    fromRef.collection('pages').orderBy('page').get(),
+    fromRef.collection('financials').get(),
+    userRef.collection('chunks').where('fileId', '==', fromId).get(),
+  ]);
+
+  if (!pages.empty) {
+    await indexDocumentPages(
+      userId,
+      toId,
+      pages.docs.map((pageDoc) => pageDoc.data().text || '')
+    );
+  }
+  const writer = firestore.bulkWriter();
+  financials.docs.forEach((recordDoc) =>
+    writer.set(toRef.collection('financials').doc(recordDoc.id), {
+      ...recordDoc.data(),
+    })
+  );
+  chunks.docs.forEach((chunkDoc) =>
+    writer.update(chunkDoc.ref, { fileId: toId })
+  );
+  await writer.close();
+}
+
+// 호출한 사용자의 예전 파일 문서를 생성된 ID 로 옮깁니다. 스토리지 객체는
+// 업로드와 같은 버전 경로로 복사하고 1번 버전 문서를 만들며, 공유 링크와
+// 이후의 기록도 새 ID 로 바꿉니다. 이미 분석한 문서이므로 다시 분석하지
+// 않습니다. 데이터룸 화면에서 사용자가 직접 실행하며, 여러 번 호출해도
+// 이미 옮긴 문서는 건너뜁니다.
+export const migrateFileIds = functions
+  .runWith({ timeoutSeconds: 540, memory: '1GB' })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        'unauthenticated',
+        'The function must be called while authenticated.'
+      );
+    }
+
+    const userId = context.auth.uid;
+    const firestore = admin.firestore();
+    const bucket = admin.storage().bucket();
+    const filesRef = firestore
+      .collection('users')
+      .doc(userId)
+      .collection('files');
+    const filesSnapshot = await filesRef.get();
+
+    const migrated: { from: string; to: string }[] = [];
+    const failed: string[] = [];
+
+    for (const fileDoc of filesSnapshot.docs) {
+      const fileData = fileDoc.data();
+      if (!isLegacyFile(userId, fileDoc.id, fileData)) continue;
+
+      try {
+        const oldPath: string =
+          fileData.storagePath || `users/${userId}/pdfs/${fileDoc.id}`;
+        const name: string = fileData.name || fileDoc.id;
+        const newRef = filesRef.doc();
+        const versionRef = newRef.collection('versions').doc();
+        const storagePath = buildFileStoragePath(
+          userId,
+          newRef.id,
+          versionRef.id,
+          name
+        );
+
+        const source = bucket.file(oldPath);
+        const [exists] = await source.exists();
+        let url: string = fileData.url || '';
+        if (exists) {
+          // 메타데이터를 넘기면 원본의 것을 복사하지 않으므로 형식과 다운로드
+          // 토큰도 함께 넘깁니다. migratedFrom 이 있으면 분석 큐가 건너뜁니다.
+          const [sourceMetadata] = await source.getMetadata();
+          await source.copy(bucket.file(storagePath), {
+            contentType: sourceMetadata.contentType,
+            metadata: { ...sourceMetadata.metadata, migratedFrom: oldPath },
+          });
+          const token = String(
+            sourceMetadata.metadata?.firebaseStorageDownloadTokens || ''
+          ).split(',')[0];
+          if (token) {
+            url = buildDownloadUrl(bucket.name, storagePath, token);
+          }
+        }
+
+        const shares = await firestore
+          .collection('shares')
+          .where('createdBy', '==', userId)
+          .where('fileId', '==', fileDoc.id)
+          .get();
+
+        await moveDerivedData(userId, fileDoc.id, newRef.id);
+
+        const batch = firestore.batch();
+        batch.set(versionRef, {
+          id: versionRef.id,
+          versionNumber: 1,
+          name,
+          url,
+          storagePath,
+          ...(fileData.contentType && { contentType: fileData.contentType }),
+          size: fileData.size || '',
+          uploadDate: fileData.uploadDate || new Date().toISOString(),
+          analysis: fileData.analysis || '',
+          status: fileData.status || 'completed',
+          ...(fileData.legalReview && { legalReview: fileData.legalReview }),
+        });
+        batch.set(newRef, {
+          ...fileData,
+          id: newRef.id,
+          name,
+          url,
+          storagePath,
+          legacyId: fileDoc.id,
+          currentVersionId: versionRef.id,
+          versionCount: 1,
+        });
+        shares.forEach((share) =>
+          batch.update(share.ref, { fileId: newRef.id })
+        );
+        batch.delete(fileDoc.ref);
+        await batch.commit();
+
+        await moveFileReferences(
+          userId,
+          fileDoc.id,
+          newRef.id,
+          shares.docs.map((share) => share.id)
+        );
+        if (exists) {
+          await source.delete();
+        }
+        migrated.push({ from: fileDoc.id, to: newRef.id });
+      } catch (error) {
+        console.error(`Error migrating file ${fileDoc.id}:`, error);
+        failed.push(fileDoc.id);
+      }
+    }
+
+    return { migrated, failed };
+  });
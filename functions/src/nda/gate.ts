@@ -0,0 +1,114 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { ShareData } from '../shareViewer';
+
+export interface NdaTemplate {
+  id: string;
+  title: string;
+  body: string;
+  version: number;
+  isDefault?: boolean;
+}
+
+function ndaTemplatesRef(ownerId: string) {
+  return admin
+    .firestore()
+    .collection('users')
+    .doc(ownerId)
+    .collection('ndaTemplates');
+}
+
+export function ndaAcceptancesRef(ownerId: string) {
+  return admin
+    .firestore()
+    .collection('users')
+    .doc(ownerId)
+    .collection('ndaAcceptances');
+}
+
+// 템플릿을 지정하지 않은 경우 소유자의 기본 템플릿, 없으면 가장 최근 템플릿을 사용합니다.
+export async function loadNdaTemplate(
+  ownerId: string,
+  templateId?: string | null
+): Promise<NdaTemplate> {
+  let templateDoc: admin.firestore.DocumentSnapshot | undefined;
+
+  if (templateId) {
+    templateDoc = await ndaTemplatesRef(ownerId).doc(templateId).get();
+  } else {
+    const defaults = await ndaTemplatesRef(ownerId)
+      .where('isDefault', '==', true)
+      .limit(1)
+      .get();
+    templateDoc = defaults.docs[0];
+    if (!templateDoc) {
+      const latest = await ndaTemplatesRef(ownerId)
+        .orderBy('createdAt', 'desc')
+        .limit(1)
+        .get();
+      templateDoc = latest.docs[0];
+    }
+  }
+
+  if (!templateDoc || !templateDoc.exists) {
+    throw new functions.https.HttpsError(
+      'failed-precondition',
+      'No NDA template is configured for this share.'
+    );
+  }
+
+  return { id: templateDoc.id, ...templateDoc.data() } as NdaTemplate;
+}
+
+export interface NdaGate {
+  template: NdaTemplate | null;
+  accepted: boolean;
+  acceptance: { id: string; email: string } | null;
+}
+
+export async function getNdaGate(
+  share: ShareData,
+  acceptanceId: unknown
+): Promise<NdaGate> {
+  if (!share.requireNDA) {
+    return { template: null, accepted: true, acceptance: null };
+  }
+
+  const template = await loadNdaTemplate(share.createdBy, share.ndaTemplateId);
+  if (!acceptanceId || typeof acceptanceId !== 'string') {
+    return { template, accepted: false, acceptance: null };
+  }
+
+  const acceptanceDoc = await ndaAcceptancesRef(share.createdBy)
+    .doc(acceptanceId)
+    .get();
+  const acceptance = acceptanceDoc.data();
+  // 템플릿이 수정되어 버전이 바뀌면 다시 동의를 받아야 합니다.
+  const accepted =
+    !!acceptance &&
+    acceptance.shareId === share.shareId &&
+    acceptance.templateId === template.id &&
+    acceptance.ndaVersion === template.version;
+
+  return {
+    template,
+    accepted,
+    acceptance: accepted
+      ? { id: acceptanceDoc.id, email: acceptance?.email }
+      : null,
+  };
+}
+
+export async function assertNdaAccepted(
+  share: ShareData,
+  acceptanceId: unknown
+): Promise<NdaGate> {
+  const gate = await getNdaGate(share, acceptanceId);
+  if (!gate.accepted) {
+    throw new functions.https.HttpsError(
+      'permission-denied',
+      'The NDA must be accepted before viewing this file.'
+    );
+  }
+  return gate;
+}
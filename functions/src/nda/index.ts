@@ -0,0 +1,121 @@
+import * as crypto from 'crypto';
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { loadActiveShare } from '../shareViewer';
+import { loadNdaTemplate, ndaAcceptancesRef } from './gate';
+import { renderNdaReceipt } from './receipt';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function getClientIp(request: functions.https.Request): string {
+  const forwardedFor = request.headers['x-forwarded-for'];
+  if (typeof forwardedFor === 'string' && forwardedFor.length > 0) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return request.ip || 'unknown';
+}
+
+export const acceptNDA = functions.https.onCall(async (data, context) => {
+  const share = await loadActiveShare(data?.shareId);
+  if (!share.requireNDA) {
+    throw new functions.https.HttpsError(
+      'failed-precondition',
+      'This share does not require an NDA.'
+    );
+  }
+
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  const email =
+    typeof data.email === 'string' ? data.email.trim().toLowerCase() : '';
+  if (!name || !EMAIL_PATTERN.test(email)) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      'A name and a valid email address are required.'
+    );
+  }
+
+  const template = await loadNdaTemplate(share.createdBy, share.ndaTemplateId);
+  if (data.ndaVersion !== template.version) {
+    throw new functions.https.HttpsError(
+      'failed-precondition',
+      'The NDA has been updated. Please review the latest version.'
+    );
+  }
+
+  const fileDoc = await admin
+    .firestore()
+    .collection('users')
+    .doc(share.createdBy)
+    .collection('files')
+    .doc(share.fileId)
+    .get();
+
+  const acceptanceId = crypto.randomBytes(16).toString('hex');
+  await ndaAcceptancesRef(share.createdBy)
+    .doc(acceptanceId)
+    .set({
+      shareId: share.shareId,
+      fileId: share.fileId,
+      fileName: fileDoc.data()?.name || share.fileId,
+      templateId: template.id,
+      templateTitle: template.title,
+      ndaVersion: template.version,
+      // 동의 당시의 원문을 그대로 보관해 영수증에 사용합니다.
+      ndaBody: template.body,
+      name,
+      email,
+      ipAddress: getClientIp(context.rawRequest),
+      userAgent: context.rawRequest.headers['user-agent'] || '',
+      acceptedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+  return { acceptanceId };
+});
+
+export const exportNdaReceipt = functions.https.onCall(
+  async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        'unauthenticated',
+        'The function must be called while authenticated.'
+      );
+    }
+
+    const { acceptanceId } = data;
+    if (!acceptanceId || typeof acceptanceId !== 'string') {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'An acceptance ID is required.'
+      );
+    }
+
+    const acceptanceDoc = await ndaAcceptancesRef(context.auth.uid)
+      .doc(acceptanceId)
+      .get();
+    const acceptance = acceptanceDoc.data();
+    if (!acceptance) {
+      throw new functions.https.HttpsError(
+        'not-found',
+        'NDA acceptance not found.'
+      );
+    }
+
+    const pdfBytes = await renderNdaReceipt({
+      acceptanceId,
+      name: acceptance.name,
+      email: acceptance.email,
+      ipAddress: acceptance.ipAddress,
+      acceptedAt: acceptance.acceptedAt.toDate(),
+      templateTitle: acceptance.templateTitle,
+      ndaVersion: acceptance.ndaVersion,
+      ndaBody: acceptance.ndaBody,
+      fileName: acceptance.fileName,
+      shareId: acceptance.shareId,
+    });
+
+    return {
+      fileName: `nda-receipt-${acceptanceId}.pdf`,
+      content: Buffer.from(pdfBytes).toString('base64'),
+    };
+  }
+);
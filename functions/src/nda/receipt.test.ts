@@ -0,0 +1,40 @@
+import { extractPdfPages } from '../extract/pdf';
+import { renderNdaReceipt } from './receipt';
+
+const receipt = {
+  acceptanceId: 'acc1',
+  name: '홍길동',
+  email: 'gildong@example.com',
+  ipAddress: '127.0.0.1',
+  acceptedAt: new Date('2024-05-01T09:00:00Z'),
+  templateTitle: '비밀유지계약',
+  ndaVersion: 2,
+  ndaBody:
+    '수령인은 공개된 정보를 제3자에게 누설하지 않습니다.\r\nSecond line.',
+  fileName: '사업계획서.pdf',
+  shareId: 'share1',
+};
+
+describe('renderNdaReceipt', () => {
+  it('keeps Korean names and agreement text readable', async () => {
+    const bytes = await renderNdaReceipt(receipt);
+    const [text] = await extractPdfPages(Buffer.from(bytes));
+
+    expect(text).toContain('Signed by: 홍길동');
+    expect(text).toContain('비밀유지계약 (version 2)');
+    expect(text).toContain(
+      '수령인은 공개된 정보를 제3자에게 누설하지 않습니다.'
+    );
+    expect(text).not.toContain('???');
+  });
+
+  it('wraps text without spaces onto several lines', async () => {
+    const bytes = await renderNdaReceipt({
+      ...receipt,
+      ndaBody: '가'.repeat(200),
+    });
+    const [text] = await extractPdfPages(Buffer.from(bytes));
+
+    expect(text.replace(/\s/g, '')).toContain('가'.repeat(200));
+  });
+});
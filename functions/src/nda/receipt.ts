@@ -0,0 +1,109 @@
+import { PDFDocument, PDFFont, rgb } from 'pdf-lib';
+import { embedUnicodeFont } from '../fonts';
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const LINE_HEIGHT = 14;
+
+export interface NdaReceiptData {
+  acceptanceId: string;
+  name: string;
+  email: string;
+  ipAddress: string;
+  acceptedAt: Date;
+  templateTitle: string;
+  ndaVersion: number;
+  ndaBody: string;
+  fileName: string;
+  shareId: string;
+}
+
+// 공백 단위로 줄을 나누고, 공백 없이 긴 글(URL, 띄어쓰기 없는 한글 등)은
+// 글자 단위로 나눕니다.
+function wrapText(
+  text: string,
+  font: PDFFont,
+  fontSize: number,
+  maxWidth: number
+): string[] {
+  const fits = (line: string) =>
+    font.widthOfTextAtSize(line, fontSize) <= maxWidth;
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let currentLine = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = currentLine ? `${currentLine} ${word}` : word;
+      if (fits(candidate) || !currentLine) {
+        currentLine = candidate;
+      } else {
+        lines.push(currentLine);
+        currentLine = word;
+      }
+      if (!fits(currentLine)) {
+        let line = '';
+        for (const character of Array.from(currentLine)) {
+          if (line && !fits(line + character)) {
+            lines.push(line);
+            line = '';
+          }
+          line += character;
+        }
+        currentLine = line;
+      }
+    }
+    lines.push(currentLine);
+  }
+  return lines;
+}
+
+export async function renderNdaReceipt(
+  receipt: NdaReceiptData
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await embedUnicodeFont(pdfDoc);
+
+  let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const drawLine = (text: string, fontSize = 10) => {
+    if (y < MARGIN) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    page.drawText(text, {
+      x: MARGIN,
+      y,
+      size: fontSize,
+      font,
+      color: rgb(0.1, 0.1, 0.1),
+    });
+    y -= LINE_HEIGHT;
+  };
+
+  drawLine('NDA Acceptance Receipt', 16);
+  y -= LINE_HEIGHT;
+
+  const fields: Array<[string, string]> = [
+    ['Receipt ID', receipt.acceptanceId],
+    ['Signed by', receipt.name],
+    ['Email', receipt.email],
+    ['Accepted at', receipt.acceptedAt.toISOString()],
+    ['IP address', receipt.ipAddress],
+    ['Agreement', `${receipt.templateTitle} (version ${receipt.ndaVersion})`],
+    ['Document', receipt.fileName],
+    ['Share ID', receipt.shareId],
+  ];
+  for (const [label, value] of fields) {
+    drawLine(`${label}: ${value}`);
+  }
+
+  y -= LINE_HEIGHT;
+  drawLine('Agreement Text', 12);
+  const maxWidth = PAGE_WIDTH - MARGIN * 2;
+  for (const line of wrapText(receipt.ndaBody, font, 10, maxWidth)) {
+    drawLine(line);
+  }
+
+  return pdfDoc.save();
+}
@@ -0,0 +1,79 @@
+import { CompletionRequest, MockProvider } from "../llm";
+import { analyzeTextWithOpenAI } from ".";
+
+// 한 페이지가 한 조각이 되도록 조각 예산(8000 토큰)에 가까운 페이지입니다.
+const longPage = (page: number) => `Page ${page}. ${"revenue ".repeat(7000)}`;
+
+const isReduce = (request: CompletionRequest) =>
+  request.messages[0].content.includes("You combine analyses");
+
+// reduce 요청에 담긴 부분 분석들의 페이지 범위입니다.
+const reducedPages = (request: CompletionRequest): string[] =>
+  JSON.parse(
+    request.messages[1].content
+      .split("as JSON:\n\n")[1]
+      .split("\n\nSynthesize")[0]
+  ).map((partial: { pages: string }) => partial.pages);
+
+class RecordingProvider extends MockProvider {
+  requests: CompletionRequest[] = [];
+
+  constructor(private failReduce = false) {
+    super();
+  }
+
+  async complete(request: CompletionRequest) {
+    this.requests.push(request);
+    if (this.failReduce && isReduce(request)) {
+      throw new Error("Reduce failed");
+    }
+    return super.complete(request);
+  }
+}
+
+describe("analyzeTextWithOpenAI", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  const pages = Array.from({ length: 12 }, (_, index) => longPage(index + 1));
+
+  it("reduces more than one group of partial analyses in levels", async () => {
+    const provider = new RecordingProvider();
+    const progress: [number, number][] = [];
+    await analyzeTextWithOpenAI(
+      pages,
+      "model.xlsx",
+      async (analyzed, total) => {
+        progress.push([analyzed, total]);
+      },
+      provider
+    );
+
+    const reduces = provider.requests.filter(isReduce);
+    expect(provider.requests).toHaveLength(1 + 12 + 3);
+    expect(reduces.map(reducedPages)).toEqual([
+      Array.from({ length: 10 }, (_, index) => `page ${index + 1}`),
+      ["page 11", "page 12"],
+      ["pages 1-10", "pages 11-12"],
+    ]);
+    expect(progress[0]).toEqual([0, 16]);
+    expect(progress[progress.length - 1]).toEqual([16, 16]);
+  });
+
+  it("merges partial analyses when the reduce call fails", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const provider = new RecordingProvider(true);
+    const analysis = await analyzeTextWithOpenAI(
+      pages,
+      "model.xlsx",
+      undefined,
+      provider
+    );
+
+    expect(provider.requests.filter(isReduce)).toHaveLength(3);
+    expect(analysis.documentType).toBe("general");
+    expect(analysis.categories).toEqual([
+      "Mock categories 1",
+      "Mock categories 2",
+    ]);
+  });
+});
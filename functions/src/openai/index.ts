@@ -1,8 +1,16 @@
-import axios from "axios";
 import * as functions from "firebase-functions";
-import { gptPrompt } from "../prompt";
-const API_KEY = functions.config().openai.api_key;
-const API_URL = "https://api.openai.com/v1/chat/completions";
+import { classificationPrompt, gptPrompt, reducePrompt } from "../prompt";
+import { chunkPages, formatPages } from "../chunking";
+import { CompletionRequest, LLMProvider, createLLMProvider } from "../llm";
+import { AnalysisProfile, DocumentType, getAnalysisProfile } from "../profiles";
+
+// 한 번의 reduce 호출에 넣는 부분 분석 수입니다. 넘으면 여러 단계로 묶습니다.
+const REDUCE_GROUP_SIZE = 10;
+// 조각 하나에 넣는 토큰 수와 앞 조각과 겹치는 토큰 수입니다.
+const CHUNK_MAX_TOKENS = 8000;
+const CHUNK_OVERLAP_TOKENS = 200;
+// 문서 종류를 고를 때 모델에 보여 주는 앞부분의 토큰 수입니다.
+const CLASSIFICATION_TOKENS = 2000;
 
 interface AnalysisResult {
   summary: string;
@@ -10,105 +18,270 @@ interface AnalysisResult {
   categories: string[];
   tags: string[];
   keyInsights: string[];
-  toneAndStyle: string;
-  targetAudience: string;
-  potentialApplications: string[];
+  documentType: DocumentType;
+  // 문서 종류별 프로필 스키마를 따르는 세부 항목입니다.
+  details: Record<string, unknown>;
 }
 
-export async function analyzeTextWithOpenAI(
-  text: string,
-  fileName: string
+// 부분 분석과 그 분석이 다룬 페이지 범위입니다.
+interface PartialAnalysis {
+  pageStart: number;
+  pageEnd: number;
+  analysis: AnalysisResult;
+}
+
+async function requestAnalysis(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  profile: AnalysisProfile
 ): Promise<AnalysisResult> {
-  const maxTokens = 8000;
-  const chunks = splitTextIntoChunks(text, maxTokens);
-  let fullAnalysis: AnalysisResult = {
-    summary: "",
-    keywords: [],
-    categories: [],
-    tags: [],
-    keyInsights: [],
-    toneAndStyle: "",
-    targetAudience: "",
-    potentialApplications: [],
+  return {
+    ...JSON.parse(await provider.complete(request)),
+    documentType: profile.type,
   };
+}
 
-  for (const chunk of chunks) {
-    try {
-      const prompt = await gptPrompt(fileName, chunk);
-      const response = await axios.post(API_URL, prompt, {
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${API_KEY}`,
-        },
-      });
+// 분류에 실패하면 일반 문서 프로필로 분석합니다.
+async function classifyDocument(
+  provider: LLMProvider,
+  fileName: string,
+  pages: string[]
+): Promise<AnalysisProfile> {
+  const [excerpt] = chunkPages(pages, {
+    maxTokens: CLASSIFICATION_TOKENS,
+    overlapTokens: 0,
+  });
+  if (!excerpt) return getAnalysisProfile("general");
+  try {
+    const { documentType } = JSON.parse(
+      await provider.complete(classificationPrompt(fileName, excerpt.text))
+    );
+    return getAnalysisProfile(documentType);
+  } catch (error) {
+    console.error("Error classifying document:", error);
+    return getAnalysisProfile("general");
+  }
+}
 
-      const chunkAnalysis = response.data.choices[0].message.content;
-      const parsedChunkAnalysis: AnalysisResult = JSON.parse(chunkAnalysis);
-
-      // 결과 병합
-      fullAnalysis.summary = parsedChunkAnalysis.summary;
-      fullAnalysis.keywords = [
-        ...fullAnalysis.keywords,
-        ...parsedChunkAnalysis.keywords,
-      ];
-      fullAnalysis.categories = [
-        ...new Set([
-          ...fullAnalysis.categories,
-          ...parsedChunkAnalysis.categories,
-        ]),
-      ];
-      fullAnalysis.tags = [
-        ...new Set([...fullAnalysis.tags, ...parsedChunkAnalysis.tags]),
-      ];
-      fullAnalysis.keyInsights = [
-        ...fullAnalysis.keyInsights,
-        ...parsedChunkAnalysis.keyInsights,
-      ];
-      fullAnalysis.toneAndStyle += " " + parsedChunkAnalysis.toneAndStyle;
-      fullAnalysis.targetAudience += " " + parsedChunkAnalysis.targetAudience;
-      fullAnalysis.potentialApplications = [
-        ...new Set([
-          ...fullAnalysis.potentialApplications,
-          ...parsedChunkAnalysis.potentialApplications,
-        ]),
-      ];
-    } catch (error) {
-      console.error("Error analyzing document:", error);
-    }
+// reduce 단계를 모두 합한 호출 수입니다. 진행률의 전체 단계 수에 포함합니다.
+function countReduceCalls(partialCount: number): number {
+  let calls = 0;
+  let remaining = partialCount;
+  while (remaining > 1) {
+    remaining = Math.ceil(remaining / REDUCE_GROUP_SIZE);
+    calls += remaining;
   }
+  return calls;
+}
 
-  // 결과 정리
-  fullAnalysis.summary = fullAnalysis.summary.trim();
-  fullAnalysis.keywords = fullAnalysis.keywords.slice(0, 7);
-  fullAnalysis.categories = fullAnalysis.categories.slice(0, 3);
-  fullAnalysis.tags = fullAnalysis.tags.slice(0, 7);
-  fullAnalysis.keyInsights = fullAnalysis.keyInsights.slice(0, 5);
-  fullAnalysis.toneAndStyle = fullAnalysis.toneAndStyle.trim();
-  fullAnalysis.targetAudience = fullAnalysis.targetAudience.trim();
-  fullAnalysis.potentialApplications = fullAnalysis.potentialApplications.slice(
-    0,
-    3
+// 대소문자와 공백만 다른 항목을 하나로 보고, 여러 부분에 자주 나온
+// 항목이 앞에 오도록 정렬합니다. 동률이면 먼저 나온 항목이 앞섭니다.
+function rankByFrequency<T>(items: T[], key: (item: T) => string): T[] {
+  const counts = new Map<string, { item: T; count: number; first: number }>();
+  items.forEach((item, index) => {
+    const normalized = key(item).trim().toLowerCase().replace(/\s+/g, " ");
+    if (!normalized) return;
+    const entry = counts.get(normalized);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(normalized, { item, count: 1, first: index });
+    }
+  });
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.first - b.first)
+    .map(({ item }) => item);
+}
+
+// reduce 호출이 실패했을 때 쓰는 결정적 병합입니다. 요약은 각 부분의
+// 첫 문장을 이어 붙여 문서 전체를 덮도록 합니다.
+// 세부 항목은 목록이면 합쳐서 자주 나온 순으로, 값이면 처음 나온 값을 씁니다.
+function mergeDetails(
+  details: Record<string, unknown>[]
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  details.forEach((detail) =>
+    Object.entries(detail || {}).forEach(([key, value]) => {
+      if (Array.isArray(value)) {
+        merged[key] = [...((merged[key] as unknown[]) || []), ...value];
+      } else if (merged[key] === undefined || merged[key] === null) {
+        merged[key] = value;
+      } else if (merged[key] === "" && value) {
+        merged[key] = value;
+      }
+    })
   );
+  Object.entries(merged).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      merged[key] = rankByFrequency(value, (item) =>
+        typeof item === "string" ? item : JSON.stringify(item)
+      );
+    }
+  });
+  return merged;
+}
 
-  return fullAnalysis;
+function mergeAnalyses(partials: AnalysisResult[]): AnalysisResult {
+  const firstSentence = (text: string) =>
+    (text.match(/^[^.!?]*[.!?]/) || [text])[0].trim();
+  return {
+    summary: partials
+      .map((partial) => firstSentence(partial.summary))
+      .filter(Boolean)
+      .join(" "),
+    keywords: rankByFrequency(
+      partials.flatMap((partial) => partial.keywords),
+      (keyword) => keyword.word
+    ),
+    categories: rankByFrequency(
+      partials.flatMap((partial) => partial.categories),
+      (category) => category
+    ),
+    tags: rankByFrequency(
+      partials.flatMap((partial) => partial.tags),
+      (tag) => tag
+    ),
+    keyInsights: rankByFrequency(
+      partials.flatMap((partial) => partial.keyInsights),
+      (insight) => insight
+    ),
+    documentType: partials[0].documentType,
+    details: mergeDetails(partials.map((partial) => partial.details)),
+  };
 }
 
-function splitTextIntoChunks(text: string, maxTokens: number): string[] {
-  const words = text.split(" ");
-  const chunks: string[] = [];
-  let currentChunk = "";
+async function reduceAnalyses(
+  provider: LLMProvider,
+  profile: AnalysisProfile,
+  partials: PartialAnalysis[],
+  fileName: string,
+  onReduced: () => Promise<void>
+): Promise<AnalysisResult> {
+  let level = partials;
+  while (level.length > 1) {
+    const groups: PartialAnalysis[][] = [];
+    for (let i = 0; i < level.length; i += REDUCE_GROUP_SIZE) {
+      groups.push(level.slice(i, i + REDUCE_GROUP_SIZE));
+    }
+    const reduced: PartialAnalysis[] = [];
+    for (const group of groups) {
+      const pageStart = group[0].pageStart;
+      const pageEnd = group[group.length - 1].pageEnd;
+      let analysis: AnalysisResult;
+      try {
+        analysis =
+          group.length === 1
+            ? group[0].analysis
+            : await requestAnalysis(
+                provider,
+                reducePrompt(
+                  fileName,
+                  JSON.stringify(
+                    group.map((partial) => ({
+                      pages: formatPages(partial.pageStart, partial.pageEnd),
+                      ...partial.analysis,
+                    })),
+                    null,
+                    2
+                  ),
+                  profile
+                ),
+                profile
+              );
+      } catch (error) {
+        console.error("Error reducing partial analyses:", error);
+        analysis = mergeAnalyses(group.map((partial) => partial.analysis));
+      }
+      reduced.push({ pageStart, pageEnd, analysis });
+      await onReduced();
+    }
+    level = reduced;
+  }
+  return level[0].analysis;
+}
 
-  for (const word of words) {
-    if ((currentChunk + word).length > maxTokens) {
-      chunks.push(currentChunk.trim());
-      currentChunk = "";
+// 문서를 조각마다 따로 분석(map)한 뒤, 부분 분석들을 한 번 더 모델에
+// 넘겨 문서 전체의 분석으로 종합(reduce)합니다.
+export async function analyzeTextWithOpenAI(
+  pages: string[],
+  fileName: string,
+  onChunkAnalyzed?: (analyzed: number, total: number) => Promise<void>,
+  provider: LLMProvider = createLLMProvider()
+): Promise<AnalysisResult> {
+  const chunks = chunkPages(pages, {
+    maxTokens: CHUNK_MAX_TOKENS,
+    overlapTokens: CHUNK_OVERLAP_TOKENS,
+  });
+  // 분류 한 번, 조각마다 한 번, reduce 단계 수만큼 모델을 부릅니다.
+  const totalSteps = 1 + chunks.length + countReduceCalls(chunks.length);
+  let completedSteps = 0;
+  const reportStep = async () => {
+    completedSteps++;
+    if (onChunkAnalyzed) {
+      await onChunkAnalyzed(completedSteps, totalSteps);
     }
-    currentChunk += word + " ";
+  };
+
+  if (onChunkAnalyzed) {
+    await onChunkAnalyzed(0, totalSteps);
   }
 
-  if (currentChunk.trim().length > 0) {
-    chunks.push(currentChunk.trim());
+  const profile = await classifyDocument(provider, fileName, pages);
+  await reportStep();
+
+  const partials: PartialAnalysis[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    try {
+      const prompt = await gptPrompt(fileName, chunk.text, profile, {
+        index: index + 1,
+        total: chunks.length,
+        pageStart: chunk.pageStart,
+        pageEnd: chunk.pageEnd,
+      });
+      partials.push({
+        pageStart: chunk.pageStart,
+        pageEnd: chunk.pageEnd,
+        analysis: await requestAnalysis(provider, prompt, profile),
+      });
+    } catch (error) {
+      console.error("Error analyzing document:", error);
+    }
+    await reportStep();
+  }
+
+  // 모든 조각이 실패했다면 빈 분석을 저장하지 않고 작업을 실패로 남깁니다.
+  if (partials.length === 0) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      "Every part of the document failed to analyze."
+    );
   }
 
-  return chunks;
+  let analysis: AnalysisResult;
+  if (partials.length === 1) {
+    analysis = partials[0].analysis;
+  } else {
+    analysis = await reduceAnalyses(
+      provider,
+      profile,
+      partials,
+      fileName,
+      reportStep
+    );
+  }
+  // 실패한 조각 때문에 건너뛴 reduce 단계가 있어도 진행률은 끝까지 채웁니다.
+  if (onChunkAnalyzed && completedSteps < totalSteps) {
+    await onChunkAnalyzed(totalSteps, totalSteps);
+  }
+
+  // 결과 정리
+  return {
+    summary: analysis.summary.trim(),
+    keywords: analysis.keywords.slice(0, 7),
+    categories: analysis.categories.slice(0, 3),
+    tags: analysis.tags.slice(0, 7),
+    keyInsights: analysis.keyInsights.slice(0, 5),
+    documentType: profile.type,
+    details: analysis.details || {},
+  };
 }
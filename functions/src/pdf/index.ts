@@ -1,7 +1,20 @@
 import * as functions from "firebase-functions";
-import { PDFExtract } from "pdf.js-extract";
 import { analyzeTextWithOpenAI } from "../openai";
+import { extractDocument } from "../extract";
+import { indexDocumentPages } from "../search";
+import { indexDocumentChunks } from "../qa";
 import * as admin from "firebase-admin";
+import { DocumentType } from "../profiles";
+import {
+  FinancialRecord,
+  extractFinancials,
+  saveExtractedFinancials,
+} from "../financials";
+import {
+  LegalReview,
+  REVIEWED_DOCUMENT_TYPES,
+  reviewContract,
+} from "../legalReview";
 
 interface AnalysisResult {
   summary: string;
@@ -9,75 +22,158 @@ interface AnalysisResult {
   categories: string[];
   tags: string[];
   keyInsights: string[];
-  toneAndStyle: string;
-  targetAudience: string;
-  potentialApplications: string[];
+  documentType: DocumentType;
+  details: Record<string, unknown>;
 }
 
-export async function extractTextFromPDF(file: any): Promise<string> {
-  const [fileContents] = await file.download();
-  const pdfExtract = new PDFExtract();
-  const data = await pdfExtract.extractBuffer(fileContents);
-  return data.pages.map((page) => page.content).join(" ");
+export interface AnalysisProgress {
+  stage: "extracting" | "analyzing";
+  pagesExtracted: number;
+  totalPages: number;
+  chunksAnalyzed: number;
+  totalChunks: number;
+  // 지금까지 조각당 걸린 평균 시간으로 추정합니다. 첫 조각 전에는 null 입니다.
+  estimatedSecondsRemaining: number | null;
+}
+
+// 현재 버전의 본문으로 검색 색인과 질의응답 조각을 다시 만듭니다.
+export async function indexCurrentVersion(
+  userId: string,
+  fileId: string,
+  fileName: string,
+  pages: string[]
+) {
+  await indexDocumentPages(userId, fileId, pages);
+  // 임베딩 API 가 실패해도 분석 결과는 그대로 둡니다.
+  try {
+    await indexDocumentChunks(userId, fileId, fileName, pages);
+  } catch (error) {
+    console.error("Error indexing document chunks:", error);
+  }
 }
 
 export async function analyzePDFCommon(
   file: any,
+  fileId: string,
   fileName: string,
-  userId: string
+  userId: string,
+  versionId?: string,
+  onProgress?: (progress: AnalysisProgress) => Promise<void>
 ): Promise<AnalysisResult> {
   try {
-    const text = await extractTextFromPDF(file);
-    const analysis = await analyzeTextWithOpenAI(text, fileName);
+    // 파일 형식(MIME)에 맞는 추출기로 텍스트를 뽑아냅니다.
+    const { contentType, pages } = await extractDocument(
+      file,
+      fileName,
+      async (pagesExtracted, totalPages) => {
+        if (!onProgress) return;
+        await onProgress({
+          stage: "extracting",
+          pagesExtracted,
+          totalPages,
+          chunksAnalyzed: 0,
+          totalChunks: 0,
+          estimatedSecondsRemaining: null,
+        });
+      }
+    );
+
+    const analysisStartedAt = Date.now();
+    const analysis = await analyzeTextWithOpenAI(
+      pages,
+      fileName,
+      async (chunksAnalyzed, totalChunks) => {
+        if (!onProgress) return;
+        const elapsed = Date.now() - analysisStartedAt;
+        await onProgress({
+          stage: "analyzing",
+          pagesExtracted: pages.length,
+          totalPages: pages.length,
+          chunksAnalyzed,
+          totalChunks,
+          estimatedSecondsRemaining:
+            chunksAnalyzed > 0
+              ? Math.round(
+                  ((elapsed / chunksAnalyzed) *
+                    (totalChunks - chunksAnalyzed)) /
+                    1000
+                )
+              : null,
+        });
+      }
+    );
 
-    await admin
+    const fileRef = admin
       .firestore()
       .collection("users")
       .doc(userId)
       .collection("files")
-      .doc(fileName)
-      .set(
-        {
-          analysis,
-          analysisTimestamp: admin.firestore.FieldValue.serverTimestamp(),
-        },
-        { merge: true }
-      );
+      .doc(fileId);
+    // 계약서는 실사에서 문제가 될 조항을 페이지와 함께 미리 찾아 둡니다.
+    let legalReview: LegalReview | null = null;
+    if (REVIEWED_DOCUMENT_TYPES.includes(analysis.documentType)) {
+      try {
+        legalReview = await reviewContract(fileName, pages);
+      } catch (error) {
+        console.error("Error reviewing contract:", error);
+      }
+    }
+
+    // 재무제표로 분류된 문서는 기간별 수치를 표로 따로 뽑아 둡니다. 추출에
+    // 실패하면 기존 표를 그대로 둡니다(null).
+    let financials: FinancialRecord[] | null = [];
+    if (analysis.documentType === "financialStatements") {
+      try {
+        financials = await extractFinancials(fileName, pages);
+      } catch (error) {
+        console.error("Error extracting financials:", error);
+        financials = null;
+      }
+    }
+
+    const result = {
+      analysis,
+      // 이전 버전의 검토 결과가 새 버전에 남지 않게 지웁니다.
+      legalReview: legalReview || admin.firestore.FieldValue.delete(),
+      contentType,
+      status: "completed",
+      analysisTimestamp: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    if (versionId) {
+      // 버전을 되돌릴 때 다시 추출하지 않도록 재무 수치도 버전 문서에 둡니다.
+      await fileRef
+        .collection("versions")
+        .doc(versionId)
+        .set({ ...result, ...(financials && { financials }) }, { merge: true });
+      // 분석 도중 다른 버전으로 복원했다면 파일 문서는 건드리지 않습니다.
+      const fileDoc = await fileRef.get();
+      if (fileDoc.data()?.currentVersionId !== versionId) {
+        return analysis;
+      }
+    }
+    await fileRef.set(result, { merge: true });
+    if (financials) {
+      await saveExtractedFinancials(userId, fileId, financials);
+    }
+    // 현재 버전의 본문만 검색 색인에 남깁니다.
+    await indexCurrentVersion(userId, fileId, fileName, pages);
 
     return analysis;
   } catch (error) {
-    console.error("Error analyzing PDF:", error);
-    if (error instanceof Error) {
+    console.error("Error analyzing document:", error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    } else if (error instanceof Error) {
       throw new functions.https.HttpsError(
         "internal",
-        `Error analyzing PDF: ${error.message}`
+        `Error analyzing document: ${error.message}`
       );
     } else {
       throw new functions.https.HttpsError(
         "internal",
-        "Unknown error occurred while analyzing PDF"
+        "Unknown error occurred while analyzing document"
       );
     }
   }
 }
-
-export const analyzePDF = functions.storage
-  .object()
-  .onFinalize(async (object) => {
-    if (!object.name) {
-      console.error("File path is undefined");
-      return null;
-    }
-
-    const filePath = object.name;
-    const userId = filePath.split("/")[1];
-    const bucket = admin.storage().bucket(object.bucket);
-    const file = bucket.file(filePath);
-
-    await analyzePDFCommon(
-      file,
-      object.name.split("/").pop() || "Unknown",
-      userId
-    );
-    return null;
-  });
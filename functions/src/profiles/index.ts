@@ -0,0 +1,245 @@
+import { ResponseSchema } from '../llm';
+
+export type DocumentType =
+  | 'general'
+  | 'pitchDeck'
+  | 'financialStatements'
+  | 'legalContract'
+  | 'capTable'
+  | 'customerContract';
+
+export interface AnalysisProfile {
+  type: DocumentType;
+  label: string;
+  // 분류 단계에서 모델이 문서 종류를 고를 때 보는 설명입니다.
+  description: string;
+  instructions: string;
+  details: Record<string, any>;
+}
+
+const text = (description: string) => ({ type: 'string', description });
+const optionalText = (description: string) => ({
+  type: ['string', 'null'],
+  description,
+});
+const textList = (description: string) => ({
+  type: 'array',
+  items: { type: 'string' },
+  description,
+});
+
+// strict 스키마는 모든 속성을 required 에 넣고 추가 속성을 막아야 합니다.
+function strictObject(properties: Record<string, any>, description?: string) {
+  return {
+    type: 'object',
+    ...(description && { description }),
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+  };
+}
+
+const partyList = (description: string) => ({
+  type: 'array',
+  items: strictObject({
+    name: text('Legal name of the party'),
+    role: text('Role of the party in the contract, e.g. licensor, customer'),
+  }),
+  description,
+});
+
+const holdingList = (description: string) => ({
+  type: 'array',
+  items: strictObject({
+    name: text('Holder or share class name'),
+    shares: optionalText('Number of shares as written in the document'),
+    ownershipPercent: optionalText(
+      'Ownership percentage as written in the document'
+    ),
+  }),
+  description,
+});
+
+export const ANALYSIS_PROFILES: AnalysisProfile[] = [
+  {
+    type: 'general',
+    label: 'General document',
+    description: 'Any document that does not fit one of the other types.',
+    instructions:
+      'You are an expert document analyst with deep knowledge across various domains. Your task is to analyze the given document comprehensively and accurately.',
+    details: {
+      toneAndStyle: text(
+        "A brief description of the document's tone and style"
+      ),
+      targetAudience: text(
+        'Identification of the expected target audience for this document'
+      ),
+      potentialApplications: textList(
+        '2-3 potential applications or use cases for the information in this document'
+      ),
+    },
+  },
+  {
+    type: 'pitchDeck',
+    label: 'Pitch deck',
+    description:
+      'A startup presentation to investors covering problem, solution, market, traction, team and the fundraising ask.',
+    instructions:
+      'You are a venture capital analyst reviewing a startup pitch deck. Extract what the company claims, quoting figures exactly as written, and do not invent numbers that are not in the deck.',
+    details: {
+      companyName: optionalText('Name of the company presenting'),
+      problem: text('The problem the company says it solves'),
+      solution: text('The product or solution offered'),
+      market: text('Market and market size claims, with figures as written'),
+      businessModel: text('How the company makes money'),
+      traction: textList('Traction claims such as revenue, users or growth'),
+      team: textList('Key team members and their relevant background'),
+      competition: textList('Named competitors or alternatives'),
+      fundraisingAsk: optionalText('Amount being raised and instrument'),
+      useOfFunds: textList('Planned use of the funds raised'),
+    },
+  },
+  {
+    type: 'financialStatements',
+    label: 'Financial statements',
+    description:
+      'Income statements, balance sheets, cash flow statements, management accounts or financial models.',
+    instructions:
+      'You are a financial due diligence analyst. Extract the reporting period and the key figures exactly as written, including units and currency, and flag anything unusual.',
+    details: {
+      reportingPeriod: optionalText('Period or periods the statements cover'),
+      currency: optionalText(
+        'Reporting currency and units, e.g. USD thousands'
+      ),
+      statementsIncluded: textList(
+        'Statements included, e.g. income statement, balance sheet'
+      ),
+      keyMetrics: {
+        type: 'array',
+        items: strictObject({
+          name: text('Metric name, e.g. revenue, net income, cash'),
+          value: text('Value as written in the document'),
+          period: optionalText('Period the value applies to'),
+        }),
+        description: 'The most important reported figures',
+      },
+      notableItems: textList(
+        'Unusual items, losses, going-concern notes or accounting policy changes'
+      ),
+    },
+  },
+  {
+    type: 'legalContract',
+    label: 'Legal contract',
+    description:
+      'Agreements such as shareholder, license, employment, lease, NDA or financing agreements, other than customer contracts.',
+    instructions:
+      'You are a corporate lawyer performing due diligence on a contract. Identify the parties and key terms, and quote or closely paraphrase clauses that matter to an acquirer or investor.',
+    details: {
+      contractType: text('Type of agreement, e.g. license, shareholder'),
+      parties: partyList('Parties to the contract'),
+      effectiveDate: optionalText('Effective or signing date'),
+      term: optionalText('Duration of the contract and renewal terms'),
+      governingLaw: optionalText('Governing law and jurisdiction'),
+      changeOfControl: textList(
+        'Change-of-control clauses and what they trigger'
+      ),
+      terminationRights: textList('Who may terminate and on what grounds'),
+      assignment: optionalText('Restrictions on assignment or transfer'),
+      liabilityAndIndemnity: textList(
+        'Liability caps, indemnities and warranties'
+      ),
+    },
+  },
+  {
+    type: 'capTable',
+    label: 'Cap table',
+    description:
+      'A capitalization table listing shareholders, share classes, options and convertible instruments.',
+    instructions:
+      'You are a venture capital analyst reviewing a capitalization table. Extract share counts and percentages exactly as written and do not recompute them.',
+    details: {
+      asOfDate: optionalText('Date the cap table is stated as of'),
+      totalSharesOutstanding: optionalText('Total shares outstanding'),
+      fullyDilutedShares: optionalText('Fully diluted share count'),
+      shareClasses: holdingList('Share classes with their totals'),
+      majorHolders: holdingList('Largest shareholders'),
+      optionPool: optionalText('Option pool size, granted and available'),
+      convertibles: textList(
+        'Outstanding SAFEs, convertible notes or warrants with key terms'
+      ),
+    },
+  },
+  {
+    type: 'customerContract',
+    label: 'Customer contract',
+    description:
+      'A commercial agreement with a customer, such as an MSA, order form, SaaS subscription or reseller agreement.',
+    instructions:
+      'You are a commercial due diligence analyst reviewing a customer contract. Focus on revenue, renewal, termination and change-of-control terms that affect the value of the customer relationship.',
+    details: {
+      customer: optionalText('Customer name'),
+      supplier: optionalText('Supplier or vendor name'),
+      contractValue: optionalText('Total or annual contract value as written'),
+      pricing: text('Pricing model and payment terms'),
+      term: optionalText('Contract term'),
+      renewal: optionalText('Renewal terms, including auto-renewal'),
+      terminationRights: textList('Who may terminate and on what grounds'),
+      changeOfControl: textList(
+        'Change-of-control or assignment clauses affecting the customer relationship'
+      ),
+      exclusivity: optionalText('Exclusivity or most-favoured-customer terms'),
+      serviceLevels: textList('SLA commitments and service credits'),
+    },
+  },
+];
+
+export function getAnalysisProfile(type: string): AnalysisProfile {
+  return (
+    ANALYSIS_PROFILES.find((profile) => profile.type === type) ||
+    ANALYSIS_PROFILES[0]
+  );
+}
+
+// 모든 종류가 함께 쓰는 필드 뒤에 종류별 details 를 붙인 결과 형식입니다.
+// 공통 필드는 검색, 필터, 자동 정리가 문서 종류와 상관없이 사용합니다.
+export function analysisSchema(profile: AnalysisProfile): ResponseSchema {
+  return {
+    name: `${profile.type}_analysis`,
+    schema: strictObject({
+      summary: text(
+        'A very concise summary of the document in 2-3 sentences, focusing only on the key points without repetition.'
+      ),
+      keywords: {
+        type: 'array',
+        items: strictObject({
+          word: { type: 'string' },
+          explanation: { type: 'string' },
+        }),
+        description: '5-7 most important keywords or phrases with explanations',
+      },
+      categories: textList(
+        '2-3 main categories that best describe the document content'
+      ),
+      tags: textList('5-7 related tags for indexing or searching the document'),
+      keyInsights: textList(
+        '3-5 key insights or points derived from the document'
+      ),
+      details: strictObject(
+        profile.details,
+        `Information specific to a ${profile.label.toLowerCase()}`
+      ),
+    }),
+  };
+}
+
+export const classificationSchema: ResponseSchema = {
+  name: 'document_classification',
+  schema: strictObject({
+    documentType: {
+      type: 'string',
+      enum: ANALYSIS_PROFILES.map((profile) => profile.type),
+      description: 'The document type that best fits the document',
+    },
+  }),
+};
@@ -1,94 +1,84 @@
-export async function gptPrompt(fileName: string, chunk: string): Promise<any> {
-  const prompt = {
-    model: "gpt-4o-2024-08-06",
+import { formatPages } from "../chunking";
+import { CompletionRequest } from "../llm";
+import {
+  ANALYSIS_PROFILES,
+  AnalysisProfile,
+  analysisSchema,
+  classificationSchema,
+} from "../profiles";
+
+// 문서 앞부분만 보고 어떤 분석 프로필을 쓸지 고릅니다.
+export function classificationPrompt(
+  fileName: string,
+  excerpt: string
+): CompletionRequest {
+  const types = ANALYSIS_PROFILES.map(
+    (profile) => `- ${profile.type}: ${profile.description}`
+  ).join("\n");
+  return {
+    temperature: 0,
     messages: [
       {
         role: "system",
         content:
-          "You are an expert document analyst with deep knowledge across various domains. Your task is to analyze the given document comprehensively and accurately.",
+          "You classify documents found in a startup data room. Answer with the single document type that fits best.",
       },
       {
         role: "user",
-        content: `Analyze the following part of the document titled "${fileName}":\n\n${chunk}. Please provide a very concise summary (no more than 2-3 sentences) focusing only on the key points without repetition.`,
+        content: `Document types:\n${types}\n\nClassify the document titled "${fileName}". Here is its beginning:\n\n${excerpt}`,
       },
     ],
-    response_format: {
-      type: "json_schema",
-      json_schema: {
-        name: "document_analysis",
-        strict: true,
-        schema: {
-          type: "object",
-          properties: {
-            summary: {
-              type: "string",
-              description:
-                "A very concise summary of the document in 2-3 sentences, focusing only on the key points without repetition.",
-            },
-            keywords: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  word: { type: "string" },
-                  explanation: { type: "string" },
-                },
-                required: ["word", "explanation"],
-                additionalProperties: false,
-              },
-              description:
-                "5-7 most important keywords or phrases with explanations",
-            },
-            categories: {
-              type: "array",
-              items: { type: "string" },
-              description:
-                "2-3 main categories that best describe the document content",
-            },
-            tags: {
-              type: "array",
-              items: { type: "string" },
-              description:
-                "5-7 related tags for indexing or searching the document",
-            },
-            keyInsights: {
-              type: "array",
-              items: { type: "string" },
-              description:
-                "3-5 key insights or points derived from the document",
-            },
-            toneAndStyle: {
-              type: "string",
-              description:
-                "A brief description of the document's tone and style",
-            },
-            targetAudience: {
-              type: "string",
-              description:
-                "Identification of the expected target audience for this document",
-            },
-            potentialApplications: {
-              type: "array",
-              items: { type: "string" },
-              description:
-                "2-3 potential applications or use cases for the information in this document",
-            },
-          },
-          required: [
-            "summary",
-            "keywords",
-            "categories",
-            "tags",
-            "keyInsights",
-            "toneAndStyle",
-            "targetAudience",
-            "potentialApplications",
-          ],
-          additionalProperties: false,
-        },
+    responseSchema: classificationSchema,
+  };
+}
+
+export async function gptPrompt(
+  fileName: string,
+  chunk: string,
+  profile: AnalysisProfile,
+  section?: { index: number; total: number; pageStart: number; pageEnd: number }
+): Promise<CompletionRequest> {
+  const prompt: CompletionRequest = {
+    messages: [
+      {
+        role: "system",
+        content: profile.instructions,
       },
-    },
+      {
+        role: "user",
+        content: `Analyze the following ${
+          section
+            ? `part (${section.index} of ${section.total}, ${formatPages(
+                section.pageStart,
+                section.pageEnd
+              )})`
+            : "part"
+        } of the ${profile.label.toLowerCase()} titled "${fileName}":\n\n${chunk}. Please provide a very concise summary (no more than 2-3 sentences) focusing only on the key points without repetition. Leave details that do not appear in this part empty or null.`,
+      },
+    ],
+    responseSchema: analysisSchema(profile),
   };
 
   return prompt;
 }
+
+// 부분 분석 결과들을 문서 전체에 대한 하나의 분석으로 종합합니다.
+export function reducePrompt(
+  fileName: string,
+  partials: string,
+  profile: AnalysisProfile
+): CompletionRequest {
+  return {
+    messages: [
+      {
+        role: "system",
+        content: `${profile.instructions} You combine analyses of consecutive parts of one document into a single analysis of the whole document.`,
+      },
+      {
+        role: "user",
+        content: `The ${profile.label.toLowerCase()} titled "${fileName}" was analyzed in parts, in order. Each partial analysis notes the pages it covers. Here are the partial analyses as JSON:\n\n${partials}\n\nSynthesize one analysis of the entire document. The summary must cover the whole document in 2-3 sentences, not just the last part. Merge duplicate or near-duplicate keywords, insights, categories and tags, and keep the ones that matter most across the whole document. Combine the details from every part, keeping each fact once.`,
+      },
+    ],
+    responseSchema: analysisSchema(profile),
+  };
+}
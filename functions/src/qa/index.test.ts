@@ -0,0 +1,116 @@
+import { LocalHashEmbeddingProvider } from '../embeddings';
+import { buildChunkRecords, filterCitedSources } from '.';
+
+const cosineSimilarity = (a: number[], b: number[]) =>
+  a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+const filler = (word: string, count: number) =>
+  Array.from({ length: count }, (_, index) => `${word}${index}`).join(' ');
+
+describe('buildChunkRecords', () => {
+  const provider = new LocalHashEmbeddingProvider();
+
+  it('stores page ranges and a vector for every chunk', async () => {
+    const records = await buildChunkRecords(
+      ['Revenue grew to 2M ARR.', 'The team has twelve engineers.'],
+      provider
+    );
+
+    expect(
+      records.map(({ pageStart, pageEnd }) => [pageStart, pageEnd])
+    ).toEqual([[1, 2]]);
+    expect(records[0].embedding).toHaveLength(provider.dimensions);
+  });
+
+  it('splits long documents so chunks point at their own pages', async () => {
+    const records = await buildChunkRecords(
+      [filler('alpha', 250), filler('beta', 250), filler('gamma', 250)],
+      provider
+    );
+
+    expect(records.length).toBeGreaterThan(1);
+    expect(records[0].pageStart).toBe(1);
+    expect(records[records.length - 1].pageEnd).toBe(3);
+    records.forEach((record) =>
+      expect(record.pageStart).toBeLessThanOrEqual(record.pageEnd)
+    );
+  });
+
+  it('rejects vectors that do not match the provider dimensions', async () => {
+    const shortVectors = {
+      model: 'broken',
+      dimensions: 8,
+      embed: async (texts: string[]) => texts.map(() => [1, 0, 0]),
+    };
+    await expect(buildChunkRecords(['Text'], shortVectors)).rejects.toThrow(
+      'do not have 8 dimensions'
+    );
+  });
+
+  it('ranks the chunk that shares the question words first', async () => {
+    const records = await buildChunkRecords(
+      [
+        `${filler('market', 250)} customer churn fell to two percent`,
+        `${filler('product', 250)} runway lasts eighteen months of cash`,
+        `${filler('legal', 250)} board seats held by founders`,
+      ],
+      provider
+    );
+    const [question] = await provider.embed([
+      'How many months of runway cash?',
+    ]);
+    const nearest = records
+      .map((record) => ({
+        record,
+        score: cosineSimilarity(record.embedding, question),
+      }))
+      .sort((a, b) => b.score - a.score)[0].record;
+
+    expect(nearest.text).toContain('runway lasts eighteen months');
+  });
+});
+
+describe('filterCitedSources', () => {
+  const sources: Parameters<typeof filterCitedSources>[1] = [
+    {
+      index: 1,
+      fileId: 'deck',
+      fileName: 'deck.pdf',
+      pageStart: 2,
+      pageEnd: 2,
+      excerpt: 'Revenue grew to 2M ARR.',
+    },
+    {
+      index: 2,
+      fileId: 'model',
+      fileName: 'model.xlsx',
+      pageStart: 1,
+      pageEnd: 3,
+      excerpt: 'x'.repeat(400),
+    },
+    {
+      index: 3,
+      fileId: 'memo',
+      fileName: 'memo.pdf',
+      pageStart: 5,
+      pageEnd: 5,
+      excerpt: 'Unused source.',
+    },
+  ];
+
+  it('keeps only sources cited in the answer and shortens excerpts', () => {
+    const citations = filterCitedSources(
+      'ARR is 2M [1] and burn is covered [2][1].',
+      sources
+    );
+
+    expect(citations.map((citation) => citation.index)).toEqual([1, 2]);
+    expect(citations[1].excerpt).toHaveLength(300);
+  });
+
+  it('ignores markers that do not match a source', () => {
+    expect(filterCitedSources('No sources cover this [9].', sources)).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,204 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { createEmbeddingProvider, EmbeddingProvider } from '../embeddings';
+import { chunkPages, formatPages } from '../chunking';
+import { createLLMProvider } from '../llm';
+
+// 검색 조각은 분석 조각보다 작게 잘라 인용이 정확한 페이지를 가리키게 합니다.
+const CHUNK_MAX_TOKENS = 300;
+const CHUNK_OVERLAP_TOKENS = 50;
+const TOP_K = 8;
+const MAX_HISTORY = 6;
+const MAX_EXCERPT = 300;
+
+interface Citation {
+  index: number;
+  fileId: string;
+  fileName: string;
+  pageStart: number;
+  pageEnd: number;
+  excerpt: string;
+}
+
+const chunksRef = (userId: string) =>
+  admin.firestore().collection('users').doc(userId).collection('chunks');
+
+export async function removeDocumentChunks(userId: string, fileId: string) {
+  const snapshot = await chunksRef(userId).where('fileId', '==', fileId).get();
+  const writer = admin.firestore().bulkWriter();
+  snapshot.docs.forEach((chunkDoc) => writer.delete(chunkDoc.ref));
+  await writer.close();
+}
+
+// 문서를 검색 조각으로 나누고 조각마다 임베딩을 계산합니다. 제공자가 말한
+// 차원과 다른 벡터가 오면 색인에 넣을 수 없으므로 실패합니다.
+export async function buildChunkRecords(
+  pages: string[],
+  provider: EmbeddingProvider
+) {
+  const chunks = chunkPages(pages, {
+    maxTokens: CHUNK_MAX_TOKENS,
+    overlapTokens: CHUNK_OVERLAP_TOKENS,
+  });
+  const embeddings = await provider.embed(chunks.map((chunk) => chunk.text));
+  if (embeddings.some((vector) => vector.length !== provider.dimensions)) {
+    throw new Error(
+      `Embeddings from ${provider.model} do not have ${provider.dimensions} dimensions.`
+    );
+  }
+  return chunks.map((chunk, index) => ({
+    pageStart: chunk.pageStart,
+    pageEnd: chunk.pageEnd,
+    text: chunk.text,
+    embedding: embeddings[index],
+  }));
+}
+
+// 문서를 조각내 임베딩을 계산하고 users/{uid}/chunks 에 벡터와 함께 저장합니다.
+// 제공자마다 벡터 차원이 달라 조각마다 임베딩 모델을 남기고, 검색할 때 같은
+// 모델의 조각만 비교합니다.
+export async function indexDocumentChunks(
+  userId: string,
+  fileId: string,
+  fileName: string,
+  pages: string[]
+) {
+  const provider = createEmbeddingProvider();
+  const records = await buildChunkRecords(pages, provider);
+
+  await removeDocumentChunks(userId, fileId);
+  const writer = admin.firestore().bulkWriter();
+  records.forEach((record) =>
+    writer.create(chunksRef(userId).doc(), {
+      fileId,
+      fileName,
+      pageStart: record.pageStart,
+      pageEnd: record.pageEnd,
+      text: record.text,
+      embeddingModel: provider.model,
+      embedding: admin.firestore.FieldValue.vector(record.embedding),
+    })
+  );
+  await writer.close();
+}
+
+// 답변에 [n] 으로 인용된 출처만 남기고 발췌를 줄입니다.
+export function filterCitedSources(answer: string, sources: Citation[]) {
+  const cited = new Set(
+    (answer.match(/\[\d+\]/g) || []).map((marker) =>
+      Number(marker.slice(1, -1))
+    )
+  );
+  return sources
+    .filter((source) => cited.has(source.index))
+    .map((source) => ({
+      ...source,
+      excerpt: source.excerpt.slice(0, MAX_EXCERPT),
+    }));
+}
+
+async function generateAnswer(
+  question: string,
+  history: { role: 'user' | 'assistant'; content: string }[],
+  sources: Citation[]
+): Promise<string> {
+  const context = sources
+    .map(
+      (source) =>
+        `[${source.index}] ${source.fileName}, ${formatPages(
+          source.pageStart,
+          source.pageEnd
+        )}:\n${source.excerpt}`
+    )
+    .join('\n\n');
+
+  return createLLMProvider().complete({
+    temperature: 0,
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You answer questions about a startup data room using only the numbered sources provided. Cite every fact with its source number in square brackets, e.g. [2]. If the sources do not contain the answer, say so.',
+      },
+      ...history.slice(-MAX_HISTORY),
+      {
+        role: 'user',
+        content: `Sources:\n\n${context}\n\nQuestion: ${question}`,
+      },
+    ],
+  });
+}
+
+// 질문과 가까운 조각을 벡터 검색으로 찾아 근거로 주고 답변을 만듭니다.
+// 답변에서 실제로 인용한 출처만 돌려줍니다.
+export const askDataRoom = functions
+  .runWith({ timeoutSeconds: 120, memory: '512MB' })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        'unauthenticated',
+        'The function must be called while authenticated.'
+      );
+    }
+    const question =
+      typeof data?.question === 'string' ? data.question.trim() : '';
+    if (!question) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'A question is required.'
+      );
+    }
+    const history = Array.isArray(data.history)
+      ? data.history.filter(
+          (message: { role?: string; content?: unknown }) =>
+            (message.role === 'user' || message.role === 'assistant') &&
+            typeof message.content === 'string'
+        )
+      : [];
+
+    const userId = context.auth.uid;
+    const provider = createEmbeddingProvider();
+    const [queryVector] = await provider.embed([question]);
+    const snapshot = await chunksRef(userId)
+      .where('embeddingModel', '==', provider.model)
+      .findNearest('embedding', queryVector, {
+        limit: TOP_K,
+        distanceMeasure: 'COSINE',
+      })
+      .get();
+
+    const sources: Citation[] = snapshot.docs.map((chunkDoc, index) => ({
+      index: index + 1,
+      fileId: chunkDoc.data().fileId,
+      fileName: chunkDoc.data().fileName,
+      // 페이지 범위가 없는 이전 조각은 한 페이지짜리로 봅니다.
+      pageStart: chunkDoc.data().pageStart ?? chunkDoc.data().page,
+      pageEnd: chunkDoc.data().pageEnd ?? chunkDoc.data().page,
+      excerpt: chunkDoc.data().text,
+    }));
+    if (sources.length === 0) {
+      return {
+        answer:
+          'No analysed documents are available yet. Upload documents and wait for analysis to finish.',
+        citations: [],
+      };
+    }
+
+    try {
+      const answer = await generateAnswer(question, history, sources);
+      return { answer, citations: filterCitedSources(answer, sources) };
+    } catch (error) {
+      console.error('Error answering question:', error);
+      throw new functions.https.HttpsError(
+        'internal',
+        'Failed to generate an answer.'
+      );
+    }
+  });
+
+// 파일 문서가 지워지면 임베딩 조각도 지웁니다.
+export const cleanupDocumentChunks = functions.firestore
+  .document('users/{userId}/files/{fileId}')
+  .onDelete(async (snapshot, context) => {
+    await removeDocumentChunks(context.params.userId, context.params.fileId);
+  });
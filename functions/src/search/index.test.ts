@@ -0,0 +1,66 @@
+import { buildSnippet, rankDocuments, tokenize } from '.';
+
+describe('tokenize', () => {
+  it('lowercases words and drops stop words and single letters', () => {
+    expect(tokenize('The Revenue of a SaaS company, in 2024!')).toEqual([
+      'revenue',
+      'saas',
+      'company',
+      '2024',
+    ]);
+  });
+
+  it('keeps Korean words and normalizes full-width characters', () => {
+    expect(tokenize('매출 총이익, ＡＢＣ')).toEqual(['매출', '총이익', 'abc']);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('cuts around the first match and highlights every term', () => {
+    const text = `${'x '.repeat(
+      100
+    )}Annual revenue grew while revenue churn fell. ${'y '.repeat(100)}`;
+    const { snippet, highlights } = buildSnippet(text, ['revenue', 'churn']);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(
+      highlights.map(({ start, end }) => snippet.slice(start, end))
+    ).toEqual(['revenue', 'revenue', 'churn']);
+  });
+
+  it('starts at the beginning when no term matches', () => {
+    const { snippet, highlights } = buildSnippet('Short   page\ntext', ['cap']);
+    expect(snippet).toBe('Short page text');
+    expect(highlights).toEqual([]);
+  });
+});
+
+describe('rankDocuments', () => {
+  const postings: Parameters<typeof rankDocuments>[0] = [
+    {
+      revenue: { count: 1, pages: { 1: 1 } },
+      model: { count: 8, pages: { 2: 5, 3: 3 } },
+      deck: { count: 2, pages: { 4: 2 } },
+    },
+    {
+      model: { count: 1, pages: { 3: 1 } },
+      deck: { count: 1, pages: { 4: 1 } },
+    },
+  ];
+
+  it('keeps only documents that contain every term, highest score first', () => {
+    const ranked = rankDocuments(postings, 10);
+    expect(ranked.map((hit) => hit.fileId)).toEqual(['model', 'deck']);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it('prefers pages that contain every term', () => {
+    const [model] = rankDocuments(postings, 10);
+    expect(model.topPages).toEqual([3, 2]);
+  });
+
+  it('returns nothing without terms', () => {
+    expect(rankDocuments([], 10)).toEqual([]);
+  });
+});
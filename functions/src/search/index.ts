@@ -0,0 +1,270 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// 한 페이지 문서가 1MB 제한을 넘지 않도록 본문을 자릅니다.
+const MAX_PAGE_TEXT = 200000;
+const MAX_RESULTS = 20;
+const MAX_PAGES_PER_HIT = 3;
+const SNIPPET_RADIUS = 80;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'with',
+]);
+
+// 글자와 숫자만 남기고 소문자로 바꿔 단어 단위로 나눕니다. 한글처럼
+// 라틴 문자가 아닌 단어도 그대로 색인됩니다.
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map((token) => token.slice(0, 100));
+}
+
+const userRef = (userId: string) =>
+  admin.firestore().collection('users').doc(userId);
+
+const pagesRef = (userId: string, fileId: string) =>
+  userRef(userId).collection('files').doc(fileId).collection('pages');
+
+const searchIndexRef = (userId: string) =>
+  userRef(userId).collection('searchIndex');
+
+// 문서가 색인에 남긴 단어와 페이지 본문을 모두 지웁니다.
+export async function removeDocumentFromIndex(userId: string, fileId: string) {
+  const pagesSnapshot = await pagesRef(userId, fileId).get();
+  const terms = new Set<string>();
+  pagesSnapshot.docs.forEach((pageDoc) =>
+    (pageDoc.data().terms || []).forEach((term: string) => terms.add(term))
+  );
+
+  const writer = admin.firestore().bulkWriter();
+  terms.forEach((term) =>
+    writer.set(
+      searchIndexRef(userId).doc(term),
+      { postings: { [fileId]: admin.firestore.FieldValue.delete() } },
+      { merge: true }
+    )
+  );
+  pagesSnapshot.docs.forEach((pageDoc) => writer.delete(pageDoc.ref));
+  await writer.close();
+}
+
+// 페이지별 본문을 files/{fileId}/pages 에 남기고, 단어마다
+// searchIndex/{term} 문서에 페이지별 등장 횟수를 기록합니다.
+// postings 는 문서 ID 로만 읽으므로 firestore.indexes.json 에서 색인을 끕니다.
+export async function indexDocumentPages(
+  userId: string,
+  fileId: string,
+  pages: string[]
+) {
+  await removeDocumentFromIndex(userId, fileId);
+
+  const postings = new Map<string, { [page: number]: number }>();
+  const writer = admin.firestore().bulkWriter();
+
+  pages.forEach((text, index) => {
+    const page = index + 1;
+    const terms = tokenize(text);
+    terms.forEach((term) => {
+      const pageCounts = postings.get(term) || {};
+      pageCounts[page] = (pageCounts[page] || 0) + 1;
+      postings.set(term, pageCounts);
+    });
+    writer.set(pagesRef(userId, fileId).doc(String(page)), {
+      page,
+      text: text.slice(0, MAX_PAGE_TEXT),
+      terms: Array.from(new Set(terms)),
+    });
+  });
+
+  postings.forEach((pageCounts, term) => {
+    const count = Object.values(pageCounts).reduce((sum, n) => sum + n, 0);
+    writer.set(
+      searchIndexRef(userId).doc(term),
+      { postings: { [fileId]: { count, pages: pageCounts } } },
+      { merge: true }
+    );
+  });
+  await writer.close();
+}
+
+interface Highlight {
+  start: number;
+  end: number;
+}
+
+// 검색어가 처음 나오는 곳 앞뒤를 잘라 스니펫을 만들고, 스니펫 안에서
+// 검색어가 나오는 위치를 함께 돌려줍니다.
+export function buildSnippet(
+  text: string,
+  terms: string[]
+): { snippet: string; highlights: Highlight[] } {
+  const lowerText = text.toLowerCase();
+  const firstMatch = terms
+    .map((term) => lowerText.indexOf(term))
+    .filter((position) => position >= 0)
+    .sort((a, b) => a - b)[0];
+  const start = Math.max(0, (firstMatch ?? 0) - SNIPPET_RADIUS);
+  const end = Math.min(text.length, (firstMatch ?? 0) + SNIPPET_RADIUS * 2);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const body = text.slice(start, end).replace(/\s+/g, ' ');
+  const snippet = `${prefix}${body}${suffix}`;
+
+  const lowerSnippet = snippet.toLowerCase();
+  const highlights: Highlight[] = [];
+  terms.forEach((term) => {
+    let position = lowerSnippet.indexOf(term);
+    while (position >= 0) {
+      highlights.push({ start: position, end: position + term.length });
+      position = lowerSnippet.indexOf(term, position + term.length);
+    }
+  });
+  highlights.sort((a, b) => a.start - b.start);
+
+  return { snippet, highlights };
+}
+
+interface Posting {
+  count: number;
+  pages: { [page: string]: number };
+}
+
+// 모든 검색어를 포함한 문서를 TF-IDF 점수 순으로 세우고, 문서마다 근거로
+// 보여줄 페이지를 고릅니다. termPostings 는 검색어 순서대로의 색인입니다.
+export function rankDocuments(
+  termPostings: Record<string, Posting>[],
+  fileCount: number
+): { fileId: string; score: number; topPages: number[] }[] {
+  if (termPostings.length === 0) return [];
+  const candidateIds = Object.keys(termPostings[0]).filter((fileId) =>
+    termPostings.every((postings) => postings[fileId])
+  );
+
+  return candidateIds
+    .map((fileId) => {
+      const pageScores: { [page: string]: number } = {};
+      let score = 0;
+      termPostings.forEach((postings) => {
+        const posting = postings[fileId];
+        const idf = Math.log(
+          1 + fileCount / Math.max(1, Object.keys(postings).length)
+        );
+        score += Math.log(1 + posting.count) * idf;
+        Object.entries(posting.pages).forEach(([page, count]) => {
+          pageScores[page] = (pageScores[page] || 0) + count * idf;
+        });
+      });
+      // 모든 검색어가 나온 페이지를 먼저, 그 안에서는 점수 순으로 고릅니다.
+      const topPages = Object.keys(pageScores)
+        .map(Number)
+        .sort((a, b) => {
+          const coverage = (page: number) =>
+            termPostings.filter((postings) => postings[fileId].pages[page])
+              .length;
+          return (
+            coverage(b) - coverage(a) || pageScores[b] - pageScores[a] || a - b
+          );
+        })
+        .slice(0, MAX_PAGES_PER_HIT);
+      return { fileId, score, topPages };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS);
+}
+
+// 모든 검색어를 포함한 문서만 TF-IDF 점수 순으로 돌려줍니다.
+export const searchDocuments = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError(
+      'unauthenticated',
+      'The function must be called while authenticated.'
+    );
+  }
+  if (typeof data?.query !== 'string') {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      'A search query is required.'
+    );
+  }
+
+  const userId = context.auth.uid;
+  const terms = Array.from(new Set(tokenize(data.query))).slice(0, 10);
+  if (terms.length === 0) {
+    return { hits: [] };
+  }
+
+  const termDocs = await admin
+    .firestore()
+    .getAll(...terms.map((term) => searchIndexRef(userId).doc(term)));
+  const termPostings = termDocs.map(
+    (termDoc) => (termDoc.data()?.postings || {}) as Record<string, Posting>
+  );
+
+  const candidateIds = Object.keys(termPostings[0]).filter((fileId) =>
+    termPostings.every((postings) => postings[fileId])
+  );
+  if (candidateIds.length === 0) {
+    return { hits: [] };
+  }
+
+  const fileCount = (
+    await userRef(userId).collection('files').count().get()
+  ).data().count;
+  const ranked = rankDocuments(termPostings, fileCount);
+
+  const hits = await Promise.all(
+    ranked.map(async ({ fileId, score, topPages }) => {
+      const [fileDoc, ...pageDocs] = await admin
+        .firestore()
+        .getAll(
+          userRef(userId).collection('files').doc(fileId),
+          ...topPages.map((page) => pagesRef(userId, fileId).doc(String(page)))
+        );
+      return {
+        fileId,
+        fileName: fileDoc.data()?.name || fileId,
+        score,
+        pages: pageDocs
+          .filter((pageDoc) => pageDoc.exists)
+          .map((pageDoc) => ({
+            page: pageDoc.data()?.page as number,
+            ...buildSnippet(pageDoc.data()?.text || '', terms),
+          })),
+      };
+    })
+  );
+
+  return { hits };
+});
+
+// 파일 문서가 지워지면 색인과 페이지 본문도 정리합니다.
+export const cleanupSearchIndex = functions.firestore
+  .document('users/{userId}/files/{fileId}')
+  .onDelete(async (snapshot, context) => {
+    await removeDocumentFromIndex(context.params.userId, context.params.fileId);
+  });
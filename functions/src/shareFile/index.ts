@@ -1,6 +1,9 @@
 import * as crypto from 'crypto';
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import { loadNdaTemplate } from '../nda/gate';
+import { createMailTransport } from '../mailer';
+import { renderShareInvitation } from '../mailer/templates';
 
 export const shareFile = functions.https.onCall(async (data, context) => {
   if (!context.auth) {
@@ -9,8 +12,18 @@ export const shareFile = functions.https.onCall(async (data, context) => {
       'The function must be called while authenticated.'
     );
   }
-  const { fileId, recipientEmail, expirationDays, downloadable, requireNDA } =
-    data;
+  const {
+    fileId,
+    recipientEmail,
+    expirationDays,
+    downloadable,
+    requireNDA,
+    ndaTemplateId,
+  } = data;
+  // NDA가 필요한 공유는 공유 시점에 사용할 템플릿을 고정합니다.
+  const ndaTemplate = requireNDA
+    ? await loadNdaTemplate(context.auth.uid, ndaTemplateId)
+    : null;
   // 공유 링크 생성
   const shareId = crypto.randomBytes(16).toString('hex');
   const expirationDate = new Date();
@@ -23,16 +36,56 @@ export const shareFile = functions.https.onCall(async (data, context) => {
     expirationDate,
     downloadable,
     requireNDA,
+    ndaTemplateId: ndaTemplate ? ndaTemplate.id : null,
     createdBy: context.auth.uid,
     createdAt: admin.firestore.FieldValue.serverTimestamp(),
   };
-  await admin.firestore().collection('shares').doc(shareId).set(shareData);
+  const shareRef = admin.firestore().collection('shares').doc(shareId);
+  await shareRef.set(shareData);
   // 공유 링크 생성
   const shareLink = `https://${process.env.FIREBASE_PROJECT_ID}.web.app/share/${shareId}`;
-  // TODO: 이메일 전송 로직 구현
+  // 초대 이메일 전송. 발송에 실패해도 공유 자체는 유지하고 결과만 기록합니다.
+  let emailSent = false;
+  try {
+    const [owner, fileDoc] = await Promise.all([
+      admin.auth().getUser(context.auth.uid),
+      admin
+        .firestore()
+        .collection('users')
+        .doc(context.auth.uid)
+        .collection('files')
+        .doc(fileId)
+        .get(),
+    ]);
+    const message = renderShareInvitation({
+      recipientEmail,
+      ownerName: owner.displayName || owner.email || 'A OneVDR user',
+      fileName: fileDoc.data()?.name || fileId,
+      shareLink,
+      expirationDate,
+      requireNDA: !!requireNDA,
+      downloadable: !!downloadable,
+    });
+    const { messageId } = await createMailTransport().send(message);
+    await shareRef.update({
+      emailStatus: 'sent',
+      emailMessageId: messageId,
+      emailSentAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    emailSent = true;
+  } catch (error) {
+    console.error('Error sending share invitation:', error);
+    await shareRef.update({
+      emailStatus: 'failed',
+      emailError: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
   return {
     success: true,
-    message: 'File shared successfully',
+    message: emailSent
+      ? 'File shared successfully'
+      : 'File shared successfully, but the invitation email could not be sent',
     shareLink,
+    emailSent,
   };
 });
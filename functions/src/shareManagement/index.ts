@@ -0,0 +1,77 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+const MAX_EXTENSION_DAYS = 365;
+
+async function loadOwnedShare(
+  shareId: unknown,
+  context: functions.https.CallableContext
+) {
+  if (!context.auth) {
+    throw new functions.https.HttpsError(
+      'unauthenticated',
+      'The function must be called while authenticated.'
+    );
+  }
+  if (!shareId || typeof shareId !== 'string') {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      'A share ID is required.'
+    );
+  }
+
+  const shareRef = admin.firestore().collection('shares').doc(shareId);
+  const shareDoc = await shareRef.get();
+  // 다른 사용자의 공유는 존재 여부도 드러내지 않습니다.
+  if (!shareDoc.exists || shareDoc.data()?.createdBy !== context.auth.uid) {
+    throw new functions.https.HttpsError('not-found', 'Share not found.');
+  }
+
+  return { shareRef, share: shareDoc.data()! };
+}
+
+export const revokeShare = functions.https.onCall(async (data, context) => {
+  const { shareRef } = await loadOwnedShare(data?.shareId, context);
+  await shareRef.update({
+    revoked: true,
+    revokedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return { success: true };
+});
+
+export const extendShare = functions.https.onCall(async (data, context) => {
+  const { shareRef, share } = await loadOwnedShare(data?.shareId, context);
+
+  const days = Number(data.days);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_EXTENSION_DAYS) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `Extension must be between 1 and ${MAX_EXTENSION_DAYS} days.`
+    );
+  }
+
+  // 이미 만료된 공유는 지금부터 연장합니다.
+  const currentExpiration: Date = share.expirationDate.toDate();
+  const expirationDate = new Date(
+    Math.max(currentExpiration.getTime(), Date.now())
+  );
+  expirationDate.setDate(expirationDate.getDate() + days);
+
+  await shareRef.update({ expirationDate });
+  return { success: true, expirationDate: expirationDate.toISOString() };
+});
+
+export const setShareDownloadable = functions.https.onCall(
+  async (data, context) => {
+    const { shareRef } = await loadOwnedShare(data?.shareId, context);
+    if (typeof data.downloadable !== 'boolean') {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'downloadable must be a boolean.'
+      );
+    }
+
+    await shareRef.update({ downloadable: data.downloadable });
+    return { success: true };
+  }
+);
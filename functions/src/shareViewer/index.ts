@@ -0,0 +1,208 @@
+import * as cors from 'cors';
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { PDF_CONTENT_TYPE } from '../extract';
+import { assertNdaAccepted, getNdaGate, NdaGate } from '../nda/gate';
+import { getWatermarkedFile } from '../watermark';
+
+const corsHandler = cors({ origin: true });
+
+// 서명된 URL은 뷰어가 파일을 여는 동안만 유효하면 됩니다.
+const SIGNED_URL_TTL_MS = 5 * 60 * 1000;
+
+export interface ShareData {
+  fileId: string;
+  shareId: string;
+  recipientEmail: string;
+  expirationDate: admin.firestore.Timestamp;
+  downloadable: boolean;
+  requireNDA: boolean;
+  ndaTemplateId?: string | null;
+  createdBy: string;
+  revoked?: boolean;
+}
+
+export async function loadActiveShare(shareId: unknown): Promise<ShareData> {
+  if (!shareId || typeof shareId !== 'string') {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      'A share ID is required.'
+    );
+  }
+
+  const shareDoc = await admin
+    .firestore()
+    .collection('shares')
+    .doc(shareId)
+    .get();
+  if (!shareDoc.exists) {
+    throw new functions.https.HttpsError(
+      'not-found',
+      'This share link does not exist.'
+    );
+  }
+
+  const share = shareDoc.data() as ShareData;
+  if (share.revoked) {
+    throw new functions.https.HttpsError(
+      'permission-denied',
+      'This share link has been revoked.'
+    );
+  }
+  if (share.expirationDate.toMillis() < Date.now()) {
+    throw new functions.https.HttpsError(
+      'failed-precondition',
+      'This share link has expired.'
+    );
+  }
+
+  return share;
+}
+
+interface SharedFileDoc {
+  name: string;
+  storagePath: string;
+  contentType: string;
+}
+
+async function loadSharedFileDoc(share: ShareData): Promise<SharedFileDoc> {
+  const fileDoc = await admin
+    .firestore()
+    .collection('users')
+    .doc(share.createdBy)
+    .collection('files')
+    .doc(share.fileId)
+    .get();
+  if (!fileDoc.exists) {
+    throw new functions.https.HttpsError(
+      'not-found',
+      'The shared file is no longer available.'
+    );
+  }
+
+  // storagePath 가 없는 문서는 PDF 만 지원하던 시절의 pdfs/ 경로에 있습니다.
+  const data = fileDoc.data()!;
+  return {
+    name: data.name || share.fileId,
+    storagePath:
+      data.storagePath || `users/${share.createdBy}/pdfs/${share.fileId}`,
+    contentType: data.contentType || PDF_CONTENT_TYPE,
+  };
+}
+
+// 열람자에게는 원본 대신 항상 워터마크가 찍힌 파생본만 제공합니다.
+// PDF 가 아닌 형식은 워터마크를 넣을 수 없어 원본을 그대로 내려줍니다.
+async function getSharedStorageFile(
+  share: ShareData,
+  fileDoc: SharedFileDoc,
+  ndaGate: NdaGate
+) {
+  const source = admin.storage().bucket().file(fileDoc.storagePath);
+  if (fileDoc.contentType !== PDF_CONTENT_TYPE) {
+    return source;
+  }
+  const viewer = ndaGate.acceptance
+    ? { email: ndaGate.acceptance.email, cacheKey: ndaGate.acceptance.id }
+    : { email: share.recipientEmail, cacheKey: 'recipient' };
+  return getWatermarkedFile(source, share.createdBy, share.shareId, viewer);
+}
+
+export const getSharedFile = functions.https.onCall(async (data) => {
+  const share = await loadActiveShare(data?.shareId);
+  const fileDoc = await loadSharedFileDoc(share);
+  const fileName = fileDoc.name;
+  const contentType = fileDoc.contentType;
+  const expirationDate = share.expirationDate.toDate().toISOString();
+
+  const ndaGate = await getNdaGate(share, data?.acceptanceId);
+  if (!ndaGate.accepted && ndaGate.template) {
+    return {
+      fileName,
+      contentType,
+      url: null,
+      urlExpiresAt: null,
+      downloadable: share.downloadable,
+      requireNDA: true,
+      ndaAccepted: false,
+      nda: {
+        title: ndaGate.template.title,
+        body: ndaGate.template.body,
+        version: ndaGate.template.version,
+      },
+      expirationDate,
+    };
+  }
+
+  // 다운로드가 허용되지 않은 공유에는 스토리지 URL을 절대 내려주지 않습니다.
+  let url: string | null = null;
+  let urlExpiresAt: string | null = null;
+  if (share.downloadable) {
+    const expires = Date.now() + SIGNED_URL_TTL_MS;
+    const file = await getSharedStorageFile(share, fileDoc, ndaGate);
+    [url] = await file.getSignedUrl({
+      action: 'read',
+      expires,
+    });
+    urlExpiresAt = new Date(expires).toISOString();
+  }
+
+  return {
+    fileName,
+    contentType,
+    url,
+    urlExpiresAt,
+    downloadable: share.downloadable,
+    requireNDA: share.requireNDA,
+    ndaAccepted: true,
+    nda: null,
+    expirationDate,
+  };
+});
+
+// 뷰어 렌더링 전용 스트림입니다. 브라우저 캐시나 저장 대화상자에 남지 않도록
+// inline + no-store 로 내려보냅니다.
+export const viewSharedFile = functions.https.onRequest((request, response) => {
+  corsHandler(request, response, async () => {
+    try {
+      const share = await loadActiveShare(request.query.shareId);
+      const ndaGate = await assertNdaAccepted(
+        share,
+        request.query.acceptanceId
+      );
+      const fileDoc = await loadSharedFileDoc(share);
+      if (fileDoc.contentType !== PDF_CONTENT_TYPE) {
+        response
+          .status(415)
+          .send('Inline preview is only available for PDF files.');
+        return;
+      }
+      const file = await getSharedStorageFile(share, fileDoc, ndaGate);
+
+      response.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'inline',
+        'Cache-Control': 'no-store, private',
+      });
+      file
+        .createReadStream()
+        .on('error', (error) => {
+          console.error('Error streaming shared file:', error);
+          if (!response.headersSent) {
+            response
+              .status(404)
+              .send('The shared file is no longer available.');
+          } else {
+            response.end();
+          }
+        })
+        .pipe(response);
+    } catch (error) {
+      console.error('Error in viewSharedFile:', error);
+      if (error instanceof functions.https.HttpsError) {
+        response.status(error.httpErrorCode.status).send(error.message);
+      } else {
+        response.status(500).send('Internal Server Error');
+      }
+    }
+  });
+});
@@ -0,0 +1,48 @@
+// 업로드한 문서의 스토리지 경로 규칙입니다. 클라이언트의
+// src/services/firebase.ts 에 있는 buildFileStoragePath 도 이 규칙을 따릅니다.
+const UNSAFE_CHARACTERS = /[/\\#?[\]*]/g;
+
+// 파일 이름은 경로 구분자나 제어 문자가 섞여도 객체 이름을 깨뜨리지 않도록
+// 치환합니다.
+export function toSafeFileName(name: string): string {
+  const safeName = Array.from(name.replace(UNSAFE_CHARACTERS, '_'))
+    .map((char) => (char < ' ' || char === '\x7f' ? '_' : char))
+    .join('')
+    .trim()
+    .slice(0, 200);
+  return safeName || 'file';
+}
+
+// 버전마다 별도의 객체로 저장해 이전 버전을 덮어쓰지 않습니다.
+export function buildFileStoragePath(
+  userId: string,
+  fileId: string,
+  versionId: string,
+  name: string
+): string {
+  return `users/${userId}/files/${fileId}/versions/${versionId}/${toSafeFileName(
+    name
+  )}`;
+}
+
+// users/{uid}/files/{fileId}/versions/{versionId}/{fileName} 또는 버전 관리
+// 이전의 users/{uid}/files/{fileId}/{fileName} 경로를 해석합니다.
+export function parseFileStoragePath(filePath: string) {
+  const match = filePath.match(
+    /^users\/([^/]+)\/files\/([^/]+)\/(?:versions\/([^/]+)\/)?([^/]+)$/
+  );
+  if (!match) return null;
+  const [, userId, fileId, versionId, fileName] = match;
+  return { userId, fileId, versionId, fileName };
+}
+
+// Firebase 클라이언트 SDK 의 getDownloadURL 과 같은 형식의 주소입니다.
+export function buildDownloadUrl(
+  bucketName: string,
+  storagePath: string,
+  token: string
+): string {
+  return `https://firebasestorage.googleapis.com/v0/b/${bucketName}/o/${encodeURIComponent(
+    storagePath
+  )}?alt=media&token=${token}`;
+}
@@ -0,0 +1,139 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { extractDocument } from '../extract';
+import { indexCurrentVersion } from '../pdf';
+import { queueAnalysisJob } from '../analysisQueue';
+import {
+  StoredFinancialRecord,
+  extractFinancials,
+  loadFinancials,
+  replaceFinancials,
+} from '../financials';
+import { REVIEWED_DOCUMENT_TYPES, reviewContract } from '../legalReview';
+
+// 예전 버전을 현재 버전으로 되돌립니다. 파일 문서만 바꾸면 검색 색인,
+// 질의응답 조각, 재무 표, 법률 검토가 새 버전의 내용을 계속 가리키므로,
+// 되돌린 버전의 저장된 객체로 모두 다시 만듭니다. 분석이 끝나지 않은
+// 버전은 분석 작업을 다시 큐에 넣습니다.
+export const restoreFileVersion = functions
+  .runWith({ timeoutSeconds: 300, memory: '1GB' })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        'unauthenticated',
+        'The function must be called while authenticated.'
+      );
+    }
+    if (
+      typeof data?.fileId !== 'string' ||
+      !data.fileId ||
+      typeof data?.versionId !== 'string' ||
+      !data.versionId
+    ) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        'A file ID and a version ID are required.'
+      );
+    }
+
+    const userId = context.auth.uid;
+    const fileId: string = data.fileId;
+    const versionId: string = data.versionId;
+    const fileRef = admin
+      .firestore()
+      .collection('users')
+      .doc(userId)
+      .collection('files')
+      .doc(fileId);
+    const versionRef = fileRef.collection('versions').doc(versionId);
+    const [fileDoc, versionDoc] = await Promise.all([
+      fileRef.get(),
+      versionRef.get(),
+    ]);
+    const version = versionDoc.data();
+    if (!fileDoc.exists || !version) {
+      throw new functions.https.HttpsError('not-found', 'Version not found.');
+    }
+    if (!version.storagePath) {
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        'This version has no stored file.'
+      );
+    }
+
+    // 지금 버전의 재무 표를 고친 행까지 그 버전 문서에 남겨, 다시 그 버전으로
+    // 돌아올 때 되살립니다.
+    const currentVersionId = fileDoc.data()?.currentVersionId;
+    if (currentVersionId && currentVersionId !== versionId) {
+      const currentVersionRef = fileRef
+        .collection('versions')
+        .doc(currentVersionId);
+      if ((await currentVersionRef.get()).exists) {
+        await currentVersionRef.update({
+          financials: await loadFinancials(userId, fileId),
+        });
+      }
+    }
+
+    const analyzed =
+      version.status === 'completed' && typeof version.analysis === 'object';
+    await fileRef.update({
+      name: version.name,
+      url: version.url,
+      storagePath: version.storagePath,
+      contentType: version.contentType || admin.firestore.FieldValue.delete(),
+      size: version.size,
+      uploadDate: version.uploadDate,
+      analysis: version.analysis,
+      status: analyzed ? 'completed' : 'queued',
+      legalReview: version.legalReview || admin.firestore.FieldValue.delete(),
+      currentVersionId: versionId,
+    });
+
+    if (!analyzed) {
+      await queueAnalysisJob(userId, {
+        fileId,
+        versionId,
+        storagePath: version.storagePath,
+        fileName: version.name,
+      });
+      return { reanalyzing: true };
+    }
+
+    try {
+      const { pages } = await extractDocument(
+        admin.storage().bucket().file(version.storagePath),
+        version.name
+      );
+      await indexCurrentVersion(userId, fileId, version.name, pages);
+
+      // 재무 수치나 법률 검토가 생기기 전에 분석한 버전은 여기서 한 번 만들어
+      // 버전 문서에 남깁니다.
+      const documentType = version.analysis.documentType;
+      let financials: StoredFinancialRecord[] | undefined = version.financials;
+      if (!financials) {
+        financials =
+          documentType === 'financialStatements'
+            ? await extractFinancials(version.name, pages)
+            : [];
+      }
+      await replaceFinancials(userId, fileId, financials);
+
+      let legalReview = version.legalReview;
+      if (!legalReview && REVIEWED_DOCUMENT_TYPES.includes(documentType)) {
+        legalReview = await reviewContract(version.name, pages);
+        await fileRef.update({ legalReview });
+      }
+      await versionRef.update({
+        financials,
+        ...(legalReview && { legalReview }),
+      });
+      return { reanalyzing: false };
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      throw new functions.https.HttpsError(
+        'internal',
+        'The version was restored but could not be re-indexed.'
+      );
+    }
+  });
@@ -0,0 +1,19 @@
+import { PDFDocument } from 'pdf-lib';
+import { extractPdfPages } from '../extract/pdf';
+import { applyWatermark } from '.';
+
+describe('applyWatermark', () => {
+  it('stamps a Korean viewer name onto every page', async () => {
+    const source = await PDFDocument.create();
+    source.addPage();
+    source.addPage();
+    const bytes = await applyWatermark(
+      Buffer.from(await source.save()),
+      '김철수 · chulsoo@example.com'
+    );
+    const pages = await extractPdfPages(Buffer.from(bytes));
+
+    expect(pages).toHaveLength(2);
+    pages.forEach((page) => expect(page).toContain('김철수'));
+  });
+});
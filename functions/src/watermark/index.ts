@@ -0,0 +1,94 @@
+import * as admin from 'firebase-admin';
+import { degrees, PDFDocument, rgb } from 'pdf-lib';
+import { embedUnicodeFont } from '../fonts';
+
+type StorageFile = ReturnType<
+  ReturnType<admin.storage.Storage['bucket']>['file']
+>;
+
+export interface WatermarkViewer {
+  email: string;
+  // 같은 공유라도 NDA에 동의한 사람마다 별도의 파생본을 만듭니다.
+  cacheKey: string;
+}
+
+const WATERMARK_FONT_SIZE = 18;
+const WATERMARK_ROWS = 3;
+
+export async function applyWatermark(
+  sourceBytes: Buffer,
+  text: string
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(sourceBytes, {
+    ignoreEncryption: true,
+  });
+  const font = await embedUnicodeFont(pdfDoc);
+  // 줄바꿈 같은 제어 문자는 한 줄로 그릴 수 없으므로 공백으로 바꿉니다.
+  const watermarkText = text.replace(/[\x00-\x1F\x7F]/g, ' ');
+  const textWidth = font.widthOfTextAtSize(watermarkText, WATERMARK_FONT_SIZE);
+
+  for (const page of pdfDoc.getPages()) {
+    const { width, height } = page.getSize();
+    // 45도로 회전한 텍스트가 페이지 중앙 대각선을 지나도록 시작점을 잡습니다.
+    const offset = (textWidth / 2) * Math.SQRT1_2;
+    for (let row = 1; row <= WATERMARK_ROWS; row++) {
+      const centerY = (height * row) / (WATERMARK_ROWS + 1);
+      page.drawText(watermarkText, {
+        x: width / 2 - offset,
+        y: centerY - offset,
+        size: WATERMARK_FONT_SIZE,
+        font,
+        color: rgb(0.5, 0.5, 0.5),
+        opacity: 0.25,
+        rotate: degrees(45),
+      });
+    }
+  }
+
+  return pdfDoc.save();
+}
+
+// 공유/열람자별로 워터마크 파생본을 캐시하고, 원본이 바뀌면 다시 생성합니다.
+export async function getWatermarkedFile(
+  source: StorageFile,
+  ownerId: string,
+  shareId: string,
+  viewer: WatermarkViewer
+): Promise<StorageFile> {
+  const derivative = admin
+    .storage()
+    .bucket()
+    .file(`users/${ownerId}/watermarks/${shareId}/${viewer.cacheKey}.pdf`);
+
+  const [sourceMetadata] = await source.getMetadata();
+  const sourceGeneration = String(sourceMetadata.generation);
+
+  const [exists] = await derivative.exists();
+  if (exists) {
+    const [metadata] = await derivative.getMetadata();
+    if (metadata.metadata?.sourceGeneration === sourceGeneration) {
+      return derivative;
+    }
+  }
+
+  const [sourceBytes] = await source.download();
+  const stampedAt = new Date().toISOString();
+  const watermarked = await applyWatermark(
+    sourceBytes,
+    `${viewer.email} | ${shareId} | ${stampedAt}`
+  );
+
+  await derivative.save(Buffer.from(watermarked), {
+    contentType: 'application/pdf',
+    metadata: {
+      metadata: {
+        sourceGeneration,
+        shareId,
+        viewerEmail: viewer.email,
+        stampedAt,
+      },
+    },
+  });
+
+  return derivative;
+}
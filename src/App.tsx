@@ -18,6 +18,9 @@ import { Box } from '@mui/material';
 import { getAuth, getRedirectResult } from 'firebase/auth';
 import NotFound from './components/NotFound';
 import InvestmentPipeline from './pages/InvestmentPipeline';
+import ShareViewer from './pages/ShareViewer';
+import NDAs from './pages/NDAs';
+import Shares from './pages/Shares';
 
 const theme = createTheme({
   palette: {
@@ -33,7 +36,9 @@ const theme = createTheme({
 const AppContent: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const hideSidebar = ['/', '/auth'].includes(location.pathname);
+  const hideSidebar =
+    ['/', '/auth'].includes(location.pathname) ||
+    location.pathname.startsWith('/share/');
 
   useEffect(() => {
     const auth = getAuth();
@@ -69,6 +74,9 @@ const AppContent: React.FC = () => {
           <Route path="/dataroom" element={<DataRoom />} />
           <Route path="/email" element={<Email />} />
           <Route path="/investment-pipeline" element={<InvestmentPipeline />} />
+          <Route path="/shares" element={<Shares />} />
+          <Route path="/ndas" element={<NDAs />} />
+          <Route path="/share/:shareId" element={<ShareViewer />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </Box>
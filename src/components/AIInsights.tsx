@@ -7,7 +7,9 @@ import {
   Chip,
   CircularProgress,
 } from '@mui/material';
-import { analyzeDocuments } from '../services/ai';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { auth } from '../services/firebase';
+import { analyzeDocuments, FinancialProjections } from '../services/ai';
 
 interface Insights {
   summary: string;
@@ -15,9 +17,27 @@ interface Insights {
   investmentReadiness: number;
   riskFactors: string[];
   potentialInvestors: string[];
+  financialProjections: FinancialProjections | null;
 }
 
+// 사용자가 고친 통화 표기가 ISO 코드가 아니면 숫자만 보여 줍니다.
+const formatAmount = (value: number, currency: string | null) => {
+  try {
+    if (currency) {
+      return value.toLocaleString(undefined, {
+        style: 'currency',
+        currency,
+        maximumFractionDigits: 0,
+      });
+    }
+  } catch (error) {
+    console.warn('Unknown currency code:', currency);
+  }
+  return value.toLocaleString();
+};
+
 const AIInsights: React.FC = () => {
+  const [user] = useAuthState(auth);
   const [insights, setInsights] = useState<Insights | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -25,7 +45,7 @@ const AIInsights: React.FC = () => {
     const fetchInsights = async () => {
       setLoading(true);
       try {
-        const result = await analyzeDocuments([]); // 빈 배열 전달
+        const result = await analyzeDocuments([], user?.uid); // 빈 배열 전달
         setInsights(result);
       } catch (error) {
         console.error('Error fetching AI insights:', error);
@@ -34,7 +54,7 @@ const AIInsights: React.FC = () => {
       }
     };
     fetchInsights();
-  }, []);
+  }, [user]);
 
   if (loading) {
     return (
@@ -49,6 +69,8 @@ const AIInsights: React.FC = () => {
     );
   }
 
+  const financials = insights?.financialProjections;
+
   return (
     <Box>
       <Typography variant="h6" gutterBottom>
@@ -84,6 +106,39 @@ const AIInsights: React.FC = () => {
                 />
               ))}
             </Box>
+            {financials && (
+              <Box mb={2}>
+                <Typography variant="subtitle1" gutterBottom>
+                  Financials ({financials.period}):
+                </Typography>
+                {[
+                  ['Revenue', financials.revenue],
+                  ['Expenses', financials.expenses],
+                  ['Profit', financials.profit],
+                  ['Cash', financials.cash],
+                  ['Monthly Burn', financials.monthlyBurn],
+                ]
+                  .filter(([, value]) => value !== null)
+                  .map(([label, value]) => (
+                    <Chip
+                      key={label as string}
+                      label={`${label}: ${formatAmount(
+                        value as number,
+                        financials.currency
+                      )}`}
+                      variant="outlined"
+                      sx={{ mr: 1, mb: 1 }}
+                    />
+                  ))}
+                {financials.runwayMonths !== null && (
+                  <Chip
+                    label={`Runway: ${financials.runwayMonths} months`}
+                    color="info"
+                    sx={{ mr: 1, mb: 1 }}
+                  />
+                )}
+              </Box>
+            )}
             <Typography variant="subtitle1" gutterBottom>
               Potential Investors:
             </Typography>
@@ -0,0 +1,260 @@
+import React from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import {
+  AnalysisResult,
+  CapTableDetails,
+  CustomerContractDetails,
+  DocumentType,
+  FinancialStatementsDetails,
+  GeneralDetails,
+  Holding,
+  LegalContractDetails,
+  PitchDeckDetails,
+} from '../types';
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  general: 'General document',
+  pitchDeck: 'Pitch deck',
+  financialStatements: 'Financial statements',
+  legalContract: 'Legal contract',
+  capTable: 'Cap table',
+  customerContract: 'Customer contract',
+};
+
+// 문서에 나오지 않아 비어 있는 항목은 그리지 않습니다.
+const Field: React.FC<{ label: string; value?: string | null }> = ({
+  label,
+  value,
+}) =>
+  value ? (
+    <Box sx={{ mb: 2 }}>
+      <Typography variant="subtitle2" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="body1">{value}</Typography>
+    </Box>
+  ) : null;
+
+const ListField: React.FC<{ label: string; items?: string[] }> = ({
+  label,
+  items,
+}) =>
+  items && items.length > 0 ? (
+    <Box sx={{ mb: 2 }}>
+      <Typography variant="subtitle2" color="text.secondary">
+        {label}
+      </Typography>
+      <Box component="ul" sx={{ mt: 0.5, mb: 0, pl: 3 }}>
+        {items.map((item, index) => (
+          <Typography component="li" variant="body1" key={index}>
+            {item}
+          </Typography>
+        ))}
+      </Box>
+    </Box>
+  ) : null;
+
+const TableField: React.FC<{
+  label: string;
+  columns: string[];
+  rows: (string | null)[][];
+}> = ({ label, columns, rows }) =>
+  rows.length > 0 ? (
+    <Box sx={{ mb: 2 }}>
+      <Typography variant="subtitle2" color="text.secondary">
+        {label}
+      </Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            {columns.map((column) => (
+              <TableCell key={column}>{column}</TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((row, index) => (
+            <TableRow key={index}>
+              {row.map((cell, cellIndex) => (
+                <TableCell key={cellIndex}>{cell || '—'}</TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  ) : null;
+
+const holdingRows = (holdings?: Holding[]) =>
+  (holdings || []).map((holding) => [
+    holding.name,
+    holding.shares,
+    holding.ownershipPercent,
+  ]);
+
+const GeneralSection: React.FC<{ details: GeneralDetails }> = ({ details }) => (
+  <>
+    <Field label="Tone and Style" value={details.toneAndStyle} />
+    <Field label="Target Audience" value={details.targetAudience} />
+    <ListField
+      label="Potential Applications"
+      items={details.potentialApplications}
+    />
+  </>
+);
+
+const PitchDeckSection: React.FC<{ details: PitchDeckDetails }> = ({
+  details,
+}) => (
+  <>
+    <Field label="Company" value={details.companyName} />
+    <Field label="Problem" value={details.problem} />
+    <Field label="Solution" value={details.solution} />
+    <Field label="Market" value={details.market} />
+    <Field label="Business Model" value={details.businessModel} />
+    <ListField label="Traction" items={details.traction} />
+    <ListField label="Team" items={details.team} />
+    <ListField label="Competition" items={details.competition} />
+    <Field label="Fundraising Ask" value={details.fundraisingAsk} />
+    <ListField label="Use of Funds" items={details.useOfFunds} />
+  </>
+);
+
+const FinancialStatementsSection: React.FC<{
+  details: FinancialStatementsDetails;
+}> = ({ details }) => (
+  <>
+    <Field label="Reporting Period" value={details.reportingPeriod} />
+    <Field label="Currency" value={details.currency} />
+    <ListField label="Statements Included" items={details.statementsIncluded} />
+    <TableField
+      label="Key Metrics"
+      columns={['Metric', 'Value', 'Period']}
+      rows={(details.keyMetrics || []).map((metric) => [
+        metric.name,
+        metric.value,
+        metric.period,
+      ])}
+    />
+    <ListField label="Notable Items" items={details.notableItems} />
+  </>
+);
+
+const LegalContractSection: React.FC<{ details: LegalContractDetails }> = ({
+  details,
+}) => (
+  <>
+    <Field label="Contract Type" value={details.contractType} />
+    <TableField
+      label="Parties"
+      columns={['Party', 'Role']}
+      rows={(details.parties || []).map((party) => [party.name, party.role])}
+    />
+    <Field label="Effective Date" value={details.effectiveDate} />
+    <Field label="Term" value={details.term} />
+    <Field label="Governing Law" value={details.governingLaw} />
+    <ListField label="Change of Control" items={details.changeOfControl} />
+    <ListField label="Termination Rights" items={details.terminationRights} />
+    <Field label="Assignment" value={details.assignment} />
+    <ListField
+      label="Liability and Indemnity"
+      items={details.liabilityAndIndemnity}
+    />
+  </>
+);
+
+const CapTableSection: React.FC<{ details: CapTableDetails }> = ({
+  details,
+}) => (
+  <>
+    <Field label="As Of" value={details.asOfDate} />
+    <Field label="Shares Outstanding" value={details.totalSharesOutstanding} />
+    <Field label="Fully Diluted Shares" value={details.fullyDilutedShares} />
+    <TableField
+      label="Share Classes"
+      columns={['Class', 'Shares', 'Ownership']}
+      rows={holdingRows(details.shareClasses)}
+    />
+    <TableField
+      label="Major Holders"
+      columns={['Holder', 'Shares', 'Ownership']}
+      rows={holdingRows(details.majorHolders)}
+    />
+    <Field label="Option Pool" value={details.optionPool} />
+    <ListField label="Convertibles" items={details.convertibles} />
+  </>
+);
+
+const CustomerContractSection: React.FC<{
+  details: CustomerContractDetails;
+}> = ({ details }) => (
+  <>
+    <Field label="Customer" value={details.customer} />
+    <Field label="Supplier" value={details.supplier} />
+    <Field label="Contract Value" value={details.contractValue} />
+    <Field label="Pricing" value={details.pricing} />
+    <Field label="Term" value={details.term} />
+    <Field label="Renewal" value={details.renewal} />
+    <ListField label="Termination Rights" items={details.terminationRights} />
+    <ListField label="Change of Control" items={details.changeOfControl} />
+    <Field label="Exclusivity" value={details.exclusivity} />
+    <ListField label="Service Levels" items={details.serviceLevels} />
+  </>
+);
+
+// 분석 프로필마다 다른 세부 항목을 문서 종류에 맞는 형태로 보여 줍니다.
+// 프로필 도입 이전의 결과는 최상위 필드를 일반 문서 항목으로 보여 줍니다.
+const AnalysisDetailsSection: React.FC<{ analysis: AnalysisResult }> = ({
+  analysis,
+}) => {
+  if (!analysis.documentType || !analysis.details) {
+    return (
+      <GeneralSection
+        details={{
+          toneAndStyle: analysis.toneAndStyle || '',
+          targetAudience: analysis.targetAudience || '',
+          potentialApplications: analysis.potentialApplications || [],
+        }}
+      />
+    );
+  }
+
+  switch (analysis.documentType) {
+    case 'pitchDeck':
+      return (
+        <PitchDeckSection details={analysis.details as PitchDeckDetails} />
+      );
+    case 'financialStatements':
+      return (
+        <FinancialStatementsSection
+          details={analysis.details as FinancialStatementsDetails}
+        />
+      );
+    case 'legalContract':
+      return (
+        <LegalContractSection
+          details={analysis.details as LegalContractDetails}
+        />
+      );
+    case 'capTable':
+      return <CapTableSection details={analysis.details as CapTableDetails} />;
+    case 'customerContract':
+      return (
+        <CustomerContractSection
+          details={analysis.details as CustomerContractDetails}
+        />
+      );
+    default:
+      return <GeneralSection details={analysis.details as GeneralDetails} />;
+  }
+};
+
+export default AnalysisDetailsSection;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Box, LinearProgress, Typography } from '@mui/material';
+import { AnalysisProgress } from '../types';
+
+interface AnalysisProgressBarProps {
+  progress?: AnalysisProgress;
+}
+
+const formatRemaining = (seconds: number) =>
+  seconds < 60
+    ? `about ${Math.max(1, seconds)} sec left`
+    : `about ${Math.round(seconds / 60)} min left`;
+
+// 서버 분석 작업이 기록한 진행률을 보여줍니다. 전체 페이지 수나 조각
+// 수를 아직 모를 때는 막대를 움직이는 형태로 보여줍니다.
+const AnalysisProgressBar: React.FC<AnalysisProgressBarProps> = ({
+  progress,
+}) => {
+  const [done, total] =
+    progress?.stage === 'extracting'
+      ? [progress.pagesExtracted, progress.totalPages]
+      : [progress?.chunksAnalyzed || 0, progress?.totalChunks || 0];
+  const isDeterminate = !!progress && total > 0;
+  const percent = isDeterminate ? (done / total) * 100 : 0;
+
+  let label = 'Waiting to start...';
+  if (progress?.stage === 'extracting') {
+    label =
+      progress.totalPages > 0
+        ? `Extracting text · ${progress.pagesExtracted}/${progress.totalPages} pages`
+        : 'Extracting text...';
+  } else if (progress?.stage === 'analyzing') {
+    label = `${progress.totalPages} pages extracted · ${progress.chunksAnalyzed}/${progress.totalChunks} sections analyzed`;
+    if (progress.estimatedSecondsRemaining !== null) {
+      label += ` · ${formatRemaining(progress.estimatedSecondsRemaining)}`;
+    }
+  }
+
+  return (
+    <Box>
+      <LinearProgress
+        variant={isDeterminate ? 'determinate' : 'indeterminate'}
+        value={percent}
+        sx={{ height: 8, borderRadius: 4 }}
+      />
+      <Typography variant="caption" color="text.secondary">
+        {label}
+      </Typography>
+    </Box>
+  );
+};
+
+export default AnalysisProgressBar;
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AddIcon from '@mui/icons-material/Add';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { auth } from '../services/firebase';
+import {
+  proposeFilingForAll,
+  saveAutoFilingSettings,
+  subscribeToAutoFilingSettings,
+} from '../services/autoFiling';
+import { formatFolderPath } from '../services/folders';
+import { AutoFilingSettings, FileInfo, Folder } from '../types';
+
+interface AutoFilingDialogProps {
+  open: boolean;
+  onClose: () => void;
+  files: FileInfo[];
+  folders: Folder[];
+  categories: string[];
+}
+
+const AutoFilingDialog: React.FC<AutoFilingDialogProps> = ({
+  open,
+  onClose,
+  files,
+  folders,
+  categories,
+}) => {
+  const [user] = useAuthState(auth);
+  const [settings, setSettings] = useState<AutoFilingSettings>({
+    enabled: false,
+    rules: [],
+  });
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user || !open) return;
+    return subscribeToAutoFilingSettings(user.uid, setSettings);
+  }, [user, open]);
+
+  const updateRule = (
+    index: number,
+    field: 'keyword' | 'folderId',
+    value: string
+  ) =>
+    setSettings((prev) => ({
+      ...prev,
+      rules: prev.rules.map((rule, i) =>
+        i === index ? { ...rule, [field]: value } : rule
+      ),
+    }));
+
+  const handleSave = async (refileAll: boolean) => {
+    if (!user) return;
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const rules = settings.rules.filter(
+        (rule) => rule.keyword.trim() && rule.folderId
+      );
+      await saveAutoFilingSettings(user.uid, { ...settings, rules });
+      if (refileAll) {
+        const proposed = await proposeFilingForAll(user.uid, files, {
+          ...settings,
+          rules,
+        });
+        setMessage(
+          `${proposed} of ${files.length} documents have a suggested folder.`
+        );
+      } else {
+        onClose();
+      }
+    } catch (error) {
+      console.error('Error saving auto-filing rules:', error);
+      setError('Failed to save auto-filing rules. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Auto-Filing</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {message && (
+          <Alert
+            severity="info"
+            sx={{ mb: 2 }}
+            onClose={() => setMessage(null)}
+          >
+            {message}
+          </Alert>
+        )}
+        <FormControlLabel
+          control={
+            <Switch
+              checked={settings.enabled}
+              onChange={(e) =>
+                setSettings((prev) => ({ ...prev, enabled: e.target.checked }))
+              }
+            />
+          }
+          label="Suggest a folder when analysis completes"
+        />
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Rules are checked in order against each document&apos;s AI categories
+          and tags. The first matching rule decides the suggested folder.
+        </Typography>
+        {settings.rules.map((rule, index) => (
+          <Box
+            key={index}
+            sx={{ display: 'flex', gap: 1, mb: 1, alignItems: 'center' }}
+          >
+            <Autocomplete
+              freeSolo
+              options={categories}
+              inputValue={rule.keyword}
+              onInputChange={(_, value) => updateRule(index, 'keyword', value)}
+              sx={{ flex: 1 }}
+              renderInput={(params) => (
+                <TextField {...params} size="small" label="Category or tag" />
+              )}
+            />
+            <FormControl size="small" sx={{ flex: 1 }}>
+              <InputLabel>Folder</InputLabel>
+              <Select
+                label="Folder"
+                value={rule.folderId}
+                onChange={(e) => updateRule(index, 'folderId', e.target.value)}
+              >
+                {folders.map((folder) => (
+                  <MenuItem key={folder.id} value={folder.id}>
+                    {formatFolderPath(folders, folder.id)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <IconButton
+              aria-label="delete"
+              onClick={() =>
+                setSettings((prev) => ({
+                  ...prev,
+                  rules: prev.rules.filter((_, i) => i !== index),
+                }))
+              }
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        ))}
+        <Button
+          startIcon={<AddIcon />}
+          onClick={() =>
+            setSettings((prev) => ({
+              ...prev,
+              rules: [...prev.rules, { keyword: '', folderId: '' }],
+            }))
+          }
+          disabled={folders.length === 0}
+        >
+          Add Rule
+        </Button>
+        {folders.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            Create folders or apply a template before adding rules.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={() => handleSave(true)} disabled={isSaving}>
+          Save &amp; Re-file Everything
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => handleSave(false)}
+          disabled={isSaving}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AutoFilingDialog;
@@ -0,0 +1,446 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  LinearProgress,
+  Link,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  Refresh as RefreshIcon,
+  UploadFile as UploadFileIcon,
+} from '@mui/icons-material';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { auth } from '../services/firebase';
+import {
+  createChecklist,
+  deleteChecklist,
+  matchChecklist,
+  parseRequestListFile,
+  parseRequestListText,
+  subscribeToChecklistItems,
+  subscribeToChecklists,
+  updateChecklistItemStatus,
+} from '../services/checklists';
+import {
+  Checklist,
+  ChecklistCoverage,
+  ChecklistItem,
+  ChecklistItemStatus,
+  FileInfo,
+} from '../types';
+
+interface ChecklistPanelProps {
+  files: FileInfo[];
+}
+
+type CoverageFilter = 'all' | 'gaps' | 'partial';
+
+const STATUS_LABELS: Record<ChecklistItemStatus, string> = {
+  open: 'Open',
+  provided: 'Provided',
+  notApplicable: 'Not applicable',
+  toFollow: 'To follow',
+};
+
+const COVERAGE_CHIPS: Record<
+  ChecklistCoverage,
+  { label: string; color: 'success' | 'warning' | 'error' }
+> = {
+  matched: { label: 'Matched', color: 'success' },
+  partial: { label: 'Partial', color: 'warning' },
+  missing: { label: 'Gap', color: 'error' },
+};
+
+// 제공·해당 없음으로 표시한 항목은 매칭 결과와 상관없이 공백으로 보지 않습니다.
+const isGap = (item: ChecklistItem) =>
+  item.status === 'open' && item.coverage === 'missing';
+
+const isPartial = (item: ChecklistItem) =>
+  item.status === 'open' && item.coverage === 'partial';
+
+// 투자자의 실사 요청 목록을 불러와 데이터룸 문서와 맞춰 보고, 항목마다
+// 제공 여부를 표시합니다.
+const ChecklistPanel: React.FC<ChecklistPanelProps> = ({ files }) => {
+  const [user] = useAuthState(auth);
+  const [checklists, setChecklists] = useState<Checklist[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [filter, setFilter] = useState<CoverageFilter>('all');
+  const [importOpen, setImportOpen] = useState(false);
+  const [importName, setImportName] = useState('');
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importText, setImportText] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToChecklists(user.uid, setChecklists);
+  }, [user]);
+
+  useEffect(() => {
+    if (!selectedId && checklists.length > 0) {
+      setSelectedId(checklists[0].id);
+    }
+  }, [checklists, selectedId]);
+
+  useEffect(() => {
+    if (!user || !selectedId) {
+      setItems([]);
+      return;
+    }
+    return subscribeToChecklistItems(user.uid, selectedId, setItems);
+  }, [user, selectedId]);
+
+  const fileUrls = useMemo(
+    () => new Map(files.map((file) => [file.id, file.url])),
+    [files]
+  );
+
+  const counts = useMemo(
+    () => ({
+      provided: items.filter((item) => item.status === 'provided').length,
+      notApplicable: items.filter((item) => item.status === 'notApplicable')
+        .length,
+      toFollow: items.filter((item) => item.status === 'toFollow').length,
+      gaps: items.filter(isGap).length,
+      partial: items.filter(isPartial).length,
+    }),
+    [items]
+  );
+
+  const visibleItems = items.filter((item) =>
+    filter === 'gaps'
+      ? isGap(item)
+      : filter === 'partial'
+      ? isPartial(item)
+      : true
+  );
+
+  const runMatching = async (checklistId: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await matchChecklist(checklistId);
+    } catch (matchError) {
+      console.error('Error matching checklist:', matchError);
+      setError('Failed to match the checklist against the data room.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+    try {
+      setBusy(true);
+      setError(null);
+      const parsed = importFile
+        ? await parseRequestListFile(importFile)
+        : await parseRequestListText(importText);
+      if (parsed.length === 0) {
+        setError('No requests were found in the list.');
+        setBusy(false);
+        return;
+      }
+      const checklistId = await createChecklist(
+        user.uid,
+        importName.trim() || importFile?.name || 'DD request list',
+        parsed
+      );
+      setSelectedId(checklistId);
+      setImportOpen(false);
+      setImportName('');
+      setImportFile(null);
+      setImportText('');
+      await runMatching(checklistId);
+    } catch (importError) {
+      console.error('Error importing request list:', importError);
+      setError('Failed to import the request list.');
+      setBusy(false);
+    }
+  };
+
+  const handleStatusChange = async (
+    item: ChecklistItem,
+    status: ChecklistItemStatus
+  ) => {
+    if (!user) return;
+    try {
+      await updateChecklistItemStatus(user.uid, selectedId, item.id, status);
+    } catch (updateError) {
+      console.error('Error updating checklist item:', updateError);
+      setError('Failed to update the item. Please try again.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user || !selectedId) return;
+    if (!window.confirm('Delete this checklist?')) return;
+    await deleteChecklist(user.uid, selectedId);
+    setSelectedId('');
+  };
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      <Box
+        sx={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: 1,
+          mb: 2,
+        }}
+      >
+        {checklists.length > 0 && (
+          <Select
+            size="small"
+            value={selectedId}
+            onChange={(event) => setSelectedId(event.target.value)}
+            sx={{ minWidth: 220 }}
+          >
+            {checklists.map((checklist) => (
+              <MenuItem key={checklist.id} value={checklist.id}>
+                {checklist.name} ({checklist.itemCount})
+              </MenuItem>
+            ))}
+          </Select>
+        )}
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<UploadFileIcon />}
+          onClick={() => setImportOpen(true)}
+        >
+          Import Request List
+        </Button>
+        {selectedId && (
+          <>
+            <Button
+              size="small"
+              startIcon={<RefreshIcon />}
+              disabled={busy}
+              onClick={() => runMatching(selectedId)}
+            >
+              Re-run Matching
+            </Button>
+            <IconButton size="small" onClick={handleDelete}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </>
+        )}
+      </Box>
+      {busy && <LinearProgress sx={{ mb: 2 }} />}
+
+      {!selectedId ? (
+        <Typography variant="body2" color="text.secondary">
+          Import an investor's due diligence request list to see which items the
+          data room already covers.
+        </Typography>
+      ) : (
+        <>
+          <Box
+            sx={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              alignItems: 'center',
+              gap: 1,
+              mb: 2,
+            }}
+          >
+            <Chip label={`${items.length} requests`} />
+            <Chip
+              label={`${counts.provided} provided`}
+              color="success"
+              variant="outlined"
+            />
+            <Chip label={`${counts.toFollow} to follow`} variant="outlined" />
+            <Chip
+              label={`${counts.notApplicable} not applicable`}
+              variant="outlined"
+            />
+            <Chip
+              label={`${counts.gaps} gaps`}
+              color="error"
+              variant={counts.gaps ? 'filled' : 'outlined'}
+            />
+            <Chip
+              label={`${counts.partial} partial`}
+              color="warning"
+              variant={counts.partial ? 'filled' : 'outlined'}
+            />
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={filter}
+              onChange={(_, value) => value && setFilter(value)}
+              sx={{ ml: 'auto' }}
+            >
+              <ToggleButton value="all">All</ToggleButton>
+              <ToggleButton value="gaps">Gaps</ToggleButton>
+              <ToggleButton value="partial">Partial</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+
+          <Box sx={{ overflowX: 'auto' }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Ref</TableCell>
+                  <TableCell>Section</TableCell>
+                  <TableCell>Request</TableCell>
+                  <TableCell>Coverage</TableCell>
+                  <TableCell>Matched Documents</TableCell>
+                  <TableCell>Status</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visibleItems.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {item.ref}
+                    </TableCell>
+                    <TableCell>{item.section}</TableCell>
+                    <TableCell sx={{ minWidth: 240 }}>{item.request}</TableCell>
+                    <TableCell>
+                      {item.coverage ? (
+                        <Chip
+                          size="small"
+                          label={COVERAGE_CHIPS[item.coverage].label}
+                          color={COVERAGE_CHIPS[item.coverage].color}
+                          variant={
+                            item.status === 'open' ? 'filled' : 'outlined'
+                          }
+                        />
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                    <TableCell sx={{ minWidth: 180 }}>
+                      {(item.matches || []).map((match) => (
+                        <Box key={match.fileId}>
+                          <Link
+                            href={fileUrls.get(match.fileId)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            variant="body2"
+                            title={match.matchedTerms.join(', ')}
+                          >
+                            {match.fileName}
+                          </Link>{' '}
+                          <Typography
+                            component="span"
+                            variant="caption"
+                            color="text.secondary"
+                          >
+                            {Math.round(match.score * 100)}%
+                          </Typography>
+                        </Box>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        variant="standard"
+                        value={item.status}
+                        onChange={(event) =>
+                          handleStatusChange(
+                            item,
+                            event.target.value as ChecklistItemStatus
+                          )
+                        }
+                      >
+                        {(
+                          Object.keys(STATUS_LABELS) as ChecklistItemStatus[]
+                        ).map((status) => (
+                          <MenuItem key={status} value={status}>
+                            {STATUS_LABELS[status]}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        </>
+      )}
+
+      <Dialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        fullWidth
+        maxWidth="sm"
+      >
+        <DialogTitle>Import Request List</DialogTitle>
+        <DialogContent>
+          <TextField
+            label="Checklist name"
+            fullWidth
+            margin="normal"
+            value={importName}
+            onChange={(event) => setImportName(event.target.value)}
+          />
+          <Button component="label" variant="outlined" sx={{ my: 1 }}>
+            {importFile ? importFile.name : 'Choose CSV or Excel File'}
+            <input
+              type="file"
+              hidden
+              accept=".csv,.xlsx,.xls"
+              onChange={(event) =>
+                setImportFile(event.target.files?.[0] || null)
+              }
+            />
+          </Button>
+          <TextField
+            label="Or paste the request list"
+            fullWidth
+            multiline
+            minRows={6}
+            margin="normal"
+            disabled={!!importFile}
+            value={importText}
+            onChange={(event) => setImportText(event.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setImportOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            disabled={busy || (!importFile && !importText.trim())}
+            onClick={handleImport}
+          >
+            Import
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ChecklistPanel;
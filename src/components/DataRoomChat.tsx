@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import SendIcon from '@mui/icons-material/Send';
+import { askDataRoom } from '../services/qa';
+import { FileInfo, QACitation, QAMessage } from '../types';
+
+interface DataRoomChatProps {
+  files: FileInfo[];
+}
+
+const DataRoomChat: React.FC<DataRoomChatProps> = ({ files }) => {
+  const [messages, setMessages] = useState<QAMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAsk = async () => {
+    const trimmed = question.trim();
+    if (!trimmed || isAsking) return;
+    setQuestion('');
+    setError(null);
+    setIsAsking(true);
+    const history = messages;
+    setMessages((prev) => [...prev, { role: 'user', content: trimmed }]);
+    try {
+      const { answer, citations } = await askDataRoom(trimmed, history);
+      setMessages((prev) => [
+        ...prev,
+        { role: 'assistant', content: answer, citations },
+      ]);
+    } catch (error) {
+      console.error('Error asking the data room:', error);
+      setError('Failed to answer the question. Please try again.');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  // PDF 는 브라우저 뷰어가 #page 로 인용한 페이지를 바로 엽니다.
+  const citationUrl = (citation: QACitation) => {
+    const file = files.find((file) => file.id === citation.fileId);
+    if (!file) return undefined;
+    return !file.contentType || file.contentType === 'application/pdf'
+      ? `${file.url}#page=${citation.pageStart}`
+      : file.url;
+  };
+
+  return (
+    <Box>
+      <Box sx={{ maxHeight: 400, overflowY: 'auto', mb: 2 }}>
+        {messages.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            Ask a question such as &quot;What is our churn assumption in the
+            2025 model?&quot; Answers cite the documents and pages they come
+            from.
+          </Typography>
+        )}
+        {messages.map((message, index) => (
+          <Box
+            key={index}
+            sx={{
+              mb: 1.5,
+              p: 1.5,
+              borderRadius: 1,
+              backgroundColor:
+                message.role === 'user'
+                  ? 'rgba(25, 118, 210, 0.08)'
+                  : 'rgba(0, 0, 0, 0.03)',
+            }}
+          >
+            <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+              {message.content}
+            </Typography>
+            {message.citations && message.citations.length > 0 && (
+              <Box sx={{ mt: 1 }}>
+                {message.citations.map((citation) => (
+                  <Tooltip key={citation.index} title={citation.excerpt}>
+                    <Chip
+                      label={`[${citation.index}] ${citation.fileName}, ${
+                        citation.pageStart === citation.pageEnd
+                          ? `p. ${citation.pageStart}`
+                          : `pp. ${citation.pageStart}–${citation.pageEnd}`
+                      }`}
+                      size="small"
+                      component="a"
+                      href={citationUrl(citation)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      clickable
+                      sx={{ mr: 0.5, mb: 0.5 }}
+                    />
+                  </Tooltip>
+                ))}
+              </Box>
+            )}
+          </Box>
+        ))}
+        {isAsking && <CircularProgress size={24} />}
+      </Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <TextField
+          fullWidth
+          size="small"
+          placeholder="Ask about your data room..."
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleAsk();
+            }
+          }}
+        />
+        <Button
+          variant="contained"
+          endIcon={<SendIcon />}
+          onClick={handleAsk}
+          disabled={!question.trim() || isAsking}
+        >
+          Ask
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default DataRoomChat;
@@ -14,23 +14,13 @@ import {
   Typography,
 } from "@mui/material";
 import React from "react";
-import { FileInfo } from "../types";
-
-interface Keyword {
-  word: string;
-  explanation: string;
-}
-
-interface AnalysisResult {
-  summary: string;
-  keywords: Keyword[];
-  categories: string[];
-  tags: string[];
-  keyInsights: string[];
-  toneAndStyle: string;
-  targetAudience: string;
-  potentialApplications: string[];
-}
+import { AnalysisResult, FileInfo } from "../types";
+import VersionHistory from "./VersionHistory";
+import FinancialsEditor from "./FinancialsEditor";
+import RedFlagList from "./RedFlagList";
+import AnalysisDetailsSection, {
+  DOCUMENT_TYPE_LABELS,
+} from "./AnalysisDetailsSection";
 
 interface FileAnalysisDialogProps {
   open: boolean;
@@ -59,10 +49,22 @@ const FileAnalysisDialog: React.FC<FileAnalysisDialogProps> = ({
   }
 
   const analysis = file.analysis as AnalysisResult;
+  const documentTypeLabel =
+    DOCUMENT_TYPE_LABELS[analysis.documentType || "general"];
 
   return (
     <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
-      <DialogTitle>{file.name} - Analysis Results</DialogTitle>
+      <DialogTitle>
+        {file.name} - Analysis Results
+        {analysis.documentType && (
+          <Chip
+            label={documentTypeLabel}
+            size="small"
+            color="primary"
+            sx={{ ml: 1, verticalAlign: "middle" }}
+          />
+        )}
+      </DialogTitle>
       <DialogContent>
         <Box sx={{ mb: 3 }}>
           <Typography variant="h6" gutterBottom>
@@ -111,34 +113,35 @@ const FileAnalysisDialog: React.FC<FileAnalysisDialogProps> = ({
             ))}
           </List>
         </Box>
-        <Box sx={{ mb: 3 }}>
-          <Typography variant="h6" gutterBottom>
-            Tone and Style
-          </Typography>
-          <Typography variant="body1">{analysis.toneAndStyle}</Typography>
-        </Box>
-        <Box sx={{ mb: 3 }}>
+        <Box>
           <Typography variant="h6" gutterBottom>
-            Target Audience
+            {analysis.documentType
+              ? `${documentTypeLabel} Details`
+              : "Document Details"}
           </Typography>
-          <Typography variant="body1">{analysis.targetAudience}</Typography>
+          <AnalysisDetailsSection analysis={analysis} />
         </Box>
-        <Box>
+        {file.legalReview && (
+          <Box sx={{ mt: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Legal Review
+            </Typography>
+            <RedFlagList file={file} flags={file.legalReview.flags} />
+          </Box>
+        )}
+        {analysis.documentType === "financialStatements" && (
+          <Box sx={{ mt: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Financial Figures
+            </Typography>
+            <FinancialsEditor file={file} />
+          </Box>
+        )}
+        <Box sx={{ mt: 3 }}>
           <Typography variant="h6" gutterBottom>
-            Potential Applications
+            Version History
           </Typography>
-          <List>
-            {analysis.potentialApplications.map((application, index) => (
-              <React.Fragment key={index}>
-                <StyledListItem>
-                  <ListItemText primary={application} />
-                </StyledListItem>
-                {index < analysis.potentialApplications.length - 1 && (
-                  <Divider />
-                )}
-              </React.Fragment>
-            ))}
-          </List>
+          <VersionHistory file={file} />
         </Box>
       </DialogContent>
       <DialogActions>
@@ -14,6 +14,8 @@ import ShareIcon from '@mui/icons-material/Share';
 import { FileInfo } from '../types';
 import FileAnalysisDialog from './FileAnalysisDialog';
 import FileShare from './FileShare';
+import AnalysisProgressBar from './AnalysisProgressBar';
+import { setDragItem } from './FolderView';
 
 interface FileListProps {
   files: FileInfo[];
@@ -26,13 +28,15 @@ const FileList: React.FC<FileListProps> = ({
   onDeleteFile,
   onSelectFile,
 }) => {
-  const [selectedFile, setSelectedFile] = useState<FileInfo | null>(null);
+  // 버전 복원 등으로 문서가 바뀌면 대화상자도 최신 상태를 보여주도록 ID 만 보관합니다.
+  const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
+  const selectedFile = files.find((file) => file.id === selectedFileId) || null;
   const [dialogOpen, setDialogOpen] = useState(false);
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [fileToShare, setFileToShare] = useState<FileInfo | null>(null);
 
   const handleFileClick = (file: FileInfo) => {
-    setSelectedFile(file);
+    setSelectedFileId(file.id);
     setDialogOpen(true);
     onSelectFile(file);
   };
@@ -75,6 +79,10 @@ const FileList: React.FC<FileListProps> = ({
                 '&:hover': { transform: 'translateY(-5px)', boxShadow: 3 },
               }}
               onClick={() => handleFileClick(file)}
+              draggable
+              onDragStart={(event) =>
+                setDragItem(event, { type: 'file', id: file.id })
+              }
             >
               <CardContent
                 sx={{
@@ -87,12 +95,23 @@ const FileList: React.FC<FileListProps> = ({
               >
                 <Box sx={{ flexGrow: 1 }}>
                   <Typography variant="h6" noWrap>
+                    {file.indexNumber && (
+                      <Box component="span" sx={{ color: 'text.secondary' }}>
+                        {file.indexNumber}{' '}
+                      </Box>
+                    )}
                     {file.name}
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
                     Size: {file.size} | Status: {file.status} | Date:{' '}
                     {new Date(file.uploadDate).toLocaleDateString()}
                   </Typography>
+                  {(file.status === 'extracting' ||
+                    file.status === 'analyzing') && (
+                    <Box sx={{ mt: 1, maxWidth: 400 }}>
+                      <AnalysisProgressBar progress={file.analysisProgress} />
+                    </Box>
+                  )}
                   <Box sx={{ mt: 1 }}>
                     {typeof file.analysis === 'object' &&
                       file.analysis.categories &&
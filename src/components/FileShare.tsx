@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -12,9 +12,15 @@ import {
   Box,
   CircularProgress,
   Snackbar,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
 } from '@mui/material';
-import { FileInfo } from '../types';
-import { functions } from '../services/firebase';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { FileInfo, NdaTemplate } from '../types';
+import { auth, functions } from '../services/firebase';
+import { subscribeToNdaTemplates } from '../services/nda';
 import { httpsCallable } from 'firebase/functions';
 
 interface FileShareProps {
@@ -24,15 +30,33 @@ interface FileShareProps {
 }
 
 const FileShare: React.FC<FileShareProps> = ({ file, open, onClose }) => {
+  const [user] = useAuthState(auth);
   const [email, setEmail] = useState('');
   const [expirationDays, setExpirationDays] = useState(7);
   const [downloadable, setDownloadable] = useState(false);
   const [requireNDA, setRequireNDA] = useState(false);
+  const [ndaTemplates, setNdaTemplates] = useState<NdaTemplate[]>([]);
+  const [ndaTemplateId, setNdaTemplateId] = useState('');
   const [isSharing, setIsSharing] = useState(false);
   const [shareResult, setShareResult] = useState<string | null>(null);
   const [shareLink, setShareLink] = useState<string | null>(null);
   const [snackbarOpen, setSnackbarOpen] = useState(false);
 
+  useEffect(() => {
+    if (user && open) {
+      return subscribeToNdaTemplates(user.uid, (templates) => {
+        setNdaTemplates(templates);
+        setNdaTemplateId(
+          (prev) =>
+            prev ||
+            templates.find((template) => template.isDefault)?.id ||
+            templates[0]?.id ||
+            ''
+        );
+      });
+    }
+  }, [user, open]);
+
   const handleShare = async () => {
     setIsSharing(true);
     setShareResult(null);
@@ -45,17 +69,23 @@ const FileShare: React.FC<FileShareProps> = ({ file, open, onClose }) => {
         expirationDays,
         downloadable,
         requireNDA,
+        ndaTemplateId: requireNDA ? ndaTemplateId || null : null,
       });
 
       const data = result.data as {
         success: boolean;
         message: string;
         shareLink: string;
+        emailSent: boolean;
       };
       if (data.success) {
         setShareLink(data.shareLink);
         await navigator.clipboard.writeText(data.shareLink);
-        setShareResult('File shared successfully. Link copied to clipboard.');
+        setShareResult(
+          data.emailSent
+            ? 'File shared successfully and invitation emailed. Link copied to clipboard.'
+            : 'File shared successfully, but the invitation email could not be sent. Link copied to clipboard.'
+        );
       } else {
         setShareResult('Failed to share file. Please try again.');
       }
@@ -121,6 +151,28 @@ const FileShare: React.FC<FileShareProps> = ({ file, open, onClose }) => {
               }
               label="Require NDA"
             />
+            {requireNDA &&
+              (ndaTemplates.length > 0 ? (
+                <FormControl fullWidth margin="normal">
+                  <InputLabel>NDA Template</InputLabel>
+                  <Select
+                    value={ndaTemplateId}
+                    onChange={(e) => setNdaTemplateId(e.target.value)}
+                    label="NDA Template"
+                  >
+                    {ndaTemplates.map((template) => (
+                      <MenuItem key={template.id} value={template.id}>
+                        {template.title} (v{template.version})
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              ) : (
+                <Typography variant="body2" color="error">
+                  Create an NDA template on the NDAs page before requiring an
+                  NDA.
+                </Typography>
+              ))}
             {shareResult && (
               <Typography
                 color={
@@ -161,7 +213,7 @@ const FileShare: React.FC<FileShareProps> = ({ file, open, onClose }) => {
             onClick={handleShare}
             variant="contained"
             color="primary"
-            disabled={isSharing}
+            disabled={isSharing || (requireNDA && !ndaTemplateId)}
           >
             {isSharing ? <CircularProgress size={24} /> : 'Share'}
           </Button>
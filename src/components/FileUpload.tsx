@@ -1,4 +1,4 @@
-import React, { useCallback, useState, useEffect } from 'react';
+import React, { useCallback, useState, useEffect, useRef } from 'react';
 import {
   Box,
   Button,
@@ -18,9 +18,21 @@ import {
   uploadBytesResumable,
   UploadTask,
 } from 'firebase/storage';
-import { addFileInfo, storage } from '../services/firebase';
-import { getAnalysis } from '../services/openai';
-import { FileInfo, User } from '../types';
+import {
+  addFileInfo,
+  buildFileStoragePath,
+  createFileId,
+  storage,
+} from '../services/firebase';
+import {
+  addFileVersion,
+  createVersionId,
+  findFileByName,
+  subscribeToVersionAnalysis,
+} from '../services/versions';
+import { reserveDocumentIndex } from '../services/folders';
+import { AnalysisProgress, FileInfo, User } from '../types';
+import AnalysisProgressBar from './AnalysisProgressBar';
 import CancelIcon from '@mui/icons-material/Cancel';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
 import PauseIcon from '@mui/icons-material/Pause';
@@ -33,9 +45,54 @@ interface FileUploadProps {
   currentFolder: string | null;
 }
 
+// 같은 이름의 파일을 여러 번 올릴 수 있도록 진행 상태는 버전 ID 로 관리합니다.
+interface PendingUpload {
+  id: string;
+  file: File;
+  fileId: string;
+  existingFile: FileInfo | null;
+  // 파일을 놓을 때 열려 있던 폴더입니다.
+  folderId: string | null;
+}
+
 const MAX_FILES = 10;
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
+// functions/src/extract 에 추출기가 있는 형식만 허용합니다.
+const ACCEPTED_FILE_TYPES = {
+  'application/pdf': ['.pdf'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [
+    '.docx',
+  ],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': [
+    '.xlsx',
+  ],
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': [
+    '.pptx',
+  ],
+};
+
+type UploadStatus = FileInfo['status'] | 'paused';
+
+// 분석 단계는 서버의 작업 큐가 파일 문서에 쓰는 상태를 그대로 보여줍니다.
+const ANALYSIS_STEPS: UploadStatus[] = [
+  'uploading',
+  'queued',
+  'extracting',
+  'analyzing',
+  'completed',
+];
+
+const STATUS_LABELS: { [key in UploadStatus]: string } = {
+  uploading: 'Uploading...',
+  paused: 'Paused',
+  queued: 'Waiting in the analysis queue...',
+  extracting: 'Extracting text...',
+  analyzing: 'Analyzing...',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
 const formatFileSize = (bytes: number): string => {
   if (bytes < 1024) return bytes + ' bytes';
   else if (bytes < 1048576) return (bytes / 1024).toFixed(1) + ' KB';
@@ -48,50 +105,32 @@ const FileUpload: React.FC<FileUploadProps> = ({
   setIsLoading,
   setError,
   user,
+  currentFolder,
 }) => {
-  const [files, setFiles] = useState<File[]>([]);
+  const [files, setFiles] = useState<PendingUpload[]>([]);
   const [uploadTasks, setUploadTasks] = useState<{ [key: string]: UploadTask }>(
     {}
   );
   const [uploadProgress, setUploadProgress] = useState<{
     [key: string]: number;
   }>({});
-  const [analysisProgress, setAnalysisProgress] = useState<{
-    [key: string]: number;
-  }>({});
   const [fileStatus, setFileStatus] = useState<{
-    [key: string]:
-      | 'uploading'
-      | 'analyzing'
-      | 'completed'
-      | 'failed'
-      | 'paused';
+    [key: string]: UploadStatus;
+  }>({});
+  const [analysisProgress, setAnalysisProgress] = useState<{
+    [key: string]: AnalysisProgress | undefined;
   }>({});
+  const statusSubscriptions = useRef<{ [key: string]: () => void }>({});
 
   useEffect(() => {
-    const simulateAnalysisProgress = (fileName: string) => {
-      let progress = 0;
-      const interval = setInterval(() => {
-        progress += Math.random() * 5; // 진행 속도를 줄입니다
-        if (progress > 95) {
-          progress = 95; // 최대 95%까지만 채웁니다
-          clearInterval(interval);
-        }
-        setAnalysisProgress((prev) => ({ ...prev, [fileName]: progress }));
-      }, 2000); // 업데이트 간격을 2초로 늘립니다
-      return interval;
+    const subscriptions = statusSubscriptions.current;
+    return () => {
+      Object.values(subscriptions).forEach((unsubscribe) => unsubscribe());
     };
-
-    Object.entries(fileStatus).forEach(([fileName, status]) => {
-      if (status === 'analyzing') {
-        const interval = simulateAnalysisProgress(fileName);
-        return () => clearInterval(interval);
-      }
-    });
-  }, [fileStatus]);
+  }, []);
 
   const onDrop = useCallback(
-    (acceptedFiles: File[]) => {
+    async (acceptedFiles: File[]) => {
       if (!user) {
         setError('Please sign in to upload files.');
         return;
@@ -108,27 +147,69 @@ const FileUpload: React.FC<FileUploadProps> = ({
         return;
       }
 
-      setFiles((prevFiles) => [...prevFiles, ...validFiles]);
+      try {
+        // 확인 창이 파일마다 차례로 뜨도록 하나씩 준비합니다.
+        const uploads: PendingUpload[] = [];
+        for (const file of validFiles) {
+          // 같은 폴더에 같은 이름의 문서가 있으면 새 버전으로 올릴지 묻습니다.
+          const sameNameFile = await findFileByName(
+            user.uid,
+            file.name,
+            currentFolder
+          );
+          const existingFile =
+            sameNameFile &&
+            window.confirm(
+              `"${file.name}" already exists in this folder. Upload it as a new version? Choose Cancel to keep both as separate documents.`
+            )
+              ? sameNameFile
+              : null;
+          const fileId = existingFile?.id || createFileId(user.uid);
+          uploads.push({
+            id: createVersionId(user.uid, fileId),
+            file,
+            fileId,
+            existingFile,
+            folderId: currentFolder,
+          });
+        }
+        setFiles((prevFiles) => [...prevFiles, ...uploads]);
+      } catch (error) {
+        console.error('Error preparing uploads:', error);
+        setError('Failed to prepare the upload. Please try again.');
+      }
     },
-    [user, setError]
+    [user, currentFolder, setError]
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: { 'application/pdf': ['.pdf'] },
+    accept: ACCEPTED_FILE_TYPES,
     multiple: true,
     useFsAccessApi: false,
   });
 
   useEffect(() => {
-    const uploadFile = async (file: File) => {
-      setFileStatus((prev) => ({ ...prev, [file.name]: 'uploading' }));
-      const storageRef = ref(storage, `users/${user.uid}/pdfs/${file.name}`);
+    const uploadFile = async ({
+      id: versionId,
+      file,
+      fileId,
+      existingFile,
+      folderId,
+    }: PendingUpload) => {
+      setFileStatus((prev) => ({ ...prev, [versionId]: 'uploading' }));
+      const storagePath = buildFileStoragePath(
+        user.uid,
+        fileId,
+        versionId,
+        file.name
+      );
+      const storageRef = ref(storage, storagePath);
       const uploadTask = uploadBytesResumable(storageRef, file);
 
       setUploadTasks((prev: { [key: string]: UploadTask }) => ({
         ...prev,
-        [file.name]: uploadTask,
+        [versionId]: uploadTask,
       }));
 
       uploadTask.on(
@@ -136,105 +217,115 @@ const FileUpload: React.FC<FileUploadProps> = ({
         (snapshot) => {
           const progress =
             (snapshot.bytesTransferred / snapshot.totalBytes) * 100;
-          setUploadProgress((prev) => ({ ...prev, [file.name]: progress }));
+          setUploadProgress((prev) => ({ ...prev, [versionId]: progress }));
         },
         (error) => {
           console.error('Error uploading file:', error);
           setError('File upload failed. Please try again.');
-          setFileStatus((prev) => ({ ...prev, [file.name]: 'failed' }));
+          setFileStatus((prev) => ({ ...prev, [versionId]: 'failed' }));
         },
         async () => {
           try {
             const downloadURL = await getDownloadURL(uploadTask.snapshot.ref);
-            setFileStatus((prev) => ({ ...prev, [file.name]: 'analyzing' }));
 
+            // 새 문서는 현재 폴더에 두고 번호를 붙이며, 새 버전은 기존
+            // 위치와 번호를 유지합니다. 새 버전의 파일 문서는
+            // addFileVersion 이 씁니다.
+            const indexNumber = existingFile
+              ? null
+              : await reserveDocumentIndex(user.uid, folderId);
             const fileInfo: FileInfo = {
-              id: file.name,
-              name: file.name,
-              url: downloadURL,
-              analysis: '',
-              uploadDate: new Date().toISOString(),
-              size: formatFileSize(file.size),
-              uploadProgress: 100,
-              status: 'analyzing',
+              folderId,
+              ...(indexNumber ? { indexNumber } : {}),
+              ...(await addFileVersion(user.uid, existingFile, fileId, {
+                id: versionId,
+                name: file.name,
+                url: downloadURL,
+                analysis: '',
+                uploadDate: new Date().toISOString(),
+                size: formatFileSize(file.size),
+                status: 'queued',
+                storagePath,
+                contentType: file.type,
+              })),
             };
 
-            await addFileInfo(user.uid, fileInfo);
+            if (!existingFile) {
+              await addFileInfo(user.uid, fileInfo);
+            }
             onFileUploaded(fileInfo);
+            setFileStatus((prev) => ({ ...prev, [versionId]: 'queued' }));
 
-            const analysis = await getAnalysis(
-              `users/${user.uid}/pdfs/${file.name}`,
-              (progress) => {
+            // 분석은 업로드가 끝나면 서버의 작업 큐가 처리합니다. 여기서는
+            // 버전 문서의 상태와 진행률만 구독합니다.
+            statusSubscriptions.current[versionId] = subscribeToVersionAnalysis(
+              user.uid,
+              fileId,
+              versionId,
+              ({ status, analysisProgress }) => {
+                setFileStatus((prev) => ({ ...prev, [versionId]: status }));
                 setAnalysisProgress((prev) => ({
                   ...prev,
-                  [file.name]: progress,
+                  [versionId]: analysisProgress,
                 }));
+                if (status === 'completed' || status === 'failed') {
+                  statusSubscriptions.current[versionId]?.();
+                  delete statusSubscriptions.current[versionId];
+                }
+                if (status === 'failed') {
+                  setError('File analysis failed. Please try again.');
+                }
               }
             );
-
-            const updatedFileInfo: FileInfo = {
-              ...fileInfo,
-              analysis: analysis,
-              status: 'completed',
-            };
-
-            await addFileInfo(user.uid, updatedFileInfo);
-            onFileUploaded(updatedFileInfo);
-            setFileStatus((prev) => ({ ...prev, [file.name]: 'completed' }));
           } catch (error) {
-            console.error('Error analyzing file:', error);
-            setError('File analysis failed. Please try again.');
-            setFileStatus((prev) => ({ ...prev, [file.name]: 'failed' }));
+            console.error('Error saving file:', error);
+            setError('Failed to save the uploaded file. Please try again.');
+            setFileStatus((prev) => ({ ...prev, [versionId]: 'failed' }));
           }
         }
       );
     };
 
-    files.forEach((file) => {
-      if (!uploadTasks[file.name]) {
-        uploadFile(file);
+    files.forEach((upload) => {
+      if (!uploadTasks[upload.id]) {
+        uploadFile(upload);
       }
     });
   }, [files, user, onFileUploaded, setError, uploadTasks]);
 
-  const handlePauseResume = (fileName: string) => {
-    const task = uploadTasks[fileName];
+  const handlePauseResume = (uploadId: string) => {
+    const task = uploadTasks[uploadId];
     if (task) {
-      if (fileStatus[fileName] === 'paused') {
+      if (fileStatus[uploadId] === 'paused') {
         task.resume();
-        setFileStatus((prev) => ({ ...prev, [fileName]: 'uploading' }));
+        setFileStatus((prev) => ({ ...prev, [uploadId]: 'uploading' }));
       } else {
         task.pause();
-        setFileStatus((prev) => ({ ...prev, [fileName]: 'paused' }));
+        setFileStatus((prev) => ({ ...prev, [uploadId]: 'paused' }));
       }
     }
   };
 
-  const handleCancel = (fileName: string) => {
-    const task = uploadTasks[fileName];
+  const handleCancel = (uploadId: string) => {
+    const task = uploadTasks[uploadId];
     if (task) {
       task.cancel();
       setFiles((prevFiles) =>
-        prevFiles.filter((file) => file.name !== fileName)
+        prevFiles.filter((upload) => upload.id !== uploadId)
       );
       setUploadTasks((prev: { [key: string]: UploadTask }) => {
         const newTasks = { ...prev };
-        delete newTasks[fileName];
+        delete newTasks[uploadId];
         return newTasks;
       });
       setUploadProgress((prev) => {
         const newProgress = { ...prev };
-        delete newProgress[fileName];
-        return newProgress;
-      });
-      setAnalysisProgress((prev) => {
-        const newProgress = { ...prev };
-        delete newProgress[fileName];
+        delete newProgress[uploadId];
         return newProgress;
       });
       setFileStatus((prev) => {
         const newStatus = { ...prev };
-        delete newStatus[fileName];
+        delete newStatus[uploadId];
         return newStatus;
       });
     }
@@ -261,7 +352,8 @@ const FileUpload: React.FC<FileUploadProps> = ({
         ) : (
           <>
             <Typography>
-              Drag and drop PDF files here or click to select
+              Drag and drop PDF, Word, Excel or PowerPoint files here or click
+              to select
             </Typography>
             <Button variant="contained" color="primary" sx={{ mt: 2 }}>
               Select Files
@@ -274,9 +366,9 @@ const FileUpload: React.FC<FileUploadProps> = ({
           <Typography variant="h6" gutterBottom>
             Upload Progress
           </Typography>
-          {files.map((file) => (
+          {files.map(({ id, file }) => (
             <Box
-              key={file.name}
+              key={id}
               sx={{ mb: 2, backgroundColor: '#f5f5f5', p: 2, borderRadius: 1 }}
             >
               <Typography variant="body2" sx={{ mb: 1 }}>
@@ -284,34 +376,39 @@ const FileUpload: React.FC<FileUploadProps> = ({
               </Typography>
               <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
                 <Box sx={{ width: '100%', mr: 1 }}>
-                  <LinearProgress
-                    variant="determinate"
-                    value={
-                      fileStatus[file.name] === 'analyzing'
-                        ? analysisProgress[file.name] || 0
-                        : uploadProgress[file.name] || 0
-                    }
-                    sx={{ height: 8, borderRadius: 4 }}
-                  />
+                  {fileStatus[id] === 'queued' ||
+                  fileStatus[id] === 'extracting' ||
+                  fileStatus[id] === 'analyzing' ? (
+                    <AnalysisProgressBar progress={analysisProgress[id]} />
+                  ) : (
+                    <LinearProgress
+                      variant="determinate"
+                      value={
+                        fileStatus[id] === 'completed'
+                          ? 100
+                          : uploadProgress[id] || 0
+                      }
+                      sx={{ height: 8, borderRadius: 4 }}
+                    />
+                  )}
                 </Box>
                 <Box sx={{ minWidth: 35 }}>
                   <Typography variant="body2" color="text.secondary">
-                    {`${Math.round(
-                      fileStatus[file.name] === 'analyzing'
-                        ? analysisProgress[file.name] || 0
-                        : uploadProgress[file.name] || 0
-                    )}%`}
+                    {fileStatus[id] === 'uploading' ||
+                    fileStatus[id] === 'paused'
+                      ? `${Math.round(uploadProgress[id] || 0)}%`
+                      : ''}
                   </Typography>
                 </Box>
                 <IconButton
                   size="small"
-                  onClick={() => handlePauseResume(file.name)}
+                  onClick={() => handlePauseResume(id)}
                   disabled={
-                    fileStatus[file.name] === 'completed' ||
-                    fileStatus[file.name] === 'analyzing'
+                    fileStatus[id] !== 'uploading' &&
+                    fileStatus[id] !== 'paused'
                   }
                 >
-                  {fileStatus[file.name] === 'paused' ? (
+                  {fileStatus[id] === 'paused' ? (
                     <PlayArrowIcon fontSize="small" />
                   ) : (
                     <PauseIcon fontSize="small" />
@@ -319,33 +416,37 @@ const FileUpload: React.FC<FileUploadProps> = ({
                 </IconButton>
                 <IconButton
                   size="small"
-                  onClick={() => handleCancel(file.name)}
-                  disabled={fileStatus[file.name] === 'completed'}
+                  onClick={() => handleCancel(id)}
+                  disabled={
+                    fileStatus[id] !== 'uploading' &&
+                    fileStatus[id] !== 'paused'
+                  }
                 >
                   <CancelIcon fontSize="small" />
                 </IconButton>
               </Box>
               <Typography variant="body2" sx={{ mb: 0.5 }}>
-                {fileStatus[file.name] === 'analyzing'
-                  ? 'Analyzing...'
-                  : fileStatus[file.name]}
+                {fileStatus[id] && STATUS_LABELS[fileStatus[id]]}
               </Typography>
               <Stepper
-                activeStep={
-                  fileStatus[file.name] === 'uploading'
-                    ? 0
-                    : fileStatus[file.name] === 'analyzing'
-                    ? 1
-                    : fileStatus[file.name] === 'completed'
-                    ? 2
-                    : 0
-                }
+                activeStep={Math.max(
+                  0,
+                  ANALYSIS_STEPS.indexOf(
+                    fileStatus[id] === 'paused' ? 'uploading' : fileStatus[id]
+                  )
+                )}
                 sx={{ mt: 1 }}
                 alternativeLabel
               >
                 <Step>
                   <StepLabel>Upload</StepLabel>
                 </Step>
+                <Step>
+                  <StepLabel>Queue</StepLabel>
+                </Step>
+                <Step>
+                  <StepLabel>Extract</StepLabel>
+                </Step>
                 <Step>
                   <StepLabel>Analyze</StepLabel>
                 </Step>
@@ -358,8 +459,8 @@ const FileUpload: React.FC<FileUploadProps> = ({
         </Box>
       )}
       <Alert severity="info" sx={{ mt: 2 }}>
-        As an MVP, we currently support PDF uploads only. You can upload up to
-        10 PDF files simultaneously, with each file not exceeding 10MB in size.
+        Supported formats are PDF, DOCX, XLSX and PPTX. You can upload up to 10
+        files simultaneously, with each file not exceeding 10MB in size.
       </Alert>
     </Box>
   );
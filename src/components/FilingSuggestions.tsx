@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { auth } from '../services/firebase';
+import {
+  acceptFilingSuggestion,
+  dismissFilingSuggestion,
+} from '../services/autoFiling';
+import { formatFolderPath } from '../services/folders';
+import { FileInfo, Folder } from '../types';
+
+interface FilingSuggestionsProps {
+  files: FileInfo[];
+  folders: Folder[];
+}
+
+const FilingSuggestions: React.FC<FilingSuggestionsProps> = ({
+  files,
+  folders,
+}) => {
+  const [user] = useAuthState(auth);
+  const [error, setError] = useState<string | null>(null);
+
+  // 제안된 폴더가 그 사이 지워졌으면 보여주지 않습니다.
+  const suggestedFiles = files.filter(
+    (file) =>
+      file.filingSuggestion &&
+      folders.some((folder) => folder.id === file.filingSuggestion?.folderId)
+  );
+
+  const handleAccept = async (filesToMove: FileInfo[]) => {
+    if (!user) return;
+    try {
+      for (const file of filesToMove) {
+        await acceptFilingSuggestion(user.uid, file);
+      }
+    } catch (error) {
+      console.error('Error filing document:', error);
+      setError('Failed to move the document. Please try again.');
+    }
+  };
+
+  const handleDismiss = async (fileId: string) => {
+    if (!user) return;
+    try {
+      await dismissFilingSuggestion(user.uid, fileId);
+    } catch (error) {
+      console.error('Error dismissing suggestion:', error);
+      setError('Failed to dismiss the suggestion. Please try again.');
+    }
+  };
+
+  if (suggestedFiles.length === 0) return null;
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      <List dense>
+        {suggestedFiles.map((file) => (
+          <ListItem
+            key={file.id}
+            secondaryAction={
+              <>
+                <Button size="small" onClick={() => handleAccept([file])}>
+                  Move
+                </Button>
+                <Button size="small" onClick={() => handleDismiss(file.id)}>
+                  Dismiss
+                </Button>
+              </>
+            }
+          >
+            <ListItemText
+              primary={file.name}
+              secondary={`Move to ${formatFolderPath(
+                folders,
+                file.filingSuggestion!.folderId
+              )} (matched "${file.filingSuggestion!.matchedKeyword}")`}
+              sx={{ pr: 16 }}
+            />
+          </ListItem>
+        ))}
+      </List>
+      <Button variant="outlined" onClick={() => handleAccept(suggestedFiles)}>
+        Accept All ({suggestedFiles.length})
+      </Button>
+    </Box>
+  );
+};
+
+export default FilingSuggestions;
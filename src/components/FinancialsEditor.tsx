@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { auth } from '../services/firebase';
+import {
+  createFinancialRecordId,
+  deleteFinancialRecord,
+  saveFinancialRecord,
+  subscribeToFinancials,
+} from '../services/financials';
+import { FileInfo, FinancialRecord } from '../types';
+
+interface FinancialsEditorProps {
+  file: FileInfo;
+}
+
+type Column = keyof Omit<FinancialRecord, 'id' | 'source'>;
+
+const COLUMNS: { key: Column; label: string; numeric?: boolean }[] = [
+  { key: 'period', label: 'Period' },
+  { key: 'periodEnd', label: 'Period End' },
+  { key: 'currency', label: 'Currency' },
+  { key: 'revenue', label: 'Revenue', numeric: true },
+  { key: 'cogs', label: 'COGS', numeric: true },
+  { key: 'opex', label: 'Opex', numeric: true },
+  { key: 'ebitda', label: 'EBITDA', numeric: true },
+  { key: 'cash', label: 'Cash', numeric: true },
+  { key: 'burn', label: 'Monthly Burn', numeric: true },
+];
+
+const formatCell = (value: string | number | null) =>
+  value === null || value === undefined
+    ? ''
+    : typeof value === 'number'
+    ? value.toLocaleString()
+    : value;
+
+// 쉼표와 공백을 지운 뒤 숫자로 읽습니다. 빈 칸은 값 없음(null)입니다.
+const parseAmount = (input: string): number | null | undefined => {
+  const cleaned = input.replace(/[,\s]/g, '');
+  if (!cleaned) return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+// 추출한 재무 수치를 표에서 바로 고칩니다. 칸에서 벗어날 때 저장하고,
+// 고친 행은 다시 분석해도 덮어쓰지 않습니다.
+const FinancialsEditor: React.FC<FinancialsEditorProps> = ({ file }) => {
+  const [user] = useAuthState(auth);
+  const [records, setRecords] = useState<FinancialRecord[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToFinancials(user.uid, file.id, setRecords);
+  }, [user, file.id]);
+
+  const draftKey = (record: FinancialRecord, column: Column) =>
+    `${record.id}:${column}`;
+
+  const handleBlur = async (record: FinancialRecord, column: Column) => {
+    const key = draftKey(record, column);
+    const input = drafts[key];
+    if (!user || input === undefined) return;
+    setDrafts(({ [key]: _, ...rest }) => rest);
+
+    const numeric = COLUMNS.find(
+      (candidate) => candidate.key === column
+    )?.numeric;
+    let value: string | number | null;
+    if (numeric) {
+      const amount = parseAmount(input);
+      if (amount === undefined) {
+        setError(`"${input}" is not a number.`);
+        return;
+      }
+      value = amount;
+    } else {
+      value = input.trim() || (column === 'period' ? record.period : null);
+    }
+    if (value === record[column]) return;
+
+    try {
+      setError(null);
+      await saveFinancialRecord(user.uid, file.id, {
+        ...record,
+        [column]: value,
+      });
+    } catch (saveError) {
+      console.error('Error saving financial record:', saveError);
+      setError('Failed to save the change. Please try again.');
+    }
+  };
+
+  const handleAddRow = async () => {
+    if (!user) return;
+    await saveFinancialRecord(user.uid, file.id, {
+      id: createFinancialRecordId(user.uid, file.id),
+      period: 'New period',
+      periodEnd: null,
+      currency: records[records.length - 1]?.currency || null,
+      source: 'edited',
+      revenue: null,
+      cogs: null,
+      opex: null,
+      ebitda: null,
+      cash: null,
+      burn: null,
+    });
+  };
+
+  const handleDeleteRow = async (record: FinancialRecord) => {
+    if (!user) return;
+    await deleteFinancialRecord(user.uid, file.id, record.id);
+  };
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {records.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          No figures were extracted from this document yet.
+        </Typography>
+      ) : (
+        <Box sx={{ overflowX: 'auto' }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                {COLUMNS.map((column) => (
+                  <TableCell
+                    key={column.key}
+                    align={column.numeric ? 'right' : 'left'}
+                  >
+                    {column.label}
+                  </TableCell>
+                ))}
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {records.map((record) => (
+                <TableRow key={record.id}>
+                  {COLUMNS.map((column) => (
+                    <TableCell key={column.key} sx={{ minWidth: 110 }}>
+                      <TextField
+                        variant="standard"
+                        fullWidth
+                        value={
+                          drafts[draftKey(record, column.key)] ??
+                          formatCell(record[column.key])
+                        }
+                        onChange={(event) =>
+                          setDrafts((current) => ({
+                            ...current,
+                            [draftKey(record, column.key)]: event.target.value,
+                          }))
+                        }
+                        onBlur={() => handleBlur(record, column.key)}
+                        inputProps={{
+                          style: {
+                            textAlign: column.numeric ? 'right' : 'left',
+                          },
+                        }}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                    {record.source === 'edited' && (
+                      <Chip label="Edited" size="small" sx={{ mr: 0.5 }} />
+                    )}
+                    <IconButton
+                      size="small"
+                      onClick={() => handleDeleteRow(record)}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+      )}
+      <Button
+        size="small"
+        startIcon={<AddIcon />}
+        onClick={handleAddRow}
+        sx={{ mt: 1 }}
+      >
+        Add Period
+      </Button>
+    </Box>
+  );
+};
+
+export default FinancialsEditor;
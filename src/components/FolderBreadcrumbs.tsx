@@ -0,0 +1,86 @@
+import React from 'react';
+import { Breadcrumbs, Link, Typography } from '@mui/material';
+import { DragItem, useDropTarget } from './FolderView';
+import { formatFolderName } from '../services/folders';
+import { Folder } from '../types';
+
+interface CrumbProps {
+  label: string;
+  folderId: string | null;
+  onNavigate: (folderId: string | null) => void;
+  onDropItem: (item: DragItem, folderId: string | null) => void;
+}
+
+const Crumb: React.FC<CrumbProps> = ({
+  label,
+  folderId,
+  onNavigate,
+  onDropItem,
+}) => {
+  const { isOver, dropProps } = useDropTarget((item) =>
+    onDropItem(item, folderId)
+  );
+
+  return (
+    <Link
+      component="button"
+      underline="hover"
+      color="inherit"
+      onClick={() => onNavigate(folderId)}
+      {...dropProps}
+      sx={{
+        px: 0.5,
+        borderRadius: 1,
+        backgroundColor: isOver ? 'action.selected' : 'transparent',
+      }}
+    >
+      {label}
+    </Link>
+  );
+};
+
+interface FolderBreadcrumbsProps {
+  path: Folder[];
+  onNavigate: (folderId: string | null) => void;
+  onDropItem: (item: DragItem, folderId: string | null) => void;
+}
+
+// 상위 폴더로 이동하거나, 항목을 끌어다 놓아 상위 폴더로 옮길 수 있습니다.
+const FolderBreadcrumbs: React.FC<FolderBreadcrumbsProps> = ({
+  path,
+  onNavigate,
+  onDropItem,
+}) => {
+  const current = path[path.length - 1];
+
+  return (
+    <Breadcrumbs sx={{ mb: 1 }}>
+      {current ? (
+        <Crumb
+          label="Data Room"
+          folderId={null}
+          onNavigate={onNavigate}
+          onDropItem={onDropItem}
+        />
+      ) : (
+        <Typography color="text.primary">Data Room</Typography>
+      )}
+      {path.slice(0, -1).map((folder) => (
+        <Crumb
+          key={folder.id}
+          label={formatFolderName(folder)}
+          folderId={folder.id}
+          onNavigate={onNavigate}
+          onDropItem={onDropItem}
+        />
+      ))}
+      {current && (
+        <Typography color="text.primary">
+          {formatFolderName(current)}
+        </Typography>
+      )}
+    </Breadcrumbs>
+  );
+};
+
+export default FolderBreadcrumbs;
@@ -1,62 +1,146 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
+  IconButton,
   List,
   ListItem,
-  ListItemText,
+  ListItemButton,
   ListItemIcon,
-  IconButton,
+  ListItemText,
 } from '@mui/material';
 import FolderIcon from '@mui/icons-material/Folder';
-import InsertDriveFileIcon from '@mui/icons-material/InsertDriveFile';
+import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
-import { FileInfo } from '../types';
+import { formatFolderName } from '../services/folders';
+import { Folder } from '../types';
 
-interface Folder {
+const DRAG_ITEM_TYPE = 'application/x-onevdr-item';
+
+export interface DragItem {
+  type: 'file' | 'folder';
   id: string;
-  name: string;
-  parentId: string | null;
 }
 
+export const setDragItem = (event: React.DragEvent, item: DragItem) => {
+  event.dataTransfer.setData(DRAG_ITEM_TYPE, JSON.stringify(item));
+  event.dataTransfer.effectAllowed = 'move';
+};
+
+export const getDragItem = (event: React.DragEvent): DragItem | null => {
+  const data = event.dataTransfer.getData(DRAG_ITEM_TYPE);
+  return data ? (JSON.parse(data) as DragItem) : null;
+};
+
+// 폴더 행과 브레드크럼이 함께 쓰는 드롭 대상 props 입니다.
+export const useDropTarget = (
+  onDrop: (item: DragItem) => void
+): {
+  isOver: boolean;
+  dropProps: Pick<
+    React.HTMLAttributes<HTMLElement>,
+    'onDragOver' | 'onDragLeave' | 'onDrop'
+  >;
+} => {
+  const [isOver, setIsOver] = useState(false);
+  return {
+    isOver,
+    dropProps: {
+      onDragOver: (event) => {
+        if (event.dataTransfer.types.includes(DRAG_ITEM_TYPE)) {
+          event.preventDefault();
+          setIsOver(true);
+        }
+      },
+      onDragLeave: () => setIsOver(false),
+      onDrop: (event) => {
+        event.preventDefault();
+        setIsOver(false);
+        const item = getDragItem(event);
+        if (item) onDrop(item);
+      },
+    },
+  };
+};
+
+interface FolderRowProps {
+  folder: Folder;
+  onOpen: (folder: Folder) => void;
+  onRename: (folder: Folder) => void;
+  onDelete: (folder: Folder) => void;
+  onDropItem: (item: DragItem, folderId: string | null) => void;
+}
+
+const FolderRow: React.FC<FolderRowProps> = ({
+  folder,
+  onOpen,
+  onRename,
+  onDelete,
+  onDropItem,
+}) => {
+  const { isOver, dropProps } = useDropTarget((item) =>
+    onDropItem(item, folder.id)
+  );
+
+  return (
+    <ListItem
+      disablePadding
+      draggable
+      onDragStart={(event) =>
+        setDragItem(event, { type: 'folder', id: folder.id })
+      }
+      {...dropProps}
+      sx={{
+        borderRadius: 1,
+        backgroundColor: isOver ? 'action.selected' : 'transparent',
+      }}
+      secondaryAction={
+        <>
+          <IconButton aria-label="rename" onClick={() => onRename(folder)}>
+            <EditIcon fontSize="small" />
+          </IconButton>
+          <IconButton aria-label="delete" onClick={() => onDelete(folder)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </>
+      }
+    >
+      <ListItemButton onClick={() => onOpen(folder)}>
+        <ListItemIcon>
+          <FolderIcon />
+        </ListItemIcon>
+        <ListItemText primary={formatFolderName(folder)} />
+      </ListItemButton>
+    </ListItem>
+  );
+};
+
 interface FolderViewProps {
   folders: Folder[];
-  files: FileInfo[];
   onFolderSelect: (folder: Folder) => void;
-  onFileSelect: (file: FileInfo) => void;
-  onDeleteFile: (fileId: string) => void;
+  onRenameFolder: (folder: Folder) => void;
+  onDeleteFolder: (folder: Folder) => void;
+  onDropItem: (item: DragItem, folderId: string | null) => void;
 }
 
 const FolderView: React.FC<FolderViewProps> = ({
   folders,
-  files,
   onFolderSelect,
-  onFileSelect,
-  onDeleteFile,
+  onRenameFolder,
+  onDeleteFolder,
+  onDropItem,
 }) => {
+  if (folders.length === 0) return null;
+
   return (
-    <List>
+    <List dense>
       {folders.map((folder) => (
-        <ListItem key={folder.id} button onClick={() => onFolderSelect(folder)}>
-          <ListItemIcon>
-            <FolderIcon />
-          </ListItemIcon>
-          <ListItemText primary={folder.name} />
-        </ListItem>
-      ))}
-      {files.map((file) => (
-        <ListItem key={file.id} button onClick={() => onFileSelect(file)}>
-          <ListItemIcon>
-            <InsertDriveFileIcon />
-          </ListItemIcon>
-          <ListItemText
-            primary={file.name}
-            secondary={`Size: ${file.size} | Date: ${new Date(
-              file.uploadDate
-            ).toLocaleDateString()}`}
-          />
-          <IconButton onClick={() => onDeleteFile(file.id)}>
-            <DeleteIcon />
-          </IconButton>
-        </ListItem>
+        <FolderRow
+          key={folder.id}
+          folder={folder}
+          onOpen={onFolderSelect}
+          onRename={onRenameFolder}
+          onDelete={onDeleteFolder}
+          onDropItem={onDropItem}
+        />
       ))}
     </List>
   );
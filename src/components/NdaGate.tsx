@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  FormControlLabel,
+  Paper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { acceptNda } from '../services/nda';
+
+interface NdaGateProps {
+  shareId: string;
+  fileName: string;
+  nda: { title: string; body: string; version: number };
+  onAccepted: (acceptanceId: string) => void;
+}
+
+const NdaGate: React.FC<NdaGateProps> = ({
+  shareId,
+  fileName,
+  nda,
+  onAccepted,
+}) => {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [agreed, setAgreed] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const acceptanceId = await acceptNda({
+        shareId,
+        name,
+        email,
+        ndaVersion: nda.version,
+      });
+      onAccepted(acceptanceId);
+    } catch (error) {
+      console.error('Error accepting NDA:', error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : 'Failed to record your acceptance. Please try again.'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Box sx={{ maxWidth: '800px', margin: '0 auto', padding: '20px' }}>
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h5" sx={{ fontWeight: 'bold' }} gutterBottom>
+          {nda.title}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          You must accept this agreement before viewing "{fileName}".
+        </Typography>
+        <Box
+          sx={{
+            my: 2,
+            p: 2,
+            maxHeight: '50vh',
+            overflowY: 'auto',
+            backgroundColor: '#f5f5f5',
+            borderRadius: 1,
+            whiteSpace: 'pre-wrap',
+          }}
+        >
+          <Typography variant="body2">{nda.body}</Typography>
+        </Box>
+        <TextField
+          fullWidth
+          label="Full Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          margin="normal"
+        />
+        <TextField
+          fullWidth
+          type="email"
+          label="Email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          margin="normal"
+        />
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={agreed}
+              onChange={(e) => setAgreed(e.target.checked)}
+            />
+          }
+          label="I have read and agree to the terms of this agreement"
+        />
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Box sx={{ mt: 2, textAlign: 'right' }}>
+          <Button
+            variant="contained"
+            onClick={handleAccept}
+            disabled={!agreed || !name.trim() || !email.trim() || isSubmitting}
+          >
+            {isSubmitting ? <CircularProgress size={24} /> : 'Accept and View'}
+          </Button>
+        </Box>
+      </Paper>
+    </Box>
+  );
+};
+
+export default NdaGate;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Box, Tooltip, Typography } from '@mui/material';
+import { DocumentActivity } from '../types';
+
+interface PageHeatmapProps {
+  activity: DocumentActivity;
+  fileName: string;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const PageHeatmap: React.FC<PageHeatmapProps> = ({ activity, fileName }) => {
+  const dwellPages = Object.keys(activity.pageDwell).map(Number);
+  const pageCount = Math.max(activity.pageCount || 0, ...dwellPages, 0);
+  const maxDwell = Math.max(...Object.values(activity.pageDwell), 0);
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Typography variant="subtitle2">{fileName}</Typography>
+      <Typography variant="caption" color="text.secondary" display="block">
+        {activity.views} views · {activity.downloads} downloads ·{' '}
+        {formatDuration(activity.totalMs)} total
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 1 }}>
+        {Array.from({ length: pageCount }, (_, index) => {
+          const dwell = activity.pageDwell[String(index + 1)] || 0;
+          // 가장 오래 본 페이지를 기준으로 색의 진하기를 정합니다.
+          const intensity = maxDwell ? dwell / maxDwell : 0;
+          return (
+            <Tooltip
+              key={index}
+              title={`Page ${index + 1}: ${formatDuration(dwell)}`}
+            >
+              <Box
+                sx={{
+                  width: 24,
+                  height: 24,
+                  borderRadius: '4px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  fontSize: 10,
+                  color: intensity > 0.6 ? 'white' : 'text.secondary',
+                  backgroundColor: dwell
+                    ? `rgba(211, 47, 47, ${0.15 + intensity * 0.85})`
+                    : 'rgba(0, 0, 0, 0.06)',
+                }}
+              >
+                {index + 1}
+              </Box>
+            </Tooltip>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+};
+
+export default PageHeatmap;
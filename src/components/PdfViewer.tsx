@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Box, CircularProgress, Paper } from '@mui/material';
+import * as pdfjsLib from 'pdfjs-dist';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
+  'pdfjs-dist/build/pdf.worker.min.js',
+  import.meta.url
+).toString();
+
+const RENDER_SCALE = 1.5;
+
+interface PdfViewerProps {
+  source: string;
+  viewOnly: boolean;
+  onLoad?: (pageCount: number) => void;
+  // 화면에 가장 많이 보이는 페이지(1부터)가 바뀔 때 호출됩니다.
+  onPageChange?: (page: number) => void;
+}
+
+const PdfViewer: React.FC<PdfViewerProps> = ({
+  source,
+  viewOnly,
+  onLoad,
+  onPageChange,
+}) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+  const onLoadRef = useRef(onLoad);
+  const onPageChangeRef = useRef(onPageChange);
+  onLoadRef.current = onLoad;
+  onPageChangeRef.current = onPageChange;
+
+  useEffect(() => {
+    const loadingTask = pdfjsLib.getDocument({ url: source });
+    loadingTask.promise.then(setPdf).catch((error) => {
+      console.error('Error loading PDF:', error);
+      setError('Failed to load the document.');
+    });
+    return () => {
+      loadingTask.destroy();
+    };
+  }, [source]);
+
+  useEffect(() => {
+    if (!pdf) return;
+
+    let cancelled = false;
+    const renderPages = async () => {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const canvas = canvasRefs.current[pageNumber - 1];
+        if (cancelled || !canvas) return;
+
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: RENDER_SCALE });
+        const context = canvas.getContext('2d');
+        if (!context) continue;
+
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        await page.render({ canvasContext: context, viewport }).promise;
+      }
+    };
+    renderPages().catch((error) => {
+      console.error('Error rendering PDF:', error);
+      setError('Failed to render the document.');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  useEffect(() => {
+    if (!pdf) return;
+    onLoadRef.current?.(pdf.numPages);
+
+    const visibility = new Map<Element, number>();
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) =>
+          visibility.set(entry.target, entry.intersectionRatio)
+        );
+        let visiblePage = 0;
+        let maxRatio = 0;
+        canvasRefs.current.forEach((canvas, index) => {
+          const ratio = (canvas && visibility.get(canvas)) || 0;
+          if (ratio > maxRatio) {
+            maxRatio = ratio;
+            visiblePage = index + 1;
+          }
+        });
+        if (visiblePage) {
+          onPageChangeRef.current?.(visiblePage);
+        }
+      },
+      { threshold: [0, 0.25, 0.5, 0.75, 1] }
+    );
+    canvasRefs.current.forEach((canvas) => canvas && observer.observe(canvas));
+    return () => observer.disconnect();
+  }, [pdf]);
+
+  // 열람 전용 모드에서는 저장/인쇄 단축키를 막습니다.
+  useEffect(() => {
+    if (!viewOnly) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        (event.ctrlKey || event.metaKey) &&
+        ['s', 'p'].includes(event.key.toLowerCase())
+      ) {
+        event.preventDefault();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [viewOnly]);
+
+  if (error) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+
+  if (!pdf) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box
+      onContextMenu={(event) => viewOnly && event.preventDefault()}
+      sx={{
+        userSelect: viewOnly ? 'none' : 'auto',
+        '@media print': viewOnly ? { display: 'none' } : {},
+      }}
+    >
+      {Array.from({ length: pdf.numPages }, (_, index) => (
+        <Paper key={index} sx={{ mb: 2, overflow: 'hidden' }}>
+          <canvas
+            ref={(element) => (canvasRefs.current[index] = element)}
+            style={{ width: '100%', display: 'block' }}
+          />
+        </Paper>
+      ))}
+    </Box>
+  );
+};
+
+export default PdfViewer;
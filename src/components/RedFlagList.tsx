@@ -0,0 +1,88 @@
+import React from 'react';
+import { Box, Chip, Link, List, ListItem, Typography } from '@mui/material';
+import { RED_FLAG_LABELS } from '../services/legalReview';
+import { FileInfo, RedFlag, RedFlagSeverity } from '../types';
+
+interface RedFlagListProps {
+  file: FileInfo;
+  flags: RedFlag[];
+}
+
+const SEVERITY_COLORS: Record<
+  RedFlagSeverity,
+  'error' | 'warning' | 'default'
+> = {
+  high: 'error',
+  medium: 'warning',
+  low: 'default',
+};
+
+// 조항이 있는 페이지로 여는 링크입니다. PDF 가 아니면 파일 자체를 엽니다.
+const pageUrl = (file: FileInfo, page: number) =>
+  !file.contentType || file.contentType === 'application/pdf'
+    ? `${file.url}#page=${page}`
+    : file.url;
+
+const RedFlagList: React.FC<RedFlagListProps> = ({ file, flags }) => {
+  if (flags.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No red flags were found in this document.
+      </Typography>
+    );
+  }
+
+  return (
+    <List disablePadding>
+      {flags.map((flag, index) => (
+        <ListItem
+          key={index}
+          disableGutters
+          sx={{ display: 'block', borderBottom: 1, borderColor: 'divider' }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+            <Chip
+              label={flag.severity}
+              size="small"
+              color={SEVERITY_COLORS[flag.severity]}
+            />
+            <Chip
+              label={RED_FLAG_LABELS[flag.type]}
+              size="small"
+              variant="outlined"
+            />
+            <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+              {flag.title}
+            </Typography>
+            {flag.page === null ? (
+              <Typography variant="body2" color="text.secondary">
+                Page not verified
+              </Typography>
+            ) : (
+              <Link
+                href={pageUrl(file, flag.page)}
+                target="_blank"
+                rel="noopener noreferrer"
+                variant="body2"
+              >
+                p. {flag.page}
+              </Link>
+            )}
+          </Box>
+          <Typography variant="body2">{flag.explanation}</Typography>
+          {flag.quote && (
+            <Typography
+              variant="body2"
+              color="text.secondary"
+              sx={{ mt: 0.5, pl: 1.5, borderLeft: 3, borderColor: 'divider' }}
+            >
+              “{flag.quote}”
+            </Typography>
+          )}
+        </ListItem>
+      ))}
+    </List>
+  );
+};
+
+export default RedFlagList;
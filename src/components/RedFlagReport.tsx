@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Alert,
+  Box,
+  Button,
+  Chip,
+  LinearProgress,
+  Typography,
+} from '@mui/material';
+import { ExpandMore as ExpandMoreIcon } from '@mui/icons-material';
+import RedFlagList from './RedFlagList';
+import {
+  buildRedFlagReport,
+  RED_FLAG_LABELS,
+  runLegalReview,
+} from '../services/legalReview';
+import { FileInfo, RedFlagType } from '../types';
+
+interface RedFlagReportProps {
+  files: FileInfo[];
+}
+
+// 투자자에게 데이터룸을 열기 전에 실사에서 지적될 조항을 한곳에서 봅니다.
+const RedFlagReport: React.FC<RedFlagReportProps> = ({ files }) => {
+  const report = useMemo(() => buildRedFlagReport(files), [files]);
+  const [reviewing, setReviewing] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 검토는 문서마다 모델을 여러 번 부르므로 한 번에 하나씩 돌립니다.
+  const handleReviewPending = async () => {
+    const pending = report.pending;
+    setError(null);
+    setReviewing({ done: 0, total: pending.length });
+    let failed = 0;
+    for (let index = 0; index < pending.length; index++) {
+      try {
+        await runLegalReview(pending[index].id);
+      } catch (reviewError) {
+        console.error('Error reviewing document:', reviewError);
+        failed++;
+      }
+      setReviewing({ done: index + 1, total: pending.length });
+    }
+    setReviewing(null);
+    if (failed > 0) {
+      setError(`${failed} document(s) could not be reviewed.`);
+    }
+  };
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        <Chip label={`${report.reviewedCount} contracts reviewed`} />
+        <Chip
+          label={`${report.bySeverity.high} high`}
+          color="error"
+          variant={report.bySeverity.high ? 'filled' : 'outlined'}
+        />
+        <Chip
+          label={`${report.bySeverity.medium} medium`}
+          color="warning"
+          variant={report.bySeverity.medium ? 'filled' : 'outlined'}
+        />
+        <Chip label={`${report.bySeverity.low} low`} variant="outlined" />
+        {(Object.keys(report.byType) as RedFlagType[]).map((type) => (
+          <Chip
+            key={type}
+            label={`${RED_FLAG_LABELS[type]}: ${report.byType[type]}`}
+            size="small"
+            variant="outlined"
+          />
+        ))}
+      </Box>
+
+      {report.pending.length > 0 && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="body2" sx={{ mb: 1 }}>
+            {report.pending.length} contract(s) were analysed before legal
+            review was available.
+          </Typography>
+          {reviewing ? (
+            <LinearProgress
+              variant="determinate"
+              value={(reviewing.done / reviewing.total) * 100}
+            />
+          ) : (
+            <Button
+              variant="outlined"
+              size="small"
+              onClick={handleReviewPending}
+            >
+              Review Pending Contracts
+            </Button>
+          )}
+        </Box>
+      )}
+
+      {report.documents.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {report.reviewedCount > 0
+            ? 'No red flags were found in the reviewed contracts.'
+            : 'Contracts are reviewed automatically once their analysis finishes.'}
+        </Typography>
+      ) : (
+        report.documents.map((file) => (
+          <Accordion key={file.id} disableGutters>
+            <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+              <Typography sx={{ flexGrow: 1 }}>
+                {file.indexNumber ? `${file.indexNumber} ` : ''}
+                {file.name}
+              </Typography>
+              <Chip
+                label={`${file.legalReview.flags.length} flag(s)`}
+                size="small"
+                color={
+                  file.legalReview.riskLevel === 'high'
+                    ? 'error'
+                    : file.legalReview.riskLevel === 'medium'
+                    ? 'warning'
+                    : 'default'
+                }
+                sx={{ mr: 1 }}
+              />
+            </AccordionSummary>
+            <AccordionDetails>
+              <RedFlagList file={file} flags={file.legalReview.flags} />
+            </AccordionDetails>
+          </Accordion>
+        ))
+      )}
+    </Box>
+  );
+};
+
+export default RedFlagReport;
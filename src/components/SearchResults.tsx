@@ -0,0 +1,81 @@
+import React from 'react';
+import {
+  Box,
+  Link,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { FileInfo, SearchHit, SearchHitPage } from '../types';
+
+interface SearchResultsProps {
+  hits: SearchHit[];
+  files: FileInfo[];
+}
+
+// 겹치는 강조 구간을 합쳐 스니펫을 <mark> 로 나눠 그립니다.
+const HighlightedSnippet: React.FC<{ page: SearchHitPage }> = ({ page }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  page.highlights.forEach(({ start, end }, index) => {
+    if (end <= cursor) return;
+    const from = Math.max(start, cursor);
+    if (from > cursor) parts.push(page.snippet.slice(cursor, from));
+    parts.push(<mark key={index}>{page.snippet.slice(from, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(page.snippet.slice(cursor));
+  return <>{parts}</>;
+};
+
+const SearchResults: React.FC<SearchResultsProps> = ({ hits, files }) => {
+  if (hits.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No matches in document contents.
+      </Typography>
+    );
+  }
+
+  return (
+    <List dense>
+      {hits.map((hit) => {
+        const file = files.find((file) => file.id === hit.fileId);
+        // PDF 는 브라우저 뷰어가 #page 로 해당 페이지를 바로 엽니다.
+        const pageUrl = (page: number) =>
+          file &&
+          (file.contentType === 'application/pdf' || !file.contentType
+            ? `${file.url}#page=${page}`
+            : file.url);
+        return (
+          <ListItem key={hit.fileId} alignItems="flex-start">
+            <ListItemText
+              primary={
+                file?.indexNumber
+                  ? `${file.indexNumber} ${hit.fileName}`
+                  : hit.fileName
+              }
+              secondaryTypographyProps={{ component: 'div' }}
+              secondary={hit.pages.map((page) => (
+                <Box key={page.page} sx={{ mt: 0.5 }}>
+                  <Link
+                    href={pageUrl(page.page)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    sx={{ mr: 1, fontWeight: 'bold' }}
+                  >
+                    Page {page.page}
+                  </Link>
+                  <HighlightedSnippet page={page} />
+                </Box>
+              ))}
+            />
+          </ListItem>
+        );
+      })}
+    </List>
+  );
+};
+
+export default SearchResults;
@@ -1,6 +1,8 @@
 import {
   Description,
   Email as EmailIcon,
+  Gavel,
+  Share,
   TrendingUp,
 } from '@mui/icons-material';
 import {
@@ -105,6 +107,50 @@ const Sidebar: React.FC = () => {
             }}
           />
         </ListItem>
+        <ListItem
+          button
+          onClick={() => navigate('/shares')}
+          sx={{
+            backgroundColor: isActive('/shares')
+              ? 'rgba(33, 150, 243, 0.1)'
+              : 'transparent',
+            '&:hover': { backgroundColor: 'rgba(33, 150, 243, 0.1)' },
+          }}
+        >
+          <ListItemIcon>
+            <Share
+              sx={{ color: isActive('/shares') ? '#2196f3' : 'inherit' }}
+            />
+          </ListItemIcon>
+          <ListItemText
+            primary="Shares"
+            primaryTypographyProps={{
+              fontWeight: isActive('/shares') ? 'bold' : 'medium',
+              color: isActive('/shares') ? '#2196f3' : 'inherit',
+            }}
+          />
+        </ListItem>
+        <ListItem
+          button
+          onClick={() => navigate('/ndas')}
+          sx={{
+            backgroundColor: isActive('/ndas')
+              ? 'rgba(33, 150, 243, 0.1)'
+              : 'transparent',
+            '&:hover': { backgroundColor: 'rgba(33, 150, 243, 0.1)' },
+          }}
+        >
+          <ListItemIcon>
+            <Gavel sx={{ color: isActive('/ndas') ? '#2196f3' : 'inherit' }} />
+          </ListItemIcon>
+          <ListItemText
+            primary="NDAs"
+            primaryTypographyProps={{
+              fontWeight: isActive('/ndas') ? 'bold' : 'medium',
+              color: isActive('/ndas') ? '#2196f3' : 'inherit',
+            }}
+          />
+        </ListItem>
       </List>
     </Drawer>
   );
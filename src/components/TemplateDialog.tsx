@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { auth } from '../services/firebase';
+import {
+  BUILT_IN_TEMPLATES,
+  applyTemplate,
+  deleteTemplate,
+  saveTemplate,
+  subscribeToTemplates,
+} from '../services/templates';
+import { DataRoomTemplate, Folder } from '../types';
+
+interface TemplateDialogProps {
+  open: boolean;
+  onClose: () => void;
+  folders: Folder[];
+}
+
+// 미리보기용으로 최상위 폴더를 번호와 함께 나열합니다.
+const describeTemplate = (template: DataRoomTemplate) =>
+  template.folders.map((folder, index) => `${index + 1}. ${folder.name}`);
+
+const TemplateDialog: React.FC<TemplateDialogProps> = ({
+  open,
+  onClose,
+  folders,
+}) => {
+  const [user] = useAuthState(auth);
+  const [templates, setTemplates] = useState<DataRoomTemplate[]>([]);
+  const [templateName, setTemplateName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToTemplates(user.uid, setTemplates);
+  }, [user]);
+
+  const handleApply = async (template: DataRoomTemplate) => {
+    if (!user) return;
+    try {
+      await applyTemplate(user.uid, folders, template);
+      onClose();
+    } catch (error) {
+      console.error('Error applying template:', error);
+      setError('Failed to apply the template. Please try again.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user || !templateName.trim()) return;
+    setIsSaving(true);
+    try {
+      await saveTemplate(
+        user.uid,
+        templateName.trim(),
+        `Saved from ${folders.length} folders.`,
+        folders
+      );
+      setTemplateName('');
+    } catch (error) {
+      console.error('Error saving template:', error);
+      setError('Failed to save the template. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    if (!user) return;
+    try {
+      await deleteTemplate(user.uid, templateId);
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      setError('Failed to delete the template. Please try again.');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Data Room Templates</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" color="text.secondary">
+          Applying a template creates numbered folders. Documents filed into
+          them are numbered automatically (e.g. 2.3.1).
+        </Typography>
+        <List>
+          {[...BUILT_IN_TEMPLATES, ...templates].map((template) => (
+            <ListItem
+              key={template.id}
+              secondaryAction={
+                <>
+                  {!template.builtIn && (
+                    <IconButton
+                      aria-label="delete"
+                      onClick={() => handleDelete(template.id)}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  )}
+                  <Button size="small" onClick={() => handleApply(template)}>
+                    Apply
+                  </Button>
+                </>
+              }
+            >
+              <ListItemText
+                primary={
+                  <>
+                    {template.name}
+                    {template.builtIn && (
+                      <Chip label="Built-in" size="small" sx={{ ml: 1 }} />
+                    )}
+                  </>
+                }
+                secondary={
+                  <>
+                    {template.description}
+                    <br />
+                    {describeTemplate(template).join(' · ')}
+                  </>
+                }
+                sx={{ pr: 12 }}
+              />
+            </ListItem>
+          ))}
+        </List>
+        <Divider sx={{ my: 2 }} />
+        <Typography variant="subtitle2" gutterBottom>
+          Save current structure as a template
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <TextField
+            size="small"
+            fullWidth
+            label="Template name"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+          />
+          <Button
+            variant="outlined"
+            onClick={handleSave}
+            disabled={!templateName.trim() || folders.length === 0 || isSaving}
+          >
+            Save
+          </Button>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TemplateDialog;
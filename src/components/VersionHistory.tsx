@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { auth } from '../services/firebase';
+import { restoreFileVersion, subscribeToVersions } from '../services/versions';
+import { FileInfo, FileVersion } from '../types';
+
+interface VersionHistoryProps {
+  file: FileInfo;
+}
+
+type DiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+
+const getSummary = (version: FileVersion) =>
+  typeof version.analysis === 'object' ? version.analysis.summary : '';
+
+// 두 요약문을 단어 단위 LCS 로 비교합니다.
+const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], word: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += ` ${word}`;
+    } else {
+      parts.push({ type, text: word });
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ file }) => {
+  const [user] = useAuthState(auth);
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [comparedVersionId, setComparedVersionId] = useState<string | null>(
+    null
+  );
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToVersions(user.uid, file.id, setVersions);
+  }, [user, file.id]);
+
+  const currentVersion = versions.find(
+    (version) => version.id === file.currentVersionId
+  );
+  const comparedVersion = versions.find(
+    (version) => version.id === comparedVersionId
+  );
+
+  const summaryDiff = useMemo(
+    () =>
+      currentVersion && comparedVersion
+        ? diffWords(getSummary(comparedVersion), getSummary(currentVersion))
+        : [],
+    [currentVersion, comparedVersion]
+  );
+
+  const handleRestore = async (version: FileVersion) => {
+    if (!user) return;
+    try {
+      setRestoringId(version.id);
+      setError(null);
+      const { reanalyzing } = await restoreFileVersion(file.id, version.id);
+      setComparedVersionId(null);
+      setNotice(
+        reanalyzing
+          ? `Version ${version.versionNumber} was restored and queued for analysis.`
+          : null
+      );
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      setError('Failed to restore this version. Please try again.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (versions.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        This document has a single version. Upload a file with the same name
+        into the same folder to create a new version.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {notice && (
+        <Alert severity="info" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+      <List dense>
+        {versions.map((version) => {
+          const isCurrent = version.id === file.currentVersionId;
+          return (
+            <ListItem
+              key={version.id}
+              secondaryAction={
+                !isCurrent && (
+                  <>
+                    <Button
+                      size="small"
+                      onClick={() =>
+                        setComparedVersionId(
+                          comparedVersionId === version.id ? null : version.id
+                        )
+                      }
+                    >
+                      {comparedVersionId === version.id ? 'Hide' : 'Compare'}
+                    </Button>
+                    <Button
+                      size="small"
+                      disabled={!!restoringId}
+                      onClick={() => handleRestore(version)}
+                    >
+                      {restoringId === version.id ? 'Restoring...' : 'Restore'}
+                    </Button>
+                  </>
+                )
+              }
+            >
+              <ListItemText
+                primary={
+                  <>
+                    Version {version.versionNumber}
+                    {isCurrent && (
+                      <Chip
+                        label="Current"
+                        color="primary"
+                        size="small"
+                        sx={{ ml: 1 }}
+                      />
+                    )}
+                  </>
+                }
+                secondary={`${new Date(
+                  version.uploadDate
+                ).toLocaleString()} · ${version.size} · ${version.status}`}
+              />
+            </ListItem>
+          );
+        })}
+      </List>
+      {comparedVersion && currentVersion && (
+        <Box
+          sx={{
+            p: 2,
+            borderRadius: 1,
+            backgroundColor: 'rgba(0, 0, 0, 0.03)',
+          }}
+        >
+          <Typography variant="subtitle2" gutterBottom>
+            Summary changes from version {comparedVersion.versionNumber} to
+            version {currentVersion.versionNumber}
+          </Typography>
+          <Typography variant="body2">
+            {summaryDiff.map((part, index) => (
+              <Box
+                component="span"
+                key={index}
+                sx={{
+                  backgroundColor:
+                    part.type === 'added'
+                      ? 'rgba(46, 125, 50, 0.2)'
+                      : part.type === 'removed'
+                      ? 'rgba(211, 47, 47, 0.2)'
+                      : 'transparent',
+                  textDecoration:
+                    part.type === 'removed' ? 'line-through' : 'none',
+                }}
+              >
+                {part.text}{' '}
+              </Box>
+            ))}
+          </Typography>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default VersionHistory;
@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+// 에뮬레이터가 필요하므로 `npm run test:rules` 로 실행할 때만 동작합니다.
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST
+  ? describe
+  : describe.skip;
+
+describeWithEmulator('firestore.rules', () => {
+  let testEnv: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-onevdr',
+      firestore: {
+        rules: readFileSync(resolve(__dirname, '../firestore.rules'), 'utf8'),
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await db.doc('users/alice/investors/inv1').set({ name: 'Fund A' });
+      await db.doc('users/alice/ndaAcceptances/acc1').set({ name: 'Bob' });
+      await db
+        .doc('shares/share1')
+        .set({ createdBy: 'alice', recipientEmail: 'bob@example.com' });
+      await db
+        .doc('activityLogs/inv1/logs/log1')
+        .set({ ownerId: 'alice', action: 'viewed' });
+      await db.doc('dataRoomStats/inv1').set({ ownerId: 'alice' });
+      await db
+        .doc('dataRoomStats/inv1/documents/file1')
+        .set({ ownerId: 'alice', views: 1 });
+    });
+  });
+
+  const firestoreFor = (uid: string | null) =>
+    uid
+      ? testEnv.authenticatedContext(uid).firestore()
+      : testEnv.unauthenticatedContext().firestore();
+
+  describe('users/{uid}', () => {
+    test('owner can read and write their own data', async () => {
+      const db = firestoreFor('alice');
+      await assertSucceeds(db.doc('users/alice/investors/inv1').get());
+      await assertSucceeds(
+        db.doc('users/alice/files/file1').set({ name: 'deck.pdf' })
+      );
+    });
+
+    test('other users cannot read or write', async () => {
+      const db = firestoreFor('mallory');
+      await assertFails(db.doc('users/alice/investors/inv1').get());
+      await assertFails(db.collection('users/alice/investors').get());
+      await assertFails(
+        db.doc('users/alice/files/file1').set({ name: 'deck.pdf' })
+      );
+    });
+
+    test('signed-out users cannot read', async () => {
+      await assertFails(
+        firestoreFor(null).doc('users/alice/investors/inv1').get()
+      );
+    });
+
+    test('owner cannot forge server-written records', async () => {
+      const db = firestoreFor('alice');
+      await assertSucceeds(db.doc('users/alice/ndaAcceptances/acc1').get());
+      await assertFails(
+        db.doc('users/alice/ndaAcceptances/acc2').set({ name: 'Forged' })
+      );
+      await assertFails(
+        db.doc('users/alice/shareSessions/session1').set({ totalMs: 1 })
+      );
+      await assertFails(
+        db.doc('users/alice/searchIndex/revenue').set({ postings: {} })
+      );
+      await assertFails(
+        db.doc('users/alice/chunks/chunk1').set({ text: 'Forged' })
+      );
+    });
+  });
+
+  describe('shares', () => {
+    test('creator can read, others cannot', async () => {
+      await assertSucceeds(firestoreFor('alice').doc('shares/share1').get());
+      await assertFails(firestoreFor('mallory').doc('shares/share1').get());
+    });
+
+    test('creator can query their own shares only', async () => {
+      await assertSucceeds(
+        firestoreFor('alice')
+          .collection('shares')
+          .where('createdBy', '==', 'alice')
+          .get()
+      );
+      await assertFails(firestoreFor('alice').collection('shares').get());
+    });
+
+    test('clients cannot write shares', async () => {
+      const db = firestoreFor('alice');
+      await assertFails(
+        db.doc('shares/share2').set({ createdBy: 'alice', fileId: 'file1' })
+      );
+      await assertFails(db.doc('shares/share1').update({ revoked: true }));
+    });
+  });
+
+  describe('analytics', () => {
+    test('owner can read activity logs and stats', async () => {
+      const db = firestoreFor('alice');
+      await assertSucceeds(
+        db
+          .collection('activityLogs/inv1/logs')
+          .where('ownerId', '==', 'alice')
+          .get()
+      );
+      await assertSucceeds(db.doc('dataRoomStats/inv1').get());
+      await assertSucceeds(db.doc('dataRoomStats/unknown').get());
+      await assertSucceeds(
+        db
+          .collection('dataRoomStats/inv1/documents')
+          .where('ownerId', '==', 'alice')
+          .get()
+      );
+    });
+
+    test('other users cannot read analytics', async () => {
+      const db = firestoreFor('mallory');
+      await assertFails(db.doc('activityLogs/inv1/logs/log1').get());
+      await assertFails(db.doc('dataRoomStats/inv1').get());
+      await assertFails(db.doc('dataRoomStats/inv1/documents/file1').get());
+    });
+
+    test('clients cannot write analytics', async () => {
+      const db = firestoreFor('alice');
+      await assertFails(
+        db.collection('activityLogs/inv1/logs').add({ ownerId: 'alice' })
+      );
+      await assertFails(
+        db.doc('dataRoomStats/inv1').set({ ownerId: 'alice', timeSpent: 99 })
+      );
+    });
+  });
+});
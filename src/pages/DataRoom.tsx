@@ -20,21 +20,62 @@ import {
   ListItem,
   ListItemText,
   Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
 } from '@mui/material';
 import SearchIcon from '@mui/icons-material/Search';
+import CreateNewFolderIcon from '@mui/icons-material/CreateNewFolder';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import RuleFolderIcon from '@mui/icons-material/RuleFolder';
 import { styled, useTheme } from '@mui/material/styles';
-import { auth, db, storage } from '../services/firebase';
-import { FileInfo, User, DataRoomStats, ActivityLog } from '../types';
+import {
+  auth,
+  db,
+  getFileStoragePath,
+  migrateFileIds,
+  storage,
+} from '../services/firebase';
+import {
+  FileInfo,
+  User,
+  DataRoomStats,
+  ActivityLog,
+  Folder,
+  SearchHit,
+} from '../types';
 import FileUpload from '../components/FileUpload';
 import FileList from '../components/FileList';
+import FolderBreadcrumbs from '../components/FolderBreadcrumbs';
+import FolderView, { DragItem } from '../components/FolderView';
+import TemplateDialog from '../components/TemplateDialog';
+import AutoFilingDialog from '../components/AutoFilingDialog';
+import FilingSuggestions from '../components/FilingSuggestions';
+import SearchResults from '../components/SearchResults';
+import DataRoomChat from '../components/DataRoomChat';
+import RedFlagReport from '../components/RedFlagReport';
+import ChecklistPanel from '../components/ChecklistPanel';
+import { searchDocuments } from '../services/search';
+import {
+  compareIndexNumbers,
+  createFolder,
+  deleteFolder,
+  getFolderPath,
+  moveFile,
+  moveFolder,
+  renameFolder,
+  subscribeToFolders,
+} from '../services/folders';
+import { deleteFileVersions } from '../services/versions';
 import {
   collection,
   query,
   onSnapshot,
   deleteDoc,
   doc,
-  addDoc,
   getDoc,
+  where,
 } from 'firebase/firestore';
 import { ref, deleteObject } from 'firebase/storage';
 import { SelectChangeEvent } from '@mui/material/Select';
@@ -83,13 +124,7 @@ const CategoryChip = styled(Chip)(({ theme }) => ({
   },
 }));
 
-type SortOption = 'name' | 'date' | 'size';
-
-interface Folder {
-  id: string;
-  name: string;
-  parentId: string | null;
-}
+type SortOption = 'index' | 'name' | 'date' | 'size';
 
 const DataRoom: React.FC = () => {
   const theme = useTheme();
@@ -98,16 +133,24 @@ const DataRoom: React.FC = () => {
   const [categories, setCategories] = useState<string[]>([]);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [contentHits, setContentHits] = useState<SearchHit[] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sortOption, setSortOption] = useState<SortOption>('date');
   const [folders, setFolders] = useState<Folder[]>([]);
-  const [currentFolder, setCurrentFolder] = useState<Folder | null>(null);
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
+  const [folderDialog, setFolderDialog] = useState<{
+    folder: Folder | null;
+    name: string;
+  } | null>(null);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [autoFilingDialogOpen, setAutoFilingDialogOpen] = useState(false);
 
   const [investorId, setInvestorId] = useState<string | null>(null);
   const [activityLog, setActivityLog] = useState<ActivityLog[]>([]);
 
   const navigate = useNavigate();
+  const [isMigrating, setIsMigrating] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -133,43 +176,61 @@ const DataRoom: React.FC = () => {
     }
   }, [user]);
 
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToFolders(user.uid, setFolders);
+  }, [user]);
+
+  // 입력이 멈춘 뒤에만 본문 검색을 호출합니다.
+  useEffect(() => {
+    if (!user || searchTerm.trim().length < 2) {
+      setContentHits(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchDocuments(searchTerm)
+        .then((hits) => {
+          if (!cancelled) setContentHits(hits);
+        })
+        .catch((error) => {
+          console.error('Error searching documents:', error);
+          if (!cancelled) setContentHits([]);
+        });
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user, searchTerm]);
+
   useEffect(() => {
     // URL에서 investorId를 가져옵니다.
     const params = new URLSearchParams(window.location.search);
     const id = params.get('investorId');
     setInvestorId(id);
 
-    if (id) {
+    if (id && user) {
       // 투자사의 활동 로그를 가져옵니다.
-      fetchActivityLog(id).then(setActivityLog);
+      fetchActivityLog(id, user.uid).then(setActivityLog);
     }
-  }, []);
+  }, [user]);
 
+  // 활동 로그는 공유 뷰어에서 서버가 기록하며, 본인 소유의 로그만 읽을 수 있습니다.
   const fetchActivityLog = async (
-    investorId: string
+    investorId: string,
+    userId: string
   ): Promise<ActivityLog[]> => {
-    const logsRef = collection(db, 'activityLogs', investorId, 'logs');
+    const logsRef = query(
+      collection(db, 'activityLogs', investorId, 'logs'),
+      where('ownerId', '==', userId)
+    );
     const logsSnapshot = await getDocs(logsRef);
     return logsSnapshot.docs.map(
       (doc: QueryDocumentSnapshot) => doc.data() as ActivityLog
     );
   };
 
-  const logActivity = async (action: string, fileId: string) => {
-    if (investorId) {
-      const newActivity = {
-        timestamp: new Date().toISOString(),
-        action,
-        fileId,
-      };
-      await addDoc(
-        collection(db, 'activityLogs', investorId, 'logs'),
-        newActivity
-      );
-      setActivityLog([...activityLog, newActivity]);
-    }
-  };
-
   const handleCategoryToggle = (category: string) => {
     setSelectedCategories((prev) =>
       prev.includes(category)
@@ -206,10 +267,16 @@ const DataRoom: React.FC = () => {
 
   const handleDeleteFile = async (fileId: string) => {
     if (!user) return;
+    const fileInfo = files.find((file) => file.id === fileId);
+    if (!fileInfo) return;
     try {
+      if (fileInfo.currentVersionId) {
+        await deleteFileVersions(user.uid, fileId);
+      } else {
+        const storageRef = ref(storage, getFileStoragePath(user.uid, fileInfo));
+        await deleteObject(storageRef);
+      }
       await deleteDoc(doc(db, 'users', user.uid, 'files', fileId));
-      const storageRef = ref(storage, `users/${user.uid}/pdfs/${fileId}`);
-      await deleteObject(storageRef);
       setFiles((prevFiles) => prevFiles.filter((file) => file.id !== fileId));
     } catch (error) {
       console.error('Error deleting file:', error);
@@ -217,12 +284,51 @@ const DataRoom: React.FC = () => {
     }
   };
 
+  // 파일 이름을 ID 로 쓰던 예전 문서는 사용자가 확인한 뒤에만 이전합니다.
+  const hasLegacyFiles =
+    !!user &&
+    files.some(
+      (file) =>
+        !file.storagePath?.startsWith(`users/${user.uid}/files/${file.id}/`)
+    );
+
+  const handleMigrateFiles = async () => {
+    if (
+      !window.confirm(
+        'Move older documents to the current storage layout? Share links, NDA records and viewer analytics will be updated to the new document IDs.'
+      )
+    ) {
+      return;
+    }
+    setIsMigrating(true);
+    try {
+      const { failed } = await migrateFileIds();
+      if (failed.length > 0) {
+        setError(
+          `${failed.length} document(s) could not be migrated. Please try again.`
+        );
+      }
+    } catch (error) {
+      console.error('Error migrating files:', error);
+      setError('Failed to migrate documents. Please try again.');
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
   const handleSortChange = (event: SelectChangeEvent<SortOption>) => {
     setSortOption(event.target.value as SortOption);
   };
 
   const sortedFiles = [...filteredFiles].sort((a, b) => {
     switch (sortOption) {
+      case 'index':
+        // 번호가 없는 문서는 번호가 있는 문서 뒤에 이름 순으로 둡니다.
+        if (a.indexNumber && b.indexNumber) {
+          return compareIndexNumbers(a.indexNumber, b.indexNumber);
+        }
+        if (a.indexNumber || b.indexNumber) return a.indexNumber ? -1 : 1;
+        return a.name.localeCompare(b.name);
       case 'name':
         return a.name.localeCompare(b.name);
       case 'date':
@@ -236,8 +342,70 @@ const DataRoom: React.FC = () => {
     }
   });
 
+  const handleSaveFolder = async () => {
+    if (!user || !folderDialog || !folderDialog.name.trim()) return;
+    try {
+      if (folderDialog.folder) {
+        await renameFolder(
+          user.uid,
+          folderDialog.folder.id,
+          folderDialog.name.trim()
+        );
+      } else {
+        await createFolder(
+          user.uid,
+          folders,
+          folderDialog.name.trim(),
+          currentFolderId
+        );
+      }
+      setFolderDialog(null);
+    } catch (error) {
+      console.error('Error saving folder:', error);
+      setError('Failed to save folder. Please try again.');
+    }
+  };
+
+  const handleDeleteFolder = async (folder: Folder) => {
+    if (!user) return;
+    try {
+      await deleteFolder(user.uid, folder);
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+      setError('Failed to delete folder. Please try again.');
+    }
+  };
+
+  const handleDropItem = async (item: DragItem, folderId: string | null) => {
+    if (!user) return;
+    try {
+      if (item.type === 'file') {
+        const file = files.find((file) => file.id === item.id);
+        // 같은 폴더에 다시 놓으면 문서 번호를 새로 받지 않도록 건너뜁니다.
+        if ((file?.folderId || null) === folderId) return;
+        await moveFile(user.uid, item.id, folderId);
+      } else if (item.id !== folderId) {
+        await moveFolder(user.uid, folders, item.id, folderId);
+      }
+    } catch (error) {
+      console.error('Error moving item:', error);
+      setError(
+        error instanceof Error ? error.message : 'Failed to move the item.'
+      );
+    }
+  };
+
+  const folderPath = getFolderPath(folders, currentFolderId);
+  const childFolders = folders.filter(
+    (folder) => folder.parentId === currentFolderId
+  );
+  // 검색하거나 카테고리로 거를 때는 모든 폴더의 파일을 보여줍니다.
+  const isFiltering = searchTerm !== '' || selectedCategories.length > 0;
+  const visibleFiles = isFiltering
+    ? sortedFiles
+    : sortedFiles.filter((file) => (file.folderId || null) === currentFolderId);
+
   const handleFileSelect = (file: FileInfo) => {
-    logActivity('viewed', file.id);
     // 파일 선택 시 추가 작업
   };
 
@@ -251,6 +419,26 @@ const DataRoom: React.FC = () => {
         Data Room
       </Typography>
 
+      {hasLegacyFiles && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={
+            <Button
+              color="inherit"
+              size="small"
+              onClick={handleMigrateFiles}
+              disabled={isMigrating}
+            >
+              {isMigrating ? 'Migrating...' : 'Migrate'}
+            </Button>
+          }
+        >
+          Some documents were uploaded before version history was available.
+          Migrate them once to enable versions for these documents.
+        </Alert>
+      )}
+
       <ArcCard>
         <Typography
           variant="h6"
@@ -264,7 +452,7 @@ const DataRoom: React.FC = () => {
           setIsLoading={setIsLoading}
           setError={setError}
           user={user as User}
-          currentFolder={currentFolder?.id || null}
+          currentFolder={currentFolderId}
         />
       </ArcCard>
 
@@ -331,6 +519,7 @@ const DataRoom: React.FC = () => {
                 label="Sort by"
                 sx={{ borderRadius: '50px' }}
               >
+                <MenuItem value="index">Index</MenuItem>
                 <MenuItem value="name">Name</MenuItem>
                 <MenuItem value="date">Date</MenuItem>
                 <MenuItem value="size">Size</MenuItem>
@@ -340,27 +529,130 @@ const DataRoom: React.FC = () => {
         </Grid>
       </ArcCard>
 
+      {files.some((file) => file.filingSuggestion) && (
+        <ArcCard>
+          <Typography
+            variant="h6"
+            gutterBottom
+            sx={{ color: theme.palette.primary.main }}
+          >
+            Filing Suggestions
+          </Typography>
+          <FilingSuggestions files={files} folders={folders} />
+        </ArcCard>
+      )}
+
       <ArcCard>
-        <Typography
-          variant="h6"
-          gutterBottom
-          sx={{ color: theme.palette.primary.main }}
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}
         >
-          All Files
-        </Typography>
+          <Typography
+            variant="h6"
+            gutterBottom
+            sx={{ color: theme.palette.primary.main }}
+          >
+            {isFiltering ? 'Search Results' : 'All Files'}
+          </Typography>
+          <Box>
+            <Button
+              startIcon={<RuleFolderIcon />}
+              onClick={() => setAutoFilingDialogOpen(true)}
+            >
+              Auto-Filing
+            </Button>
+            <Button
+              startIcon={<AccountTreeIcon />}
+              onClick={() => setTemplateDialogOpen(true)}
+            >
+              Templates
+            </Button>
+            <Button
+              startIcon={<CreateNewFolderIcon />}
+              onClick={() => setFolderDialog({ folder: null, name: '' })}
+            >
+              New Folder
+            </Button>
+          </Box>
+        </Box>
+        {!isFiltering && (
+          <>
+            <FolderBreadcrumbs
+              path={folderPath}
+              onNavigate={setCurrentFolderId}
+              onDropItem={handleDropItem}
+            />
+            <FolderView
+              folders={childFolders}
+              onFolderSelect={(folder) => setCurrentFolderId(folder.id)}
+              onRenameFolder={(folder) =>
+                setFolderDialog({ folder, name: folder.name })
+              }
+              onDeleteFolder={handleDeleteFolder}
+              onDropItem={handleDropItem}
+            />
+          </>
+        )}
+        {contentHits && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="subtitle1" gutterBottom>
+              Matches in document contents
+            </Typography>
+            <SearchResults hits={contentHits} files={files} />
+            <Typography variant="subtitle1" sx={{ mt: 2 }}>
+              Matching file names
+            </Typography>
+          </Box>
+        )}
         {isLoading ? (
           <CircularProgress />
         ) : error ? (
           <Alert severity="error">{error}</Alert>
         ) : (
           <FileList
-            files={sortedFiles}
+            files={visibleFiles}
             onDeleteFile={handleDeleteFile}
             onSelectFile={handleFileSelect}
           />
         )}
       </ArcCard>
 
+      <ArcCard>
+        <Typography
+          variant="h6"
+          gutterBottom
+          sx={{ color: theme.palette.primary.main }}
+        >
+          Ask the Data Room
+        </Typography>
+        <DataRoomChat files={files} />
+      </ArcCard>
+
+      <ArcCard>
+        <Typography
+          variant="h6"
+          gutterBottom
+          sx={{ color: theme.palette.primary.main }}
+        >
+          Red-Flag Report
+        </Typography>
+        <RedFlagReport files={files} />
+      </ArcCard>
+
+      <ArcCard>
+        <Typography
+          variant="h6"
+          gutterBottom
+          sx={{ color: theme.palette.primary.main }}
+        >
+          DD Checklist
+        </Typography>
+        <ChecklistPanel files={files} />
+      </ArcCard>
+
       {investorId && (
         <ArcCard>
           <Typography
@@ -382,6 +674,50 @@ const DataRoom: React.FC = () => {
           </List>
         </ArcCard>
       )}
+
+      <AutoFilingDialog
+        open={autoFilingDialogOpen}
+        onClose={() => setAutoFilingDialogOpen(false)}
+        files={files}
+        folders={folders}
+        categories={categories}
+      />
+
+      <TemplateDialog
+        open={templateDialogOpen}
+        onClose={() => setTemplateDialogOpen(false)}
+        folders={folders}
+      />
+
+      <Dialog open={!!folderDialog} onClose={() => setFolderDialog(null)}>
+        <DialogTitle>
+          {folderDialog?.folder ? 'Rename Folder' : 'New Folder'}
+        </DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Folder name"
+            value={folderDialog?.name || ''}
+            onChange={(e) =>
+              setFolderDialog(
+                (prev) => prev && { ...prev, name: e.target.value }
+              )
+            }
+            margin="normal"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setFolderDialog(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSaveFolder}
+            disabled={!folderDialog?.name.trim()}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
@@ -93,8 +93,8 @@ const Home: React.FC = () => {
               Easy Upload
             </Typography>
             <Typography>
-              Quickly upload and organize your PDF documents with our
-              user-friendly interface.
+              Quickly upload and organize your PDF, Word, Excel and PowerPoint
+              documents with our user-friendly interface.
             </Typography>
           </FeatureCard>
         </Grid>
@@ -37,11 +37,14 @@ import {
   deleteDoc,
   doc,
   getDoc,
+  getDocs,
   arrayUnion,
 } from 'firebase/firestore';
 import { useNavigate } from 'react-router-dom';
 import Confetti from 'react-confetti';
-import { DataRoomStats, Investor } from '../types';
+import { DataRoomStats, DocumentActivity, Investor } from '../types';
+import PageHeatmap from '../components/PageHeatmap';
+import { fetchDocumentActivity } from '../services/analytics';
 import {
   analyzeDocuments,
   analyzePotentialInvestorFit,
@@ -178,19 +181,22 @@ const InvestmentPipeline: React.FC = () => {
   useEffect(() => {
     const fetchAIInsights = async () => {
       if (investors.length > 0) {
-        const insights = await analyzeDocuments(investors);
+        const insights = await analyzeDocuments(investors, user?.uid);
         setAiInsights(insights);
       }
     };
     fetchAIInsights();
-  }, [investors]);
+  }, [investors, user]);
 
   const handleAddInvestor = async () => {
     if (user) {
       setIsLoading(true);
       try {
         const investorsRef = collection(db, 'users', user.uid, 'investors');
-        await addDoc(investorsRef, newInvestor);
+        await addDoc(investorsRef, {
+          ...newInvestor,
+          emailLower: newInvestor.email.trim().toLowerCase(),
+        });
         setNewInvestor({
           name: '',
           company: '',
@@ -278,7 +284,10 @@ const InvestmentPipeline: React.FC = () => {
       );
       try {
         const { id, ...updateData } = updatedInvestor;
-        await updateDoc(investorRef, updateData);
+        await updateDoc(investorRef, {
+          ...updateData,
+          emailLower: updateData.email.trim().toLowerCase(),
+        });
         setInvestors((prevInvestors) =>
           prevInvestors.map((investor) =>
             investor.id === updatedInvestor.id ? updatedInvestor : investor
@@ -425,6 +434,10 @@ const InvestmentPipeline: React.FC = () => {
     const [dataRoomStats, setDataRoomStats] = useState<DataRoomStats | null>(
       null
     );
+    const [documentActivity, setDocumentActivity] = useState<
+      DocumentActivity[]
+    >([]);
+    const [fileNames, setFileNames] = useState<{ [key: string]: string }>({});
     const [newComment, setNewComment] = useState('');
     const [editingCommentId, setEditingCommentId] = useState<string | null>(
       null
@@ -460,11 +473,25 @@ const InvestmentPipeline: React.FC = () => {
     };
 
     useEffect(() => {
-      if (expanded) {
+      if (expanded && user) {
         fetchDataRoomStats(investor.id).then(setDataRoomStats);
+        fetchDocumentActivity(investor.id, user.uid).then(setDocumentActivity);
       }
     }, [expanded, investor.id]);
 
+    useEffect(() => {
+      if (!expanded || !user) return;
+      getDocs(collection(db, 'users', user.uid, 'files')).then(
+        (querySnapshot) => {
+          const names: { [key: string]: string } = {};
+          querySnapshot.forEach((doc) => {
+            names[doc.id] = doc.data().name;
+          });
+          setFileNames(names);
+        }
+      );
+    }, [expanded]);
+
     useEffect(() => {
       const fetchInvestorAnalysis = async () => {
         const fit = await analyzePotentialInvestorFit(investor);
@@ -626,6 +653,22 @@ const InvestmentPipeline: React.FC = () => {
                       <Typography>
                         Time spent: {dataRoomStats.timeSpent} minutes
                       </Typography>
+                      {documentActivity.length > 0 && (
+                        <Box sx={{ mt: 2 }}>
+                          <Typography variant="subtitle1" gutterBottom>
+                            Time per page
+                          </Typography>
+                          {documentActivity.map((activity) => (
+                            <PageHeatmap
+                              key={activity.fileId}
+                              activity={activity}
+                              fileName={
+                                fileNames[activity.fileId] || activity.fileId
+                              }
+                            />
+                          ))}
+                        </Box>
+                      )}
                       <Button
                         variant="contained"
                         color="primary"
@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { styled, useTheme } from '@mui/material/styles';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import PictureAsPdfIcon from '@mui/icons-material/PictureAsPdf';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { collection, onSnapshot } from 'firebase/firestore';
+import { auth, db } from '../services/firebase';
+import {
+  deleteNdaTemplate,
+  downloadNdaReceipt,
+  saveNdaTemplate,
+  setDefaultNdaTemplate,
+  subscribeToNdaAcceptances,
+  subscribeToNdaTemplates,
+} from '../services/nda';
+import { Investor, NdaAcceptance, NdaTemplate } from '../types';
+
+const ArcCard = styled(Box)(({ theme }) => ({
+  background: 'rgba(255, 255, 255, 0.8)',
+  borderRadius: theme.spacing(3),
+  padding: theme.spacing(3),
+  boxShadow: '0 8px 32px 0 rgba(31, 38, 135, 0.37)',
+  backdropFilter: 'blur(4px)',
+  border: '1px solid rgba(255, 255, 255, 0.18)',
+  transition: 'all 0.3s ease-in-out',
+  marginBottom: theme.spacing(2),
+  '&:hover': {
+    boxShadow: '0 12px 40px 0 rgba(31, 38, 135, 0.45)',
+    background: 'rgba(255, 255, 255, 0.9)',
+  },
+}));
+
+interface EditingTemplate {
+  id?: string;
+  title: string;
+  body: string;
+}
+
+const NDAs: React.FC = () => {
+  const theme = useTheme();
+  const [user] = useAuthState(auth);
+  const [templates, setTemplates] = useState<NdaTemplate[]>([]);
+  const [acceptances, setAcceptances] = useState<NdaAcceptance[]>([]);
+  const [investors, setInvestors] = useState<Investor[]>([]);
+  const [editingTemplate, setEditingTemplate] =
+    useState<EditingTemplate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribeTemplates = subscribeToNdaTemplates(
+      user.uid,
+      setTemplates
+    );
+    const unsubscribeAcceptances = subscribeToNdaAcceptances(
+      user.uid,
+      setAcceptances
+    );
+    const unsubscribeInvestors = onSnapshot(
+      collection(db, 'users', user.uid, 'investors'),
+      (querySnapshot) => {
+        setInvestors(
+          querySnapshot.docs.map(
+            (doc) => ({ id: doc.id, ...doc.data() } as Investor)
+          )
+        );
+      }
+    );
+
+    return () => {
+      unsubscribeTemplates();
+      unsubscribeAcceptances();
+      unsubscribeInvestors();
+    };
+  }, [user]);
+
+  const handleSaveTemplate = async () => {
+    if (!user || !editingTemplate) return;
+    try {
+      await saveNdaTemplate(user.uid, editingTemplate, templates.length === 0);
+      setEditingTemplate(null);
+    } catch (error) {
+      console.error('Error saving NDA template:', error);
+      setError('Failed to save NDA template. Please try again.');
+    }
+  };
+
+  const handleSetDefault = async (templateId: string) => {
+    if (!user) return;
+    try {
+      await setDefaultNdaTemplate(user.uid, templates, templateId);
+    } catch (error) {
+      console.error('Error setting default NDA template:', error);
+      setError('Failed to update the default template. Please try again.');
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    if (!user) return;
+    try {
+      await deleteNdaTemplate(user.uid, templateId);
+    } catch (error) {
+      console.error('Error deleting NDA template:', error);
+      setError('Failed to delete NDA template. Please try again.');
+    }
+  };
+
+  const handleExportReceipt = async (acceptanceId: string) => {
+    try {
+      await downloadNdaReceipt(acceptanceId);
+    } catch (error) {
+      console.error('Error exporting NDA receipt:', error);
+      setError('Failed to export the NDA receipt. Please try again.');
+    }
+  };
+
+  // 서명자 이메일을 투자자 이메일과 매칭해 투자자별로 묶습니다.
+  const acceptancesByInvestor = acceptances.reduce<{
+    [key: string]: { label: string; acceptances: NdaAcceptance[] };
+  }>((groups, acceptance) => {
+    const investor = investors.find(
+      (investor) => investor.email?.toLowerCase() === acceptance.email
+    );
+    const key = investor ? investor.id : acceptance.email;
+    if (!groups[key]) {
+      groups[key] = {
+        label: investor
+          ? `${investor.name} (${investor.company})`
+          : acceptance.email,
+        acceptances: [],
+      };
+    }
+    groups[key].acceptances.push(acceptance);
+    return groups;
+  }, {});
+
+  return (
+    <Box sx={{ maxWidth: '1200px', margin: '0 auto', padding: '20px' }}>
+      <Typography
+        variant="h4"
+        gutterBottom
+        sx={{ fontWeight: 'bold', color: theme.palette.primary.main }}
+      >
+        NDAs
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <ArcCard>
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}
+        >
+          <Typography variant="h6" sx={{ color: theme.palette.primary.main }}>
+            NDA Templates
+          </Typography>
+          <Button
+            variant="contained"
+            onClick={() => setEditingTemplate({ title: '', body: '' })}
+          >
+            New Template
+          </Button>
+        </Box>
+        {templates.length === 0 ? (
+          <Typography color="text.secondary" sx={{ mt: 2 }}>
+            Create a template before sharing files that require an NDA.
+          </Typography>
+        ) : (
+          <List>
+            {templates.map((template) => (
+              <ListItem
+                key={template.id}
+                secondaryAction={
+                  <>
+                    {!template.isDefault && (
+                      <Button onClick={() => handleSetDefault(template.id)}>
+                        Set Default
+                      </Button>
+                    )}
+                    <IconButton
+                      aria-label="edit"
+                      onClick={() =>
+                        setEditingTemplate({
+                          id: template.id,
+                          title: template.title,
+                          body: template.body,
+                        })
+                      }
+                    >
+                      <EditIcon />
+                    </IconButton>
+                    <IconButton
+                      aria-label="delete"
+                      onClick={() => handleDeleteTemplate(template.id)}
+                    >
+                      <DeleteIcon />
+                    </IconButton>
+                  </>
+                }
+              >
+                <ListItemText
+                  primary={
+                    <>
+                      {template.title}
+                      {template.isDefault && (
+                        <Chip
+                          label="Default"
+                          size="small"
+                          color="primary"
+                          sx={{ ml: 1 }}
+                        />
+                      )}
+                    </>
+                  }
+                  secondary={`Version ${template.version} | Updated ${new Date(
+                    template.updatedAt
+                  ).toLocaleDateString()}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </ArcCard>
+
+      <ArcCard>
+        <Typography
+          variant="h6"
+          gutterBottom
+          sx={{ color: theme.palette.primary.main }}
+        >
+          Signed NDAs
+        </Typography>
+        {acceptances.length === 0 ? (
+          <Typography color="text.secondary">No NDAs signed yet.</Typography>
+        ) : (
+          Object.entries(acceptancesByInvestor).map(([key, group]) => (
+            <Box key={key} sx={{ mb: 2 }}>
+              <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                {group.label}
+              </Typography>
+              <List dense>
+                {group.acceptances.map((acceptance) => (
+                  <ListItem
+                    key={acceptance.id}
+                    secondaryAction={
+                      <Button
+                        startIcon={<PictureAsPdfIcon />}
+                        onClick={() => handleExportReceipt(acceptance.id)}
+                      >
+                        Receipt
+                      </Button>
+                    }
+                  >
+                    <ListItemText
+                      primary={`${acceptance.name} <${acceptance.email}> - ${acceptance.fileName}`}
+                      secondary={`${acceptance.templateTitle} v${
+                        acceptance.ndaVersion
+                      } | ${new Date(
+                        acceptance.acceptedAt
+                      ).toLocaleString()} | IP ${acceptance.ipAddress}`}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </Box>
+          ))
+        )}
+      </ArcCard>
+
+      <Dialog
+        open={!!editingTemplate}
+        onClose={() => setEditingTemplate(null)}
+        maxWidth="md"
+        fullWidth
+      >
+        <DialogTitle>
+          {editingTemplate?.id ? 'Edit NDA Template' : 'New NDA Template'}
+        </DialogTitle>
+        <DialogContent>
+          {editingTemplate?.id && (
+            <Alert severity="info" sx={{ mt: 1 }}>
+              Saving creates a new version. Recipients must accept the new
+              version before viewing shared files again.
+            </Alert>
+          )}
+          <TextField
+            fullWidth
+            label="Title"
+            value={editingTemplate?.title || ''}
+            onChange={(e) =>
+              setEditingTemplate((prev) =>
+                prev ? { ...prev, title: e.target.value } : prev
+              )
+            }
+            margin="normal"
+          />
+          <TextField
+            fullWidth
+            multiline
+            rows={12}
+            label="Agreement Text"
+            value={editingTemplate?.body || ''}
+            onChange={(e) =>
+              setEditingTemplate((prev) =>
+                prev ? { ...prev, body: e.target.value } : prev
+              )
+            }
+            margin="normal"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditingTemplate(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSaveTemplate}
+            disabled={
+              !editingTemplate?.title.trim() || !editingTemplate?.body.trim()
+            }
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default NDAs;
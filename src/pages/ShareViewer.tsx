@@ -0,0 +1,176 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Paper,
+  Typography,
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import NdaGate from '../components/NdaGate';
+import PdfViewer from '../components/PdfViewer';
+import { ShareSessionTracker } from '../services/analytics';
+import {
+  getSharedFile,
+  getSharedFileViewUrl,
+  getStoredNdaAcceptance,
+  SharedFile,
+  storeNdaAcceptance,
+} from '../services/share';
+
+const ShareViewer: React.FC = () => {
+  const { shareId } = useParams<{ shareId: string }>();
+  const [sharedFile, setSharedFile] = useState<SharedFile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [acceptanceId, setAcceptanceId] = useState<string | null>(() =>
+    shareId ? getStoredNdaAcceptance(shareId) : null
+  );
+  const trackerRef = useRef<ShareSessionTracker | null>(null);
+
+  useEffect(() => {
+    if (!shareId) return;
+
+    setIsLoading(true);
+    getSharedFile(shareId, acceptanceId)
+      .then(setSharedFile)
+      .catch((error) => {
+        console.error('Error loading shared file:', error);
+        setError(
+          error instanceof Error
+            ? error.message
+            : 'Failed to load the shared file.'
+        );
+      })
+      .finally(() => setIsLoading(false));
+  }, [shareId, acceptanceId]);
+
+  useEffect(
+    () => () => {
+      trackerRef.current?.stop();
+      trackerRef.current = null;
+    },
+    [shareId, acceptanceId]
+  );
+
+  // 문서가 실제로 열렸을 때만 열람 세션을 시작합니다.
+  const handlePdfLoad = useCallback(
+    (pageCount: number) => {
+      if (!shareId) return;
+      trackerRef.current?.stop();
+      trackerRef.current = new ShareSessionTracker(
+        shareId,
+        acceptanceId,
+        pageCount
+      );
+    },
+    [shareId, acceptanceId]
+  );
+
+  const handlePageChange = useCallback((page: number) => {
+    trackerRef.current?.setPage(page);
+  }, []);
+
+  const handleNdaAccepted = (newAcceptanceId: string) => {
+    if (!shareId) return;
+    storeNdaAcceptance(shareId, newAcceptanceId);
+    setAcceptanceId(newAcceptanceId);
+  };
+
+  const handleDownload = async () => {
+    if (!shareId) return;
+    try {
+      // 서명된 URL은 수명이 짧으므로 클릭할 때마다 새로 받아옵니다.
+      const { url, fileName } = await getSharedFile(shareId, acceptanceId);
+      if (url) {
+        trackerRef.current?.recordDownload();
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+      }
+    } catch (error) {
+      console.error('Error downloading shared file:', error);
+      setError('Failed to download the file. Please reload the page.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error || !sharedFile) {
+    return (
+      <Box sx={{ maxWidth: '600px', margin: '0 auto', mt: 8 }}>
+        <Alert severity="error">{error || 'Shared file not found.'}</Alert>
+      </Box>
+    );
+  }
+
+  if (sharedFile.nda && !sharedFile.ndaAccepted) {
+    return (
+      <NdaGate
+        shareId={shareId!}
+        fileName={sharedFile.fileName}
+        nda={sharedFile.nda}
+        onAccepted={handleNdaAccepted}
+      />
+    );
+  }
+
+  return (
+    <Box sx={{ maxWidth: '1200px', margin: '0 auto', padding: '20px' }}>
+      <Paper
+        sx={{
+          p: 2,
+          mb: 2,
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}
+      >
+        <Box>
+          <Typography variant="h5" sx={{ fontWeight: 'bold' }}>
+            {sharedFile.fileName}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Link expires on{' '}
+            {new Date(sharedFile.expirationDate).toLocaleDateString()}
+          </Typography>
+        </Box>
+        {sharedFile.downloadable && sharedFile.url && (
+          <Button
+            variant="contained"
+            startIcon={<DownloadIcon />}
+            onClick={handleDownload}
+          >
+            Download
+          </Button>
+        )}
+      </Paper>
+      {sharedFile.contentType === 'application/pdf' ? (
+        <PdfViewer
+          source={getSharedFileViewUrl(shareId!, acceptanceId)}
+          viewOnly={!sharedFile.downloadable}
+          onLoad={handlePdfLoad}
+          onPageChange={handlePageChange}
+        />
+      ) : (
+        <Alert severity="info">
+          In-browser preview is only available for PDF files.
+          {sharedFile.downloadable
+            ? ' Download the file to open it.'
+            : ' Ask the sender to enable downloads for this file.'}
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+export default ShareViewer;
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { styled, useTheme } from '@mui/material/styles';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { collection, onSnapshot } from 'firebase/firestore';
+import { auth, db } from '../services/firebase';
+import {
+  extendShare,
+  revokeShare,
+  setShareDownloadable,
+  subscribeToShares,
+} from '../services/share';
+import { ShareRecord } from '../types';
+
+const ArcCard = styled(Box)(({ theme }) => ({
+  background: 'rgba(255, 255, 255, 0.8)',
+  borderRadius: theme.spacing(3),
+  padding: theme.spacing(3),
+  boxShadow: '0 8px 32px 0 rgba(31, 38, 135, 0.37)',
+  backdropFilter: 'blur(4px)',
+  border: '1px solid rgba(255, 255, 255, 0.18)',
+  marginBottom: theme.spacing(2),
+  overflowX: 'auto',
+}));
+
+const getShareStatus = (share: ShareRecord) => {
+  if (share.revoked) return { label: 'Revoked', color: 'error' as const };
+  if (new Date(share.expirationDate).getTime() < Date.now()) {
+    return { label: 'Expired', color: 'warning' as const };
+  }
+  return { label: 'Active', color: 'success' as const };
+};
+
+const Shares: React.FC = () => {
+  const theme = useTheme();
+  const [user] = useAuthState(auth);
+  const [shares, setShares] = useState<ShareRecord[]>([]);
+  const [fileNames, setFileNames] = useState<{ [key: string]: string }>({});
+  const [extendingShare, setExtendingShare] = useState<ShareRecord | null>(
+    null
+  );
+  const [extensionDays, setExtensionDays] = useState(7);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribeShares = subscribeToShares(user.uid, setShares);
+    const unsubscribeFiles = onSnapshot(
+      collection(db, 'users', user.uid, 'files'),
+      (querySnapshot) => {
+        const names: { [key: string]: string } = {};
+        querySnapshot.forEach((doc) => {
+          names[doc.id] = doc.data().name;
+        });
+        setFileNames(names);
+      }
+    );
+
+    return () => {
+      unsubscribeShares();
+      unsubscribeFiles();
+    };
+  }, [user]);
+
+  const handleRevoke = async (shareId: string) => {
+    try {
+      await revokeShare(shareId);
+    } catch (error) {
+      console.error('Error revoking share:', error);
+      setError('Failed to revoke share. Please try again.');
+    }
+  };
+
+  const handleToggleDownload = async (share: ShareRecord) => {
+    try {
+      await setShareDownloadable(share.shareId, !share.downloadable);
+    } catch (error) {
+      console.error('Error updating share:', error);
+      setError('Failed to update download permission. Please try again.');
+    }
+  };
+
+  const handleExtend = async () => {
+    if (!extendingShare) return;
+    try {
+      await extendShare(extendingShare.shareId, extensionDays);
+      setExtendingShare(null);
+    } catch (error) {
+      console.error('Error extending share:', error);
+      setError('Failed to extend share. Please try again.');
+    }
+  };
+
+  return (
+    <Box sx={{ maxWidth: '1200px', margin: '0 auto', padding: '20px' }}>
+      <Typography
+        variant="h4"
+        gutterBottom
+        sx={{ fontWeight: 'bold', color: theme.palette.primary.main }}
+      >
+        Shares
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <ArcCard>
+        {shares.length === 0 ? (
+          <Typography color="text.secondary">
+            You have not shared any files yet.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>File</TableCell>
+                <TableCell>Recipient</TableCell>
+                <TableCell>Expires</TableCell>
+                <TableCell>NDA</TableCell>
+                <TableCell>Download</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {shares.map((share) => {
+                const status = getShareStatus(share);
+                return (
+                  <TableRow key={share.shareId}>
+                    <TableCell>
+                      {fileNames[share.fileId] || share.fileId}
+                    </TableCell>
+                    <TableCell>
+                      {share.recipientEmail}
+                      {share.emailStatus === 'failed' && (
+                        <Typography
+                          variant="caption"
+                          color="error"
+                          display="block"
+                        >
+                          Invitation email failed
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {new Date(share.expirationDate).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>{share.requireNDA ? 'Required' : '-'}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={share.downloadable}
+                        onChange={() => handleToggleDownload(share)}
+                        disabled={share.revoked}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        label={status.label}
+                        color={status.color}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button
+                        size="small"
+                        onClick={() => setExtendingShare(share)}
+                        disabled={share.revoked}
+                      >
+                        Extend
+                      </Button>
+                      <Button
+                        size="small"
+                        color="error"
+                        onClick={() => handleRevoke(share.shareId)}
+                        disabled={share.revoked}
+                      >
+                        Revoke
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </ArcCard>
+
+      <Dialog open={!!extendingShare} onClose={() => setExtendingShare(null)}>
+        <DialogTitle>Extend Share</DialogTitle>
+        <DialogContent>
+          <TextField
+            fullWidth
+            type="number"
+            label="Extend by (days)"
+            value={extensionDays}
+            onChange={(e) => setExtensionDays(Number(e.target.value))}
+            margin="normal"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setExtendingShare(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleExtend}
+            disabled={extensionDays < 1}
+          >
+            Extend
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Shares;
@@ -0,0 +1,40 @@
+import { buildFinancialProjections } from './ai';
+import { FinancialRecord } from '../types';
+
+jest.mock('./financials', () => ({ getDataRoomFinancials: jest.fn() }));
+
+const record = (fields: Partial<FinancialRecord>): FinancialRecord => ({
+  id: 'fy2023',
+  period: 'FY2023',
+  periodEnd: '2023-12-31',
+  currency: 'USD',
+  source: 'extracted',
+  revenue: 1000,
+  cogs: null,
+  opex: null,
+  ebitda: null,
+  cash: null,
+  burn: null,
+  ...fields,
+});
+
+describe('buildFinancialProjections', () => {
+  it('derives profit from both cost lines', () => {
+    expect(
+      buildFinancialProjections([record({ cogs: 300, opex: 500 })])
+    ).toMatchObject({ expenses: 800, profit: 200 });
+  });
+
+  it('does not treat a missing cost line as zero', () => {
+    expect(buildFinancialProjections([record({ cogs: 300 })])).toMatchObject({
+      expenses: null,
+      profit: null,
+    });
+  });
+
+  it('uses EBITDA for profit when costs are missing', () => {
+    expect(
+      buildFinancialProjections([record({ opex: 500, ebitda: -200 })])
+    ).toMatchObject({ expenses: null, profit: -200 });
+  });
+});
@@ -1,4 +1,20 @@
-import { Investor } from '../types';
+import { FinancialRecord, Investor } from '../types';
+import { getDataRoomFinancials } from './financials';
+
+// 데이터룸 재무제표에서 뽑은 가장 최근 기간의 수치입니다.
+export interface FinancialProjections {
+  period: string;
+  currency: string | null;
+  revenue: number;
+  // 비용 항목이 빠져 계산할 수 없으면 null 입니다.
+  expenses: number | null;
+  profit: number | null;
+  cash: number | null;
+  monthlyBurn: number | null;
+  runwayMonths: number | null;
+  // 추세를 볼 수 있도록 모든 기간을 오래된 순으로 담습니다.
+  history: FinancialRecord[];
+}
 
 export interface AIInsights {
   summary: string;
@@ -8,19 +24,53 @@ export interface AIInsights {
   potentialInvestors: string[];
   marketAnalysis: string;
   competitiveAdvantage: string[];
-  financialProjections: {
-    revenue: number;
-    expenses: number;
-    profit: number;
-  };
+  // 재무제표가 없거나 수치를 뽑지 못했으면 null 입니다.
+  financialProjections: FinancialProjections | null;
   nextSteps: string[];
 }
 
+// 비용은 COGS 와 운영비가 모두 있을 때 더한 값이고, 이익은 EBITDA 가
+// 있으면 그 값을, 없으면 매출에서 비용을 뺀 값을 씁니다. 빠진 항목을 0 으로
+// 보면 이익이 부풀려지므로 계산하지 않습니다.
+export const buildFinancialProjections = (
+  records: FinancialRecord[]
+): FinancialProjections | null => {
+  const latest = [...records]
+    .reverse()
+    .find((record) => record.revenue !== null);
+  if (!latest || latest.revenue === null) return null;
+
+  const expenses =
+    latest.cogs !== null && latest.opex !== null
+      ? latest.cogs + latest.opex
+      : null;
+  const cash = latest.cash;
+  const monthlyBurn = latest.burn;
+  return {
+    period: latest.period,
+    currency: latest.currency,
+    revenue: latest.revenue,
+    expenses,
+    profit:
+      latest.ebitda ?? (expenses !== null ? latest.revenue - expenses : null),
+    cash,
+    monthlyBurn,
+    runwayMonths:
+      cash !== null && monthlyBurn ? Math.floor(cash / monthlyBurn) : null,
+    history: records,
+  };
+};
+
 export const analyzeDocuments = async (
-  investors: Investor[]
+  investors: Investor[],
+  userId?: string
 ): Promise<AIInsights> => {
+  const financialProjections = userId
+    ? buildFinancialProjections(await getDataRoomFinancials(userId))
+    : null;
+
   // 실제 구현에서는 여기에 AI 분석 로직이 들어갑니다.
-  // 지금은 더미 데이터를 반환합니다.
+  // 재무 수치 외의 항목은 지금은 더미 데이터를 반환합니다.
   return {
     summary:
       'This startup shows promising growth in the AI sector, with a strong technical team and innovative product.',
@@ -43,11 +93,7 @@ export const analyzeDocuments = async (
       'Strong partnerships with industry leaders',
       'First-mover advantage in niche market',
     ],
-    financialProjections: {
-      revenue: 5000000,
-      expenses: 3000000,
-      profit: 2000000,
-    },
+    financialProjections,
     nextSteps: [
       'Refine pitch deck',
       'Prepare for due diligence',
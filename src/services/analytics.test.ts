@@ -0,0 +1,54 @@
+import { ShareSessionTracker } from './analytics';
+
+const mockRecordShareActivity = jest.fn();
+
+jest.mock('./firebase', () => ({ db: {}, functions: {} }));
+jest.mock('firebase/functions', () => ({
+  httpsCallable:
+    () =>
+    (...args: unknown[]) =>
+      mockRecordShareActivity(...args),
+}));
+
+const setVisibility = (state: DocumentVisibilityState) => {
+  Object.defineProperty(document, 'visibilityState', {
+    configurable: true,
+    get: () => state,
+  });
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('ShareSessionTracker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(0);
+    mockRecordShareActivity.mockReset();
+    mockRecordShareActivity.mockResolvedValue({
+      data: { sessionId: 'session1' },
+    });
+    setVisibility('visible');
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('counts the time on the current page when the tab is hidden', async () => {
+    const tracker = new ShareSessionTracker('share1', null, 3);
+    tracker.setPage(2);
+
+    jest.setSystemTime(4000);
+    setVisibility('hidden');
+    // 가려진 동안의 시간은 넣지 않습니다.
+    jest.setSystemTime(60000);
+    setVisibility('visible');
+    jest.setSystemTime(61000);
+    tracker.stop();
+    // 세션 ID 를 기다린 뒤에 보내므로 대기 중인 프로미스를 모두 처리합니다.
+    for (let i = 0; i < 10; i++) await Promise.resolve();
+
+    const dwell = mockRecordShareActivity.mock.calls
+      .map(([request]) => request)
+      .filter((request) => request.type === 'pages')
+      .map((request) => request.pageDwell);
+    expect(dwell).toEqual([{ 2: 4000 }, { 2: 1000 }]);
+  });
+});
@@ -0,0 +1,138 @@
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './firebase';
+import { DocumentActivity } from '../types';
+
+const FLUSH_INTERVAL_MS = 15 * 1000;
+
+interface ShareActivityRequest {
+  shareId: string;
+  acceptanceId?: string | null;
+  type: 'open' | 'pages' | 'download';
+  sessionId?: string;
+  pageCount?: number;
+  pageDwell?: { [page: string]: number };
+}
+
+const recordShareActivity = httpsCallable<
+  ShareActivityRequest,
+  { sessionId?: string }
+>(functions, 'recordShareActivity');
+
+// 공유 뷰어 한 번의 열람 세션을 추적합니다. 현재 보이는 페이지의 체류 시간을
+// 모아 두었다가 주기적으로, 그리고 탭이 가려질 때 서버로 보냅니다.
+export class ShareSessionTracker {
+  private sessionId: Promise<string | null>;
+  private currentPage: number | null = null;
+  private pageStartedAt = Date.now();
+  // visibilitychange 가 불릴 때는 이미 hidden 이므로 직전 상태를 따로 둡니다.
+  private isVisible = document.visibilityState === 'visible';
+  private pendingDwell: { [page: string]: number } = {};
+  private flushTimer: ReturnType<typeof setInterval>;
+
+  constructor(
+    private shareId: string,
+    private acceptanceId: string | null,
+    pageCount: number
+  ) {
+    this.sessionId = recordShareActivity({
+      shareId,
+      acceptanceId,
+      type: 'open',
+      pageCount,
+    })
+      .then((result) => result.data.sessionId || null)
+      .catch((error) => {
+        console.error('Error starting share session:', error);
+        return null;
+      });
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  setPage(page: number) {
+    if (page === this.currentPage) return;
+    this.accrue();
+    this.currentPage = page;
+  }
+
+  async recordDownload() {
+    const sessionId = await this.sessionId;
+    if (!sessionId) return;
+    await recordShareActivity({
+      shareId: this.shareId,
+      acceptanceId: this.acceptanceId,
+      type: 'download',
+      sessionId,
+    }).catch((error) => console.error('Error recording download:', error));
+  }
+
+  stop() {
+    clearInterval(this.flushTimer);
+    document.removeEventListener(
+      'visibilitychange',
+      this.handleVisibilityChange
+    );
+    this.flush();
+  }
+
+  private handleVisibilityChange = () => {
+    // 보이던 동안의 시간을 먼저 쌓은 뒤 상태를 바꿉니다. 탭이 가려져 있던
+    // 시간은 체류 시간에 넣지 않습니다.
+    this.accrue();
+    this.isVisible = document.visibilityState === 'visible';
+    if (!this.isVisible) {
+      this.flush();
+    }
+  };
+
+  private accrue() {
+    const now = Date.now();
+    if (this.currentPage !== null && this.isVisible) {
+      const page = String(this.currentPage);
+      this.pendingDwell[page] =
+        (this.pendingDwell[page] || 0) + (now - this.pageStartedAt);
+    }
+    this.pageStartedAt = now;
+  }
+
+  private async flush() {
+    this.accrue();
+    const pageDwell = this.pendingDwell;
+    if (Object.keys(pageDwell).length === 0) return;
+    this.pendingDwell = {};
+
+    const sessionId = await this.sessionId;
+    if (!sessionId) return;
+    await recordShareActivity({
+      shareId: this.shareId,
+      acceptanceId: this.acceptanceId,
+      type: 'pages',
+      sessionId,
+      pageDwell,
+    }).catch((error) => console.error('Error recording page views:', error));
+  }
+}
+
+export const fetchDocumentActivity = async (
+  investorId: string,
+  userId: string
+): Promise<DocumentActivity[]> => {
+  const querySnapshot = await getDocs(
+    query(
+      collection(db, 'dataRoomStats', investorId, 'documents'),
+      where('ownerId', '==', userId)
+    )
+  );
+  return querySnapshot.docs.map(
+    (doc) =>
+      ({
+        views: 0,
+        downloads: 0,
+        totalMs: 0,
+        pageDwell: {},
+        ...doc.data(),
+        fileId: doc.id,
+      } as DocumentActivity)
+  );
+};
@@ -0,0 +1,109 @@
+import {
+  deleteField,
+  doc,
+  getDoc,
+  onSnapshot,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { moveFile } from './folders';
+import { AutoFilingSettings, FileInfo, FilingSuggestion } from '../types';
+
+const DEFAULT_SETTINGS: AutoFilingSettings = { enabled: false, rules: [] };
+const BATCH_SIZE = 500;
+
+const settingsRef = (userId: string) =>
+  doc(db, 'users', userId, 'settings', 'autoFiling');
+
+export const getAutoFilingSettings = async (
+  userId: string
+): Promise<AutoFilingSettings> => {
+  const settingsDoc = await getDoc(settingsRef(userId));
+  return settingsDoc.exists()
+    ? { ...DEFAULT_SETTINGS, ...(settingsDoc.data() as AutoFilingSettings) }
+    : DEFAULT_SETTINGS;
+};
+
+export const subscribeToAutoFilingSettings = (
+  userId: string,
+  onChange: (settings: AutoFilingSettings) => void
+) =>
+  onSnapshot(settingsRef(userId), (settingsDoc) => {
+    onChange(
+      settingsDoc.exists()
+        ? { ...DEFAULT_SETTINGS, ...(settingsDoc.data() as AutoFilingSettings) }
+        : DEFAULT_SETTINGS
+    );
+  });
+
+export const saveAutoFilingSettings = async (
+  userId: string,
+  settings: AutoFilingSettings
+) => {
+  await setDoc(settingsRef(userId), settings);
+};
+
+// 분석 결과의 카테고리와 태그를 규칙 순서대로 비교해 처음 맞는 폴더를
+// 제안합니다. 이미 그 폴더에 있으면 제안하지 않습니다.
+export const suggestFiling = (
+  file: FileInfo,
+  settings: AutoFilingSettings
+): FilingSuggestion | null => {
+  if (typeof file.analysis !== 'object') return null;
+  const labels = [
+    ...(file.analysis.categories || []),
+    ...(file.analysis.tags || []),
+  ].map((label) => label.toLowerCase());
+
+  for (const rule of settings.rules) {
+    const keyword = rule.keyword.trim().toLowerCase();
+    if (!keyword || !rule.folderId) continue;
+    if (labels.some((label) => label.includes(keyword))) {
+      return rule.folderId === (file.folderId || null)
+        ? null
+        : { folderId: rule.folderId, matchedKeyword: rule.keyword };
+    }
+  }
+  return null;
+};
+
+export const acceptFilingSuggestion = async (
+  userId: string,
+  file: FileInfo
+) => {
+  if (!file.filingSuggestion) return;
+  await moveFile(userId, file.id, file.filingSuggestion.folderId);
+  await dismissFilingSuggestion(userId, file.id);
+};
+
+export const dismissFilingSuggestion = async (
+  userId: string,
+  fileId: string
+) => {
+  await updateDoc(doc(db, 'users', userId, 'files', fileId), {
+    filingSuggestion: deleteField(),
+  });
+};
+
+// 모든 문서에 규칙을 다시 적용해 제안을 새로 씁니다. 실제 이동은 사용자가
+// 제안을 수락할 때 일어납니다. 반환값은 제안이 생긴 문서 수입니다.
+export const proposeFilingForAll = async (
+  userId: string,
+  files: FileInfo[],
+  settings: AutoFilingSettings
+) => {
+  const suggestions = files.map((file) => suggestFiling(file, settings));
+  // 배치 하나에는 쓰기를 500개까지만 담을 수 있습니다.
+  for (let start = 0; start < files.length; start += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    files.slice(start, start + BATCH_SIZE).forEach((file, offset) => {
+      batch.update(doc(db, 'users', userId, 'files', file.id), {
+        filingSuggestion: suggestions[start + offset] || deleteField(),
+      });
+    });
+    await batch.commit();
+  }
+  return suggestions.filter(Boolean).length;
+};
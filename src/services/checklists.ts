@@ -0,0 +1,149 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './firebase';
+import {
+  Checklist,
+  ChecklistCoverage,
+  ChecklistItem,
+  ChecklistItemStatus,
+} from '../types';
+
+type RequestItem = Pick<ChecklistItem, 'ref' | 'section' | 'request'>;
+
+// 한 번의 batch 에 넣을 수 있는 쓰기 수 제한입니다.
+const BATCH_LIMIT = 500;
+
+const checklistsRef = (userId: string) =>
+  collection(db, 'users', userId, 'checklists');
+
+const itemsRef = (userId: string, checklistId: string) =>
+  collection(db, 'users', userId, 'checklists', checklistId, 'items');
+
+export const subscribeToChecklists = (
+  userId: string,
+  callback: (checklists: Checklist[]) => void
+) =>
+  onSnapshot(
+    query(checklistsRef(userId), orderBy('createdAt', 'desc')),
+    (snapshot) =>
+      callback(
+        snapshot.docs.map(
+          (checklistDoc) =>
+            ({ ...checklistDoc.data(), id: checklistDoc.id } as Checklist)
+        )
+      )
+  );
+
+export const subscribeToChecklistItems = (
+  userId: string,
+  checklistId: string,
+  callback: (items: ChecklistItem[]) => void
+) =>
+  onSnapshot(
+    query(itemsRef(userId, checklistId), orderBy('order')),
+    (snapshot) =>
+      callback(
+        snapshot.docs.map(
+          (itemDoc) => ({ ...itemDoc.data(), id: itemDoc.id } as ChecklistItem)
+        )
+      )
+  );
+
+// CSV/XLSX 파일은 서버에서 읽습니다. 파일 내용을 base64 로 보냅니다.
+export const parseRequestListFile = async (
+  file: File
+): Promise<RequestItem[]> => {
+  const content = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+  const parseRequestListFn = httpsCallable<
+    { fileName: string; content: string },
+    { items: RequestItem[] }
+  >(functions, 'parseRequestList');
+  const result = await parseRequestListFn({ fileName: file.name, content });
+  return result.data.items;
+};
+
+export const parseRequestListText = async (
+  text: string
+): Promise<RequestItem[]> => {
+  const parseRequestListFn = httpsCallable<
+    { text: string },
+    { items: RequestItem[] }
+  >(functions, 'parseRequestList');
+  const result = await parseRequestListFn({ text });
+  return result.data.items;
+};
+
+export const createChecklist = async (
+  userId: string,
+  name: string,
+  items: RequestItem[]
+): Promise<string> => {
+  const checklistRef = doc(checklistsRef(userId));
+  for (let start = 0; start < items.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    items.slice(start, start + BATCH_LIMIT).forEach((item, index) =>
+      batch.set(doc(itemsRef(userId, checklistRef.id)), {
+        ...item,
+        order: start + index,
+        status: 'open',
+      })
+    );
+    await batch.commit();
+  }
+  // 항목을 모두 쓴 뒤에 목록 문서를 만들어, 반쯤 만들어진 목록이 보이지 않게 합니다.
+  const batch = writeBatch(db);
+  batch.set(checklistRef, {
+    name,
+    createdAt: new Date().toISOString(),
+    itemCount: items.length,
+  });
+  await batch.commit();
+  return checklistRef.id;
+};
+
+export const updateChecklistItemStatus = async (
+  userId: string,
+  checklistId: string,
+  itemId: string,
+  status: ChecklistItemStatus
+) => {
+  await updateDoc(doc(itemsRef(userId, checklistId), itemId), { status });
+};
+
+export const deleteChecklist = async (userId: string, checklistId: string) => {
+  const snapshot = await getDocs(itemsRef(userId, checklistId));
+  const refs = [
+    ...snapshot.docs.map((itemDoc) => itemDoc.ref),
+    doc(checklistsRef(userId), checklistId),
+  ];
+  for (let start = 0; start < refs.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    refs.slice(start, start + BATCH_LIMIT).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+};
+
+export const matchChecklist = async (
+  checklistId: string
+): Promise<Record<ChecklistCoverage, number>> => {
+  const matchChecklistFn = httpsCallable<
+    { checklistId: string },
+    Record<ChecklistCoverage, number>
+  >(functions, 'matchChecklist');
+  const result = await matchChecklistFn({ checklistId });
+  return result.data;
+};
@@ -0,0 +1,98 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  setDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { FinancialRecord } from '../types';
+
+const financialsRef = (userId: string, fileId: string) =>
+  collection(db, 'users', userId, 'files', fileId, 'financials');
+
+const sortByPeriod = (records: FinancialRecord[]) =>
+  records.sort((a, b) =>
+    (a.periodEnd || a.period).localeCompare(b.periodEnd || b.period)
+  );
+
+export const subscribeToFinancials = (
+  userId: string,
+  fileId: string,
+  callback: (records: FinancialRecord[]) => void
+) =>
+  onSnapshot(financialsRef(userId, fileId), (snapshot) =>
+    callback(
+      sortByPeriod(
+        snapshot.docs.map(
+          (recordDoc) =>
+            ({ ...recordDoc.data(), id: recordDoc.id } as FinancialRecord)
+        )
+      )
+    )
+  );
+
+export const createFinancialRecordId = (userId: string, fileId: string) =>
+  doc(financialsRef(userId, fileId)).id;
+
+// 사용자가 고친 기록은 source 를 edited 로 바꿔 재분석 때 보존되게 합니다.
+export const saveFinancialRecord = async (
+  userId: string,
+  fileId: string,
+  record: FinancialRecord
+) => {
+  const { id, ...fields } = record;
+  await setDoc(doc(financialsRef(userId, fileId), id), {
+    ...fields,
+    source: 'edited',
+    updatedAt: new Date().toISOString(),
+  });
+};
+
+export const deleteFinancialRecord = async (
+  userId: string,
+  fileId: string,
+  recordId: string
+) => {
+  await deleteDoc(doc(financialsRef(userId, fileId), recordId));
+};
+
+// 재무제표로 분류된 모든 파일의 기록을 모읍니다. 같은 기간이 여러 파일에
+// 있으면 사용자가 고친 기록을 우선합니다.
+export const getDataRoomFinancials = async (
+  userId: string
+): Promise<FinancialRecord[]> => {
+  const filesSnapshot = await getDocs(
+    query(
+      collection(db, 'users', userId, 'files'),
+      where('analysis.documentType', '==', 'financialStatements')
+    )
+  );
+  const snapshots = await Promise.all(
+    filesSnapshot.docs.map((fileDoc) =>
+      getDocs(financialsRef(userId, fileDoc.id))
+    )
+  );
+
+  const byPeriod = new Map<string, FinancialRecord>();
+  snapshots
+    .flatMap((snapshot) => snapshot.docs)
+    .map(
+      (recordDoc) =>
+        ({ ...recordDoc.data(), id: recordDoc.id } as FinancialRecord)
+    )
+    .forEach((record) => {
+      const key = record.periodEnd || record.period;
+      const existing = byPeriod.get(key);
+      if (
+        !existing ||
+        (existing.source !== 'edited' && record.source === 'edited')
+      ) {
+        byPeriod.set(key, record);
+      }
+    });
+  return sortByPeriod(Array.from(byPeriod.values()));
+};
@@ -2,7 +2,7 @@ import { initializeApp } from 'firebase/app';
 import { getAuth, GoogleAuthProvider } from 'firebase/auth';
 import { getFirestore } from 'firebase/firestore';
 import { getStorage } from 'firebase/storage';
-import { doc, setDoc } from 'firebase/firestore';
+import { collection, doc, setDoc } from 'firebase/firestore';
 import { FileInfo, AnalysisResult } from '../types';
 import { getFunctions, httpsCallable } from 'firebase/functions';
 
@@ -23,47 +23,67 @@ export const db = getFirestore(app);
 export const storage = getStorage(app);
 export const functions = getFunctions(app);
 
-export const addFileInfo = async (userId: string, fileInfo: FileInfo) => {
-  try {
-    const fileRef = doc(db, 'users', userId, 'files', fileInfo.name);
-    let analysis: AnalysisResult;
+const UNSAFE_CHARACTERS = /[/\\#?[\]*]/g;
+
+// functions/src/storagePaths 의 toSafeFileName, buildFileStoragePath 와
+// 같은 규칙입니다. 둘 중 하나를 바꾸면 다른 쪽도 함께 바꿔야 합니다.
+const toSafeFileName = (name: string) =>
+  Array.from(name.replace(UNSAFE_CHARACTERS, '_'))
+    .map((char) => (char < ' ' || char === '\x7f' ? '_' : char))
+    .join('')
+    .trim()
+    .slice(0, 200) || 'file';
+
+// 파일 이름과 무관한 문서 ID 를 만들어 같은 이름의 파일이 덮어쓰이지 않게 합니다.
+export const createFileId = (userId: string) =>
+  doc(collection(db, 'users', userId, 'files')).id;
+
+// 버전마다 별도의 객체로 저장해 이전 버전을 덮어쓰지 않습니다.
+export const buildFileStoragePath = (
+  userId: string,
+  fileId: string,
+  versionId: string,
+  name: string
+) =>
+  `users/${userId}/files/${fileId}/versions/${versionId}/${toSafeFileName(
+    name
+  )}`;
+
+// storagePath 가 없는 문서는 예전 pdfs/ 경로에 저장되어 있습니다.
+export const getFileStoragePath = (userId: string, fileInfo: FileInfo) =>
+  fileInfo.storagePath || `users/${userId}/pdfs/${fileInfo.id}`;
+
+const EMPTY_ANALYSIS: AnalysisResult = {
+  summary: '',
+  keywords: [],
+  categories: [],
+  tags: [],
+  keyInsights: [],
+  toneAndStyle: '',
+  targetAudience: '',
+  potentialApplications: [],
+};
 
-    if (typeof fileInfo.analysis === 'string') {
-      if (fileInfo.analysis === '') {
-        analysis = {
-          summary: '',
-          keywords: [],
-          categories: [],
-          tags: [],
-          keyInsights: [],
-          toneAndStyle: '',
-          targetAudience: '',
-          potentialApplications: [],
-        };
-      } else {
-        try {
-          analysis = JSON.parse(fileInfo.analysis);
-        } catch (error) {
-          console.error('Error parsing analysis JSON:', error);
-          analysis = {
-            summary: 'Error parsing analysis',
-            keywords: [],
-            categories: [],
-            tags: [],
-            keyInsights: [],
-            toneAndStyle: '',
-            targetAudience: '',
-            potentialApplications: [],
-          };
-        }
-      }
-    } else {
-      analysis = fileInfo.analysis;
-    }
+// 아직 분석하지 않은 문서('')나 JSON 문자열로 받은 분석 결과를 객체로 바꿉니다.
+export const toAnalysisResult = (
+  analysis: AnalysisResult | string
+): AnalysisResult => {
+  if (typeof analysis !== 'string') return analysis;
+  if (analysis === '') return EMPTY_ANALYSIS;
+  try {
+    return JSON.parse(analysis);
+  } catch (error) {
+    console.error('Error parsing analysis JSON:', error);
+    return { ...EMPTY_ANALYSIS, summary: 'Error parsing analysis' };
+  }
+};
 
+export const addFileInfo = async (userId: string, fileInfo: FileInfo) => {
+  try {
+    const fileRef = doc(db, 'users', userId, 'files', fileInfo.id);
     const structuredData = {
       ...fileInfo,
-      analysis,
+      analysis: toAnalysisResult(fileInfo.analysis),
     };
 
     await setDoc(fileRef, structuredData);
@@ -72,3 +92,12 @@ export const addFileInfo = async (userId: string, fileInfo: FileInfo) => {
     throw error;
   }
 };
+
+export const migrateFileIds = async () => {
+  const migrateFileIdsFn = httpsCallable<
+    void,
+    { migrated: { from: string; to: string }[]; failed: string[] }
+  >(functions, 'migrateFileIds');
+  const result = await migrateFileIdsFn();
+  return result.data;
+};
@@ -0,0 +1,89 @@
+import { computeIndexNumbers } from './folders';
+
+jest.mock('./firebase', () => ({ db: {} }));
+
+const folder = (id: string, parentId: string | null, indexNumber?: string) => ({
+  id,
+  name: id,
+  parentId,
+  ...(indexNumber ? { indexNumber } : {}),
+});
+
+describe('computeIndexNumbers', () => {
+  it('closes the gap a moved folder leaves and numbers it under its new parent', () => {
+    // '1.2' 를 '2' 아래로 옮긴 상태입니다.
+    const numbering = computeIndexNumbers(
+      [
+        folder('legal', null, '1'),
+        folder('charter', 'legal', '1.1'),
+        folder('contracts', 'finance', '1.2'),
+        folder('ip', 'legal', '1.3'),
+        folder('finance', null, '2'),
+        folder('audits', 'finance', '2.1'),
+      ],
+      [
+        {
+          id: 'nda',
+          name: 'nda.pdf',
+          folderId: 'contracts',
+          indexNumber: '1.2.1',
+        },
+        {
+          id: 'patent',
+          name: 'patent.pdf',
+          folderId: 'ip',
+          indexNumber: '1.3.1',
+        },
+      ]
+    );
+
+    expect(numbering.folders).toEqual({
+      legal: '1',
+      charter: '1.1',
+      ip: '1.2',
+      finance: '2',
+      audits: '2.1',
+      contracts: '2.2',
+    });
+    expect(numbering.files).toEqual({ nda: '2.2.1', patent: '1.2.1' });
+    expect(numbering.documentCounts).toMatchObject({ contracts: 1, ip: 1 });
+  });
+
+  it('appends documents of a deleted folder after the parent documents', () => {
+    // '1.1' 을 지워 그 안의 문서가 '1' 로 올라온 상태입니다.
+    const numbering = computeIndexNumbers(
+      [folder('legal', null, '1'), folder('ip', 'legal', '1.2')],
+      [
+        {
+          id: 'bylaws',
+          name: 'bylaws.pdf',
+          folderId: 'legal',
+          indexNumber: '1.1',
+        },
+        {
+          id: 'charter',
+          name: 'charter.pdf',
+          folderId: 'legal',
+          indexNumber: '1.1.1',
+        },
+      ]
+    );
+
+    expect(numbering.folders).toEqual({ legal: '1', ip: '1.1' });
+    expect(numbering.files).toEqual({ bylaws: '1.1', charter: '1.2' });
+    expect(numbering.documentCounts).toEqual({ legal: 2, ip: 0 });
+  });
+
+  it('drops numbers under unnumbered folders and at the top level', () => {
+    const numbering = computeIndexNumbers(
+      [folder('misc', null), folder('old', 'misc', '3.1')],
+      [
+        { id: 'memo', name: 'memo.pdf', folderId: 'old', indexNumber: '3.1.1' },
+        { id: 'loose', name: 'loose.pdf', folderId: null, indexNumber: '3.2' },
+      ]
+    );
+
+    expect(numbering.folders).toEqual({ misc: null, old: null });
+    expect(numbering.files).toEqual({ memo: null, loose: null });
+  });
+});
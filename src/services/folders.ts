@@ -0,0 +1,371 @@
+import {
+  addDoc,
+  collection,
+  DocumentReference,
+  FieldValue,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  runTransaction,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { Folder } from '../types';
+
+const BATCH_SIZE = 500;
+
+export const foldersRef = (userId: string) =>
+  collection(db, 'users', userId, 'folders');
+
+// '2.10' 이 '2.9' 뒤에 오도록 번호를 구간별 숫자로 비교합니다.
+export const compareIndexNumbers = (a: string, b: string) => {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? -1) - (right[i] ?? -1);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+interface IndexedItem {
+  id: string;
+  name: string;
+  indexNumber?: string;
+}
+
+// 번호가 있는 폴더를 먼저, 번호 순으로 보여주고 나머지는 이름 순입니다.
+const compareFolders = (a: IndexedItem, b: IndexedItem) => {
+  if (a.indexNumber && b.indexNumber) {
+    return compareIndexNumbers(a.indexNumber, b.indexNumber);
+  }
+  if (a.indexNumber) return -1;
+  if (b.indexNumber) return 1;
+  return a.name.localeCompare(b.name);
+};
+
+export const subscribeToFolders = (
+  userId: string,
+  onChange: (folders: Folder[]) => void
+) =>
+  onSnapshot(foldersRef(userId), (querySnapshot) => {
+    onChange(
+      querySnapshot.docs
+        .map((doc) => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            name: data.name,
+            parentId: data.parentId || null,
+            ...(data.indexNumber ? { indexNumber: data.indexNumber } : {}),
+          };
+        })
+        .sort(compareFolders)
+    );
+  });
+
+// 번호가 있는 상위 폴더(또는 번호가 있는 최상위) 아래에 새 폴더를 만들면
+// 형제 폴더의 마지막 번호 다음 번호를 붙입니다.
+export const getNextIndexNumber = (
+  folders: Folder[],
+  parentId: string | null
+): string | undefined => {
+  const parent = folders.find((folder) => folder.id === parentId);
+  const siblings = folders.filter(
+    (folder) => folder.parentId === parentId && folder.indexNumber
+  );
+  if (parentId ? !parent?.indexNumber : siblings.length === 0) {
+    return undefined;
+  }
+
+  const last = Math.max(
+    0,
+    ...siblings.map((folder) =>
+      Number(folder.indexNumber!.split('.').pop() || 0)
+    )
+  );
+  return parent?.indexNumber
+    ? `${parent.indexNumber}.${last + 1}`
+    : `${last + 1}`;
+};
+
+// 최상위부터 주어진 폴더까지의 경로를 돌려줍니다. 브레드크럼에 사용합니다.
+export const getFolderPath = (
+  folders: Folder[],
+  folderId: string | null
+): Folder[] => {
+  const path: Folder[] = [];
+  let current = folders.find((folder) => folder.id === folderId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    const parentId: string | null = current.parentId;
+    current = folders.find((folder) => folder.id === parentId);
+  }
+  return path;
+};
+
+export const formatFolderName = (folder: Folder) =>
+  folder.indexNumber ? `${folder.indexNumber} ${folder.name}` : folder.name;
+
+export const formatFolderPath = (folders: Folder[], folderId: string | null) =>
+  ['Data Room', ...getFolderPath(folders, folderId).map(formatFolderName)].join(
+    ' / '
+  );
+
+export const createFolder = async (
+  userId: string,
+  folders: Folder[],
+  name: string,
+  parentId: string | null
+) => {
+  const indexNumber = getNextIndexNumber(folders, parentId);
+  const folderRef = await addDoc(foldersRef(userId), {
+    name,
+    parentId,
+    ...(indexNumber ? { indexNumber } : {}),
+    createdAt: serverTimestamp(),
+  });
+  return folderRef.id;
+};
+
+// 폴더 문서의 카운터를 트랜잭션으로 올려 문서 번호를 예약합니다. 번호는
+// 폴더를 옮기거나 지울 때만 renumberIndex 가 다시 매깁니다.
+export const reserveDocumentIndex = async (
+  userId: string,
+  folderId: string | null
+): Promise<string | null> => {
+  if (!folderId) return null;
+  const folderRef = doc(foldersRef(userId), folderId);
+  return runTransaction(db, async (transaction) => {
+    const folderDoc = await transaction.get(folderRef);
+    const indexNumber = folderDoc.data()?.indexNumber;
+    if (!indexNumber) return null;
+    const documentCount = (folderDoc.data()?.documentCount || 0) + 1;
+    transaction.update(folderRef, { documentCount });
+    return `${indexNumber}.${documentCount}`;
+  });
+};
+
+// '2.3.1' 의 상위 번호 '2.3' 입니다. 최상위 번호이면 null 입니다.
+const parentNumberOf = (indexNumber?: string) =>
+  indexNumber && indexNumber.includes('.')
+    ? indexNumber.slice(0, indexNumber.lastIndexOf('.'))
+    : indexNumber
+    ? null
+    : undefined;
+
+// 원래 그 자리에 있던 항목을 번호 순으로 먼저 두고, 다른 곳에서 옮겨 온
+// 항목을 뒤에 붙여 기존 번호가 되도록 덜 바뀌게 합니다.
+const orderForNumbering = <T extends IndexedItem>(
+  items: T[],
+  previousNumber: string | null
+) => [
+  ...items
+    .filter((item) => parentNumberOf(item.indexNumber) === previousNumber)
+    .sort(compareFolders),
+  ...items
+    .filter((item) => parentNumberOf(item.indexNumber) !== previousNumber)
+    .sort(compareFolders),
+];
+
+export interface IndexNumbering {
+  folders: { [folderId: string]: string | null };
+  files: { [fileId: string]: string | null };
+  documentCounts: { [folderId: string]: number };
+}
+
+// 지금의 폴더 구조에서 폴더와 문서 번호를 다시 계산합니다. 최상위에서는
+// 번호가 있던 폴더만, 그 아래에서는 번호가 있는 폴더의 하위 폴더와 문서에
+// 빈 번호 없이 차례로 번호를 붙이고, 번호가 없는 폴더 아래의 번호는 지웁니다.
+export const computeIndexNumbers = (
+  folders: Folder[],
+  files: (IndexedItem & { folderId?: string | null })[]
+): IndexNumbering => {
+  const numbering: IndexNumbering = {
+    folders: {},
+    files: {},
+    documentCounts: {},
+  };
+
+  const numberChildren = (parent: Folder | null) => {
+    const parentId = parent ? parent.id : null;
+    const parentNumber = parent ? numbering.folders[parent.id] : null;
+    const children = folders.filter((folder) => folder.parentId === parentId);
+    const numbered = parent
+      ? parentNumber
+        ? children
+        : []
+      : children.filter((folder) => folder.indexNumber);
+    orderForNumbering(numbered, parent?.indexNumber || null).forEach(
+      (folder, index) => {
+        numbering.folders[folder.id] = parentNumber
+          ? `${parentNumber}.${index + 1}`
+          : `${index + 1}`;
+      }
+    );
+    children.forEach((folder) => {
+      if (!(folder.id in numbering.folders)) {
+        numbering.folders[folder.id] = null;
+      }
+      numberChildren(folder);
+    });
+  };
+  numberChildren(null);
+
+  files.forEach((file) => {
+    numbering.files[file.id] = null;
+  });
+  folders.forEach((folder) => {
+    const folderNumber = numbering.folders[folder.id];
+    if (!folderNumber) return;
+    const folderFiles = files.filter((file) => file.folderId === folder.id);
+    orderForNumbering(folderFiles, folder.indexNumber || null).forEach(
+      (file, index) => {
+        numbering.files[file.id] = `${folderNumber}.${index + 1}`;
+      }
+    );
+    numbering.documentCounts[folder.id] = folderFiles.length;
+  });
+  return numbering;
+};
+
+// 폴더를 옮기거나 지운 뒤 옮겨진 하위 폴더, 남은 형제 폴더, 문서의 번호를
+// 다시 매기고 바뀐 문서만 씁니다.
+export const renumberIndex = async (userId: string) => {
+  const filesRef = collection(db, 'users', userId, 'files');
+  const [folderDocs, fileDocs] = await Promise.all([
+    getDocs(foldersRef(userId)),
+    getDocs(filesRef),
+  ]);
+  const folders = folderDocs.docs.map((folderDoc) => ({
+    id: folderDoc.id,
+    name: folderDoc.data().name,
+    parentId: folderDoc.data().parentId || null,
+    indexNumber: folderDoc.data().indexNumber,
+    documentCount: folderDoc.data().documentCount,
+  }));
+  const files = fileDocs.docs.map((fileDoc) => ({
+    id: fileDoc.id,
+    name: fileDoc.data().name,
+    folderId: fileDoc.data().folderId || null,
+    indexNumber: fileDoc.data().indexNumber,
+  }));
+  const numbering = computeIndexNumbers(folders, files);
+
+  const updates: {
+    ref: DocumentReference;
+    fields: { indexNumber: string | FieldValue; documentCount?: number };
+  }[] = [];
+  folders.forEach((folder) => {
+    const indexNumber = numbering.folders[folder.id];
+    const documentCount = numbering.documentCounts[folder.id];
+    if (
+      (indexNumber || undefined) !== folder.indexNumber ||
+      (documentCount !== undefined && documentCount !== folder.documentCount)
+    ) {
+      updates.push({
+        ref: doc(foldersRef(userId), folder.id),
+        fields: {
+          indexNumber: indexNumber || deleteField(),
+          ...(documentCount !== undefined ? { documentCount } : {}),
+        },
+      });
+    }
+  });
+  files.forEach((file) => {
+    const indexNumber = numbering.files[file.id];
+    if ((indexNumber || undefined) !== file.indexNumber) {
+      updates.push({
+        ref: doc(filesRef, file.id),
+        fields: { indexNumber: indexNumber || deleteField() },
+      });
+    }
+  });
+
+  // 배치 하나에는 쓰기를 500개까지만 담을 수 있습니다.
+  for (let start = 0; start < updates.length; start += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    updates
+      .slice(start, start + BATCH_SIZE)
+      .forEach(({ ref, fields }) => batch.update(ref, fields));
+    await batch.commit();
+  }
+};
+
+export const renameFolder = async (
+  userId: string,
+  folderId: string,
+  name: string
+) => {
+  await updateDoc(doc(foldersRef(userId), folderId), { name });
+};
+
+export const moveFolder = async (
+  userId: string,
+  folders: Folder[],
+  folderId: string,
+  parentId: string | null
+) => {
+  // 폴더를 자기 자신이나 하위 폴더 안으로 옮기면 순환이 생깁니다.
+  if (
+    getFolderPath(folders, parentId).some((folder) => folder.id === folderId)
+  ) {
+    throw new Error('A folder cannot be moved into itself.');
+  }
+  await updateDoc(doc(foldersRef(userId), folderId), { parentId });
+  await renumberIndex(userId);
+};
+
+export const moveFile = async (
+  userId: string,
+  fileId: string,
+  folderId: string | null
+) => {
+  const indexNumber = await reserveDocumentIndex(userId, folderId);
+  await updateDoc(doc(db, 'users', userId, 'files', fileId), {
+    folderId,
+    indexNumber: indexNumber || deleteField(),
+  });
+};
+
+// 폴더를 지우면 안에 있던 하위 폴더와 파일은 상위 폴더로 올라가고, 올라간
+// 항목과 남은 형제 폴더의 번호를 다시 매깁니다.
+export const deleteFolder = async (userId: string, folder: Folder) => {
+  const [childFolders, childFiles] = await Promise.all([
+    getDocs(query(foldersRef(userId), where('parentId', '==', folder.id))),
+    getDocs(
+      query(
+        collection(db, 'users', userId, 'files'),
+        where('folderId', '==', folder.id)
+      )
+    ),
+  ]);
+
+  const moves = [
+    ...childFolders.docs.map((child) => ({
+      ref: child.ref,
+      fields: { parentId: folder.parentId },
+    })),
+    ...childFiles.docs.map((file) => ({
+      ref: file.ref,
+      fields: { folderId: folder.parentId },
+    })),
+  ];
+  // 배치 하나에는 쓰기를 500개까지만 담을 수 있습니다. 중간에 실패해도 다시
+  // 지우면 남은 항목을 옮기도록 폴더는 모두 옮긴 뒤에 지웁니다.
+  for (let start = 0; start < moves.length; start += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    moves
+      .slice(start, start + BATCH_SIZE)
+      .forEach(({ ref, fields }) => batch.update(ref, fields));
+    await batch.commit();
+  }
+  await deleteDoc(doc(foldersRef(userId), folder.id));
+  await renumberIndex(userId);
+};
@@ -0,0 +1,71 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+import { FileInfo, LegalReview, RedFlagSeverity, RedFlagType } from '../types';
+
+export const RED_FLAG_LABELS: Record<RedFlagType, string> = {
+  changeOfControl: 'Change of control',
+  exclusivity: 'Exclusivity',
+  mostFavoredNation: 'MFN',
+  ipAssignmentGap: 'IP assignment gap',
+  unusualTermination: 'Unusual termination',
+  missingSignature: 'Missing signature',
+};
+
+// 분석 단계에서 자동으로 검토하는 문서 종류입니다.
+export const REVIEWED_DOCUMENT_TYPES = ['legalContract', 'customerContract'];
+
+export const isContract = (file: FileInfo) =>
+  typeof file.analysis === 'object' &&
+  REVIEWED_DOCUMENT_TYPES.includes(file.analysis.documentType || '');
+
+export const runLegalReview = async (fileId: string): Promise<LegalReview> => {
+  const runLegalReviewFn = httpsCallable<
+    { fileId: string },
+    { legalReview: LegalReview }
+  >(functions, 'runLegalReview');
+  const result = await runLegalReviewFn({ fileId });
+  return result.data.legalReview;
+};
+
+type ReviewedFile = FileInfo & { legalReview: LegalReview };
+
+export interface RedFlagReport {
+  reviewedCount: number;
+  // 계약서로 분류됐지만 아직 검토 결과가 없는 문서입니다.
+  pending: FileInfo[];
+  bySeverity: Record<RedFlagSeverity, number>;
+  byType: Partial<Record<RedFlagType, number>>;
+  documents: ReviewedFile[];
+}
+
+const SEVERITY_RANK = { none: 0, low: 1, medium: 2, high: 3 };
+
+// 데이터룸 전체의 검토 결과를 모아 위험이 큰 문서부터 정렬합니다.
+export const buildRedFlagReport = (files: FileInfo[]): RedFlagReport => {
+  const reviewed = files.filter(
+    (file): file is ReviewedFile => !!file.legalReview
+  );
+  const flags = reviewed.flatMap((file) => file.legalReview.flags);
+
+  const bySeverity = { high: 0, medium: 0, low: 0 };
+  const byType: Partial<Record<RedFlagType, number>> = {};
+  flags.forEach((flag) => {
+    bySeverity[flag.severity]++;
+    byType[flag.type] = (byType[flag.type] || 0) + 1;
+  });
+
+  return {
+    reviewedCount: reviewed.length,
+    pending: files.filter((file) => isContract(file) && !file.legalReview),
+    bySeverity,
+    byType,
+    documents: reviewed
+      .filter((file) => file.legalReview.flags.length > 0)
+      .sort(
+        (a, b) =>
+          SEVERITY_RANK[b.legalReview.riskLevel] -
+            SEVERITY_RANK[a.legalReview.riskLevel] ||
+          b.legalReview.flags.length - a.legalReview.flags.length
+      ),
+  };
+};
@@ -0,0 +1,133 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  increment,
+  onSnapshot,
+  orderBy,
+  query,
+  Timestamp,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './firebase';
+import { NdaAcceptance, NdaTemplate } from '../types';
+
+export const subscribeToNdaTemplates = (
+  userId: string,
+  onChange: (templates: NdaTemplate[]) => void
+) => {
+  const templatesRef = collection(db, 'users', userId, 'ndaTemplates');
+  const q = query(templatesRef, orderBy('createdAt', 'desc'));
+  return onSnapshot(q, (querySnapshot) => {
+    onChange(
+      querySnapshot.docs.map(
+        (doc) => ({ id: doc.id, ...doc.data() } as NdaTemplate)
+      )
+    );
+  });
+};
+
+export const saveNdaTemplate = async (
+  userId: string,
+  template: Pick<NdaTemplate, 'title' | 'body'> & { id?: string },
+  isFirstTemplate: boolean
+) => {
+  const now = new Date().toISOString();
+  if (template.id) {
+    // 내용이 바뀌면 버전을 올려 기존 동의자도 새 버전에 다시 동의하도록 합니다.
+    await updateDoc(doc(db, 'users', userId, 'ndaTemplates', template.id), {
+      title: template.title,
+      body: template.body,
+      version: increment(1),
+      updatedAt: now,
+    });
+    return;
+  }
+
+  await addDoc(collection(db, 'users', userId, 'ndaTemplates'), {
+    title: template.title,
+    body: template.body,
+    version: 1,
+    isDefault: isFirstTemplate,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const setDefaultNdaTemplate = async (
+  userId: string,
+  templates: NdaTemplate[],
+  templateId: string
+) => {
+  const batch = writeBatch(db);
+  templates.forEach((template) => {
+    batch.update(doc(db, 'users', userId, 'ndaTemplates', template.id), {
+      isDefault: template.id === templateId,
+    });
+  });
+  await batch.commit();
+};
+
+export const deleteNdaTemplate = async (userId: string, templateId: string) => {
+  await deleteDoc(doc(db, 'users', userId, 'ndaTemplates', templateId));
+};
+
+export const subscribeToNdaAcceptances = (
+  userId: string,
+  onChange: (acceptances: NdaAcceptance[]) => void
+) => {
+  const acceptancesRef = collection(db, 'users', userId, 'ndaAcceptances');
+  const q = query(acceptancesRef, orderBy('acceptedAt', 'desc'));
+  return onSnapshot(q, (querySnapshot) => {
+    onChange(
+      querySnapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          ...data,
+          id: doc.id,
+          acceptedAt:
+            data.acceptedAt instanceof Timestamp
+              ? data.acceptedAt.toDate().toISOString()
+              : new Date().toISOString(),
+        } as NdaAcceptance;
+      })
+    );
+  });
+};
+
+export const acceptNda = async (params: {
+  shareId: string;
+  name: string;
+  email: string;
+  ndaVersion: number;
+}): Promise<string> => {
+  const acceptNDAFn = httpsCallable<typeof params, { acceptanceId: string }>(
+    functions,
+    'acceptNDA'
+  );
+  const result = await acceptNDAFn(params);
+  return result.data.acceptanceId;
+};
+
+export const downloadNdaReceipt = async (acceptanceId: string) => {
+  const exportNdaReceiptFn = httpsCallable<
+    { acceptanceId: string },
+    { fileName: string; content: string }
+  >(functions, 'exportNdaReceipt');
+  const { data } = await exportNdaReceiptFn({ acceptanceId });
+
+  const bytes = Uint8Array.from(atob(data.content), (char) =>
+    char.charCodeAt(0)
+  );
+  const url = URL.createObjectURL(
+    new Blob([bytes], { type: 'application/pdf' })
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = data.fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,22 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+import { QACitation, QAMessage } from '../types';
+
+export const askDataRoom = async (
+  question: string,
+  history: QAMessage[]
+): Promise<{ answer: string; citations: QACitation[] }> => {
+  const askDataRoomFn = httpsCallable<
+    {
+      question: string;
+      history: Pick<QAMessage, 'role' | 'content'>[];
+    },
+    { answer: string; citations: QACitation[] }
+  >(functions, 'askDataRoom');
+  const result = await askDataRoomFn({
+    question,
+    // 인용 정보는 서버에 다시 보낼 필요가 없습니다.
+    history: history.map(({ role, content }) => ({ role, content })),
+  });
+  return result.data;
+};
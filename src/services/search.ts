@@ -0,0 +1,12 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+import { SearchHit } from '../types';
+
+export const searchDocuments = async (query: string): Promise<SearchHit[]> => {
+  const searchDocumentsFn = httpsCallable<
+    { query: string },
+    { hits: SearchHit[] }
+  >(functions, 'searchDocuments');
+  const result = await searchDocumentsFn({ query });
+  return result.data.hits;
+};
@@ -0,0 +1,116 @@
+import {
+  collection,
+  onSnapshot,
+  orderBy,
+  query,
+  Timestamp,
+  where,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './firebase';
+import { ShareRecord } from '../types';
+
+const VIEW_SHARED_FILE_URL =
+  'https://us-central1-onevdr-50b2f.cloudfunctions.net/viewSharedFile';
+
+export interface SharedFile {
+  fileName: string;
+  contentType: string;
+  // 다운로드가 허용된 공유에만 서명된 URL이 내려옵니다.
+  url: string | null;
+  urlExpiresAt: string | null;
+  downloadable: boolean;
+  requireNDA: boolean;
+  ndaAccepted: boolean;
+  // NDA 동의가 필요할 때만 본문이 내려옵니다.
+  nda: { title: string; body: string; version: number } | null;
+  expirationDate: string;
+}
+
+const acceptanceStorageKey = (shareId: string) => `nda-acceptance-${shareId}`;
+
+export const getStoredNdaAcceptance = (shareId: string): string | null =>
+  sessionStorage.getItem(acceptanceStorageKey(shareId));
+
+export const storeNdaAcceptance = (shareId: string, acceptanceId: string) =>
+  sessionStorage.setItem(acceptanceStorageKey(shareId), acceptanceId);
+
+export const getSharedFile = async (
+  shareId: string,
+  acceptanceId?: string | null
+): Promise<SharedFile> => {
+  const getSharedFileFn = httpsCallable<
+    { shareId: string; acceptanceId?: string | null },
+    SharedFile
+  >(functions, 'getSharedFile');
+  const result = await getSharedFileFn({ shareId, acceptanceId });
+  return result.data;
+};
+
+export const getSharedFileViewUrl = (
+  shareId: string,
+  acceptanceId?: string | null
+): string => {
+  const params = new URLSearchParams({ shareId });
+  if (acceptanceId) {
+    params.set('acceptanceId', acceptanceId);
+  }
+  return `${VIEW_SHARED_FILE_URL}?${params.toString()}`;
+};
+
+const toIsoString = (value: unknown): string =>
+  value instanceof Timestamp
+    ? value.toDate().toISOString()
+    : new Date().toISOString();
+
+export const subscribeToShares = (
+  userId: string,
+  onChange: (shares: ShareRecord[]) => void
+) => {
+  const q = query(
+    collection(db, 'shares'),
+    where('createdBy', '==', userId),
+    orderBy('createdAt', 'desc')
+  );
+  return onSnapshot(q, (querySnapshot) => {
+    onChange(
+      querySnapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          ...data,
+          shareId: doc.id,
+          revoked: !!data.revoked,
+          expirationDate: toIsoString(data.expirationDate),
+          createdAt: toIsoString(data.createdAt),
+        } as ShareRecord;
+      })
+    );
+  });
+};
+
+export const revokeShare = async (shareId: string) => {
+  const revokeShareFn = httpsCallable<{ shareId: string }, void>(
+    functions,
+    'revokeShare'
+  );
+  await revokeShareFn({ shareId });
+};
+
+export const extendShare = async (shareId: string, days: number) => {
+  const extendShareFn = httpsCallable<{ shareId: string; days: number }, void>(
+    functions,
+    'extendShare'
+  );
+  await extendShareFn({ shareId, days });
+};
+
+export const setShareDownloadable = async (
+  shareId: string,
+  downloadable: boolean
+) => {
+  const setShareDownloadableFn = httpsCallable<
+    { shareId: string; downloadable: boolean },
+    void
+  >(functions, 'setShareDownloadable');
+  await setShareDownloadableFn({ shareId, downloadable });
+};
@@ -0,0 +1,168 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { foldersRef, getNextIndexNumber } from './folders';
+import { DataRoomTemplate, Folder, TemplateFolder } from '../types';
+
+const templatesRef = (userId: string) =>
+  collection(db, 'users', userId, 'dataRoomTemplates');
+
+export const BUILT_IN_TEMPLATES: DataRoomTemplate[] = [
+  {
+    id: 'standard-dd',
+    name: 'Standard Due Diligence',
+    description: 'Full index for a priced equity round.',
+    builtIn: true,
+    folders: [
+      {
+        name: 'Corporate',
+        children: [
+          { name: 'Formation Documents' },
+          { name: 'Board & Shareholder Minutes' },
+          { name: 'Cap Table' },
+          { name: 'Prior Financings' },
+        ],
+      },
+      {
+        name: 'Financials',
+        children: [
+          { name: 'Audited Financial Statements' },
+          { name: 'Management Accounts' },
+          { name: 'Budget & Forecast' },
+          { name: 'Tax' },
+        ],
+      },
+      {
+        name: 'Legal',
+        children: [
+          { name: 'Material Contracts' },
+          { name: 'Litigation' },
+          { name: 'Regulatory & Compliance' },
+        ],
+      },
+      {
+        name: 'IP',
+        children: [
+          { name: 'Patents & Trademarks' },
+          { name: 'IP Assignments' },
+          { name: 'Open Source' },
+        ],
+      },
+      {
+        name: 'HR',
+        children: [
+          { name: 'Organisation Chart' },
+          { name: 'Employment Agreements' },
+          { name: 'Equity Incentive Plan' },
+        ],
+      },
+      {
+        name: 'Commercial',
+        children: [
+          { name: 'Customer Contracts' },
+          { name: 'Pipeline & KPIs' },
+          { name: 'Market & Competition' },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'seed-lite',
+    name: 'Seed (Lite)',
+    description: 'Short index for seed and pre-seed rounds.',
+    builtIn: true,
+    folders: [
+      { name: 'Pitch & Overview' },
+      { name: 'Corporate' },
+      { name: 'Financials' },
+      { name: 'Product & IP' },
+      { name: 'Team' },
+    ],
+  },
+];
+
+export const subscribeToTemplates = (
+  userId: string,
+  onChange: (templates: DataRoomTemplate[]) => void
+) =>
+  onSnapshot(templatesRef(userId), (querySnapshot) => {
+    onChange(
+      querySnapshot.docs.map((doc) => ({
+        id: doc.id,
+        name: doc.data().name,
+        description: doc.data().description || '',
+        folders: doc.data().folders || [],
+      }))
+    );
+  });
+
+// 현재 폴더 구조를 그대로 사용자 템플릿으로 저장합니다.
+export const saveTemplate = async (
+  userId: string,
+  name: string,
+  description: string,
+  folders: Folder[]
+) => {
+  const toTemplateFolders = (parentId: string | null): TemplateFolder[] =>
+    folders
+      .filter((folder) => folder.parentId === parentId)
+      .map((folder) => {
+        const children = toTemplateFolders(folder.id);
+        return children.length > 0
+          ? { name: folder.name, children }
+          : { name: folder.name };
+      });
+
+  await addDoc(templatesRef(userId), {
+    name,
+    description,
+    folders: toTemplateFolders(null),
+    createdAt: serverTimestamp(),
+  });
+};
+
+export const deleteTemplate = async (userId: string, templateId: string) => {
+  await deleteDoc(doc(templatesRef(userId), templateId));
+};
+
+// 템플릿의 폴더를 번호를 붙여 만듭니다. 이미 번호가 있는 최상위 폴더가
+// 있으면 그 다음 번호부터 이어서 붙입니다.
+export const applyTemplate = async (
+  userId: string,
+  folders: Folder[],
+  template: DataRoomTemplate
+) => {
+  const batch = writeBatch(db);
+  const firstNumber = Number(getNextIndexNumber(folders, null) || 1);
+
+  const addFolders = (
+    templateFolders: TemplateFolder[],
+    parentId: string | null,
+    prefix: string | null,
+    start: number
+  ) => {
+    templateFolders.forEach((templateFolder, index) => {
+      const folderRef = doc(foldersRef(userId));
+      const indexNumber = prefix
+        ? `${prefix}.${start + index}`
+        : `${start + index}`;
+      batch.set(folderRef, {
+        name: templateFolder.name,
+        parentId,
+        indexNumber,
+        createdAt: serverTimestamp(),
+      });
+      addFolders(templateFolder.children || [], folderRef.id, indexNumber, 1);
+    });
+  };
+
+  addFolders(template.folders, null, null, firstNumber);
+  await batch.commit();
+};
@@ -0,0 +1,175 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  where,
+} from 'firebase/firestore';
+import { deleteObject, ref } from 'firebase/storage';
+import { httpsCallable } from 'firebase/functions';
+import {
+  db,
+  functions,
+  getFileStoragePath,
+  storage,
+  toAnalysisResult,
+} from './firebase';
+import { FileInfo, FileVersion } from '../types';
+
+const versionsRef = (userId: string, fileId: string) =>
+  collection(db, 'users', userId, 'files', fileId, 'versions');
+
+export const createVersionId = (userId: string, fileId: string) =>
+  doc(versionsRef(userId, fileId)).id;
+
+// 같은 폴더에 같은 이름의 문서가 있는지 찾습니다. 다른 폴더의 같은 이름
+// 문서는 별개의 문서입니다. 폴더 기능 이전의 문서는 folderId 가 없습니다.
+export const findFileByName = async (
+  userId: string,
+  name: string,
+  folderId: string | null
+): Promise<FileInfo | null> => {
+  const querySnapshot = await getDocs(
+    query(collection(db, 'users', userId, 'files'), where('name', '==', name))
+  );
+  const fileDoc = querySnapshot.docs.find(
+    (candidate) => (candidate.data().folderId ?? null) === folderId
+  );
+  return fileDoc ? ({ ...fileDoc.data(), id: fileDoc.id } as FileInfo) : null;
+};
+
+// 버전 문서와 파일 문서가 공유하는 필드입니다. Firestore 는 undefined 값을
+// 받지 않으므로 contentType 은 있을 때만 넣습니다.
+const toVersionFields = (source: FileInfo | FileVersion) => ({
+  name: source.name,
+  url: source.url,
+  storagePath: source.storagePath || '',
+  ...(source.contentType ? { contentType: source.contentType } : {}),
+  size: source.size,
+  uploadDate: source.uploadDate,
+  analysis: source.analysis,
+  status: source.status,
+});
+
+// 새 문서는 1번 버전만 남기고, 기존 문서는 파일 문서까지 트랜잭션 안에서
+// 바꿔 동시에 올린 버전이 같은 번호를 받지 않게 합니다. 기존 문서의 파일
+// 문서는 여기서 쓰므로 호출한 쪽은 새 문서일 때만 파일 문서를 만듭니다.
+export const addFileVersion = async (
+  userId: string,
+  existingFile: FileInfo | null,
+  fileId: string,
+  version: Omit<FileVersion, 'versionNumber'>
+): Promise<FileInfo> => {
+  const fileRef = doc(db, 'users', userId, 'files', fileId);
+  return runTransaction(db, async (transaction) => {
+    const fileDoc = existingFile ? await transaction.get(fileRef) : null;
+    const currentFile = fileDoc?.exists()
+      ? ({ ...fileDoc.data(), id: fileId } as FileInfo)
+      : null;
+    let versionCount = currentFile?.versionCount || 0;
+
+    // 버전 관리 이전에 올린 파일은 현재 상태를 1번 버전으로 먼저 남깁니다.
+    if (currentFile && !currentFile.currentVersionId) {
+      const legacyVersionId = createVersionId(userId, fileId);
+      transaction.set(doc(versionsRef(userId, fileId), legacyVersionId), {
+        ...toVersionFields({
+          ...currentFile,
+          storagePath: getFileStoragePath(userId, currentFile),
+        }),
+        id: legacyVersionId,
+        versionNumber: 1,
+      });
+      versionCount = 1;
+    }
+
+    const versionNumber = versionCount + 1;
+    transaction.set(doc(versionsRef(userId, fileId), version.id), {
+      ...toVersionFields({ ...version, versionNumber }),
+      id: version.id,
+      versionNumber,
+    });
+
+    const fileInfo: FileInfo = {
+      ...currentFile,
+      ...version,
+      id: fileId,
+      uploadProgress: 100,
+      currentVersionId: version.id,
+      versionCount: versionNumber,
+    };
+    if (currentFile) {
+      transaction.set(fileRef, {
+        ...fileInfo,
+        analysis: toAnalysisResult(fileInfo.analysis),
+      });
+    }
+    return fileInfo;
+  });
+};
+
+// 서버의 분석 작업이 버전 문서에 쓰는 상태와 진행률을 구독합니다.
+export const subscribeToVersionAnalysis = (
+  userId: string,
+  fileId: string,
+  versionId: string,
+  onChange: (version: Pick<FileVersion, 'status' | 'analysisProgress'>) => void
+) =>
+  onSnapshot(doc(versionsRef(userId, fileId), versionId), (versionDoc) => {
+    const data = versionDoc.data();
+    if (data?.status) {
+      onChange({
+        status: data.status,
+        analysisProgress: data.analysisProgress,
+      });
+    }
+  });
+
+export const subscribeToVersions = (
+  userId: string,
+  fileId: string,
+  onChange: (versions: FileVersion[]) => void
+) =>
+  onSnapshot(
+    query(versionsRef(userId, fileId), orderBy('versionNumber', 'desc')),
+    (querySnapshot) => {
+      onChange(
+        querySnapshot.docs.map(
+          (doc) => ({ ...doc.data(), id: doc.id } as FileVersion)
+        )
+      );
+    }
+  );
+
+// 예전 버전을 현재 버전으로 되돌립니다. 검색 색인, 질의응답 조각, 재무 표,
+// 법률 검토도 그 버전의 내용으로 다시 만들어야 하므로 서버에서 처리합니다.
+export const restoreFileVersion = async (
+  fileId: string,
+  versionId: string
+): Promise<{ reanalyzing: boolean }> => {
+  const restoreFileVersionFn = httpsCallable<
+    { fileId: string; versionId: string },
+    { reanalyzing: boolean }
+  >(functions, 'restoreFileVersion');
+  const result = await restoreFileVersionFn({ fileId, versionId });
+  return result.data;
+};
+
+export const deleteFileVersions = async (userId: string, fileId: string) => {
+  const querySnapshot = await getDocs(versionsRef(userId, fileId));
+  await Promise.all(
+    querySnapshot.docs.map(async (versionDoc) => {
+      const { storagePath } = versionDoc.data() as FileVersion;
+      if (storagePath) {
+        await deleteObject(ref(storage, storagePath)).catch((error) => {
+          // 현재 버전 객체는 호출한 쪽에서 이미 지웠을 수 있습니다.
+          if (error.code !== 'storage/object-not-found') throw error;
+        });
+      }
+      await deleteDoc(versionDoc.ref);
+    })
+  );
+};
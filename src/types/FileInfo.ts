@@ -9,9 +9,11 @@ export interface AnalysisResult {
   categories: string[];
   tags: string[];
   keyInsights: string[];
-  toneAndStyle: string;
-  targetAudience: string;
-  potentialApplications: string[];
+  documentType?: string;
+  details?: Record<string, unknown>;
+  toneAndStyle?: string;
+  targetAudience?: string;
+  potentialApplications?: string[];
 }
 
 export interface FileInfo {
@@ -22,5 +24,11 @@ export interface FileInfo {
   uploadDate: string;
   size: string;
   uploadProgress: number;
-  status: 'uploading' | 'analyzing' | 'completed' | 'failed';
+  status:
+    | 'uploading'
+    | 'queued'
+    | 'extracting'
+    | 'analyzing'
+    | 'completed'
+    | 'failed';
 }
@@ -12,7 +12,145 @@ export interface FileInfo {
   uploadDate: string;
   size: string;
   uploadProgress: number;
-  status: 'uploading' | 'analyzing' | 'completed' | 'failed';
+  status:
+    | 'uploading'
+    | 'queued'
+    | 'extracting'
+    | 'analyzing'
+    | 'completed'
+    | 'failed';
+  // 다형식 지원 이전에 올린 PDF 문서에는 없습니다.
+  storagePath?: string;
+  contentType?: string;
+  // 버전 관리 이전에 올린 파일에는 없습니다.
+  currentVersionId?: string;
+  versionCount?: number;
+  // null 또는 없음은 데이터룸 최상위를 뜻합니다.
+  folderId?: string | null;
+  // 번호가 매겨진 폴더에 있는 문서의 인덱스 번호입니다. (예: 2.3.1)
+  indexNumber?: string;
+  // 자동 정리 규칙이 제안한 이동 위치입니다. 수락하거나 무시하면 지웁니다.
+  filingSuggestion?: FilingSuggestion;
+  // 분석 작업이 기록하는 실제 진행률입니다.
+  analysisProgress?: AnalysisProgress;
+  // 계약서로 분류된 문서에만 있습니다.
+  legalReview?: LegalReview;
+}
+
+export type RedFlagType =
+  | 'changeOfControl'
+  | 'exclusivity'
+  | 'mostFavoredNation'
+  | 'ipAssignmentGap'
+  | 'unusualTermination'
+  | 'missingSignature';
+
+export type RedFlagSeverity = 'low' | 'medium' | 'high';
+
+export interface RedFlag {
+  type: RedFlagType;
+  severity: RedFlagSeverity;
+  title: string;
+  explanation: string;
+  // 서명 누락처럼 인용할 조항이 없으면 빈 문자열입니다.
+  quote: string;
+  // 인용한 페이지를 확인하지 못했으면 null 입니다.
+  page: number | null;
+}
+
+export interface LegalReview {
+  riskLevel: 'none' | RedFlagSeverity;
+  // 심각도가 높은 순, 같으면 페이지 순이며 페이지가 없는 항목이 마지막입니다.
+  flags: RedFlag[];
+  reviewedAt: string;
+}
+
+export interface AnalysisProgress {
+  stage: 'extracting' | 'analyzing';
+  pagesExtracted: number;
+  totalPages: number;
+  chunksAnalyzed: number;
+  totalChunks: number;
+  estimatedSecondsRemaining: number | null;
+}
+
+export interface FilingSuggestion {
+  folderId: string;
+  matchedKeyword: string;
+}
+
+export interface FilingRule {
+  keyword: string;
+  folderId: string;
+}
+
+export interface AutoFilingSettings {
+  enabled: boolean;
+  rules: FilingRule[];
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  // 실사 인덱스 번호입니다. (예: 2.3) 템플릿 없이 만든 폴더에는 없습니다.
+  indexNumber?: string;
+}
+
+export interface TemplateFolder {
+  name: string;
+  children?: TemplateFolder[];
+}
+
+export interface DataRoomTemplate {
+  id: string;
+  name: string;
+  description: string;
+  folders: TemplateFolder[];
+  builtIn?: boolean;
+}
+
+export interface SearchHitPage {
+  page: number;
+  snippet: string;
+  // snippet 안에서 검색어가 나오는 위치입니다.
+  highlights: { start: number; end: number }[];
+}
+
+export interface SearchHit {
+  fileId: string;
+  fileName: string;
+  score: number;
+  pages: SearchHitPage[];
+}
+
+export interface QACitation {
+  index: number;
+  fileId: string;
+  fileName: string;
+  pageStart: number;
+  pageEnd: number;
+  excerpt: string;
+}
+
+export interface QAMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: QACitation[];
+}
+
+export interface FileVersion {
+  id: string;
+  versionNumber: number;
+  name: string;
+  url: string;
+  storagePath: string;
+  contentType?: string;
+  size: string;
+  uploadDate: string;
+  analysis: AnalysisResult | string;
+  status: FileInfo['status'];
+  analysisProgress?: AnalysisProgress;
 }
 
 export interface Keyword {
@@ -20,27 +158,195 @@ export interface Keyword {
   explanation: string;
 }
 
+export type DocumentType =
+  | 'general'
+  | 'pitchDeck'
+  | 'financialStatements'
+  | 'legalContract'
+  | 'capTable'
+  | 'customerContract';
+
 export interface AnalysisResult {
   summary: string;
   keywords: Keyword[];
   categories: string[];
   tags: string[];
   keyInsights: string[];
+  // 분석 프로필 도입 이전의 결과에는 없습니다.
+  documentType?: DocumentType;
+  details?: AnalysisDetails;
+  // 분석 프로필 도입 이전의 결과에만 최상위에 있습니다.
+  toneAndStyle?: string;
+  targetAudience?: string;
+  potentialApplications?: string[];
+}
+
+export interface GeneralDetails {
   toneAndStyle: string;
   targetAudience: string;
   potentialApplications: string[];
 }
 
+export interface PitchDeckDetails {
+  companyName: string | null;
+  problem: string;
+  solution: string;
+  market: string;
+  businessModel: string;
+  traction: string[];
+  team: string[];
+  competition: string[];
+  fundraisingAsk: string | null;
+  useOfFunds: string[];
+}
+
+export interface FinancialMetric {
+  name: string;
+  value: string;
+  period: string | null;
+}
+
+export interface FinancialStatementsDetails {
+  reportingPeriod: string | null;
+  currency: string | null;
+  statementsIncluded: string[];
+  keyMetrics: FinancialMetric[];
+  notableItems: string[];
+}
+
+export interface ContractParty {
+  name: string;
+  role: string;
+}
+
+export interface LegalContractDetails {
+  contractType: string;
+  parties: ContractParty[];
+  effectiveDate: string | null;
+  term: string | null;
+  governingLaw: string | null;
+  changeOfControl: string[];
+  terminationRights: string[];
+  assignment: string | null;
+  liabilityAndIndemnity: string[];
+}
+
+export interface Holding {
+  name: string;
+  shares: string | null;
+  ownershipPercent: string | null;
+}
+
+export interface CapTableDetails {
+  asOfDate: string | null;
+  totalSharesOutstanding: string | null;
+  fullyDilutedShares: string | null;
+  shareClasses: Holding[];
+  majorHolders: Holding[];
+  optionPool: string | null;
+  convertibles: string[];
+}
+
+export interface CustomerContractDetails {
+  customer: string | null;
+  supplier: string | null;
+  contractValue: string | null;
+  pricing: string;
+  term: string | null;
+  renewal: string | null;
+  terminationRights: string[];
+  changeOfControl: string[];
+  exclusivity: string | null;
+  serviceLevels: string[];
+}
+
+export type AnalysisDetails =
+  | GeneralDetails
+  | PitchDeckDetails
+  | FinancialStatementsDetails
+  | LegalContractDetails
+  | CapTableDetails
+  | CustomerContractDetails;
+
+export type FinancialField =
+  | 'revenue'
+  | 'cogs'
+  | 'opex'
+  | 'ebitda'
+  | 'cash'
+  | 'burn';
+
+// 재무제표에서 뽑은 한 기간의 수치입니다. 금액은 단위를 풀어 쓴 값이고,
+// burn 은 월평균 순현금 유출입니다.
+export type FinancialRecord = {
+  id: string;
+  period: string;
+  periodEnd: string | null;
+  currency: string | null;
+  // 사용자가 고친 기록은 다시 분석해도 덮어쓰지 않습니다.
+  source: 'extracted' | 'edited';
+} & Record<FinancialField, number | null>;
+
 export interface DataRoomStats {
   lastAccessed: string;
   documentsViewed: number;
   timeSpent: number;
 }
 
+export interface DocumentActivity {
+  fileId: string;
+  views: number;
+  downloads: number;
+  totalMs: number;
+  pageCount?: number;
+  // 페이지 번호(1부터)별 누적 체류 시간(ms)
+  pageDwell: { [page: string]: number };
+  lastViewedAt: string;
+}
+
 export interface ActivityLog {
   timestamp: string;
   action: string;
   fileId: string;
+  shareId?: string;
+  ownerId?: string;
+}
+
+export interface ShareRecord {
+  shareId: string;
+  fileId: string;
+  recipientEmail: string;
+  expirationDate: string;
+  downloadable: boolean;
+  requireNDA: boolean;
+  createdAt: string;
+  revoked: boolean;
+  emailStatus?: 'sent' | 'failed';
+}
+
+export interface NdaTemplate {
+  id: string;
+  title: string;
+  body: string;
+  version: number;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NdaAcceptance {
+  id: string;
+  shareId: string;
+  fileId: string;
+  fileName: string;
+  templateId: string;
+  templateTitle: string;
+  ndaVersion: number;
+  name: string;
+  email: string;
+  ipAddress: string;
+  userAgent: string;
+  acceptedAt: string;
 }
 
 export interface Investor {
@@ -61,4 +367,40 @@ export interface Investor {
   investmentStage: string;
   location: string;
   importance: 'low' | 'medium' | 'high';
+  // 공유 열람 기록을 투자자와 맞출 때 쓰는 소문자 이메일입니다.
+  emailLower?: string;
+}
+
+export type ChecklistItemStatus =
+  | 'open'
+  | 'provided'
+  | 'notApplicable'
+  | 'toFollow';
+
+// 자동 매칭 결과입니다. 매칭을 아직 돌리지 않은 항목에는 없습니다.
+export type ChecklistCoverage = 'matched' | 'partial' | 'missing';
+
+export interface ChecklistMatch {
+  fileId: string;
+  fileName: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface ChecklistItem {
+  id: string;
+  order: number;
+  ref: string;
+  section: string;
+  request: string;
+  status: ChecklistItemStatus;
+  coverage?: ChecklistCoverage;
+  matches?: ChecklistMatch[];
+}
+
+export interface Checklist {
+  id: string;
+  name: string;
+  createdAt: string;
+  itemCount: number;
 }